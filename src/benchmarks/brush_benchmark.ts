@@ -0,0 +1,128 @@
+/**
+ * Brush selection benchmark, run with `npm run bench:brush`.
+ *
+ * Brushes a wavy surface with a constant face density but a growing size
+ * (so the brush always covers about the same number of faces)
+ * and compares the BVH brush with projecting every face centroid.
+ */
+import * as THREE from "three";
+import { FaceBVH } from "../services/face_bvh";
+import { facesUnderBrush } from "../services/brush_selection";
+
+const width = 1200;
+const height = 800;
+const radiusPixels = 10;
+// distance between grid vertices, in mm
+const spacing = 0.1;
+
+function makeSurface(faceCount: number): THREE.Mesh {
+	const side = Math.round(Math.sqrt(faceCount / 2));
+	const positions = new Float32Array(side * side * 18);
+	const vertex = (i: number, j: number, out: number[]) => {
+		const x = (i - side / 2) * spacing;
+		const z = (j - side / 2) * spacing;
+		out.push(x, 0.3 * Math.sin(x) * Math.cos(z), z);
+	};
+	let offset = 0;
+	const quad: number[] = [];
+	for (let i = 0; i < side; i++) {
+		for (let j = 0; j < side; j++) {
+			quad.length = 0;
+			// two triangles facing up
+			vertex(i, j, quad);
+			vertex(i, j + 1, quad);
+			vertex(i + 1, j, quad);
+			vertex(i + 1, j, quad);
+			vertex(i, j + 1, quad);
+			vertex(i + 1, j + 1, quad);
+			positions.set(quad, offset);
+			offset += 18;
+		}
+	}
+	const geometry = new THREE.BufferGeometry();
+	geometry.setAttribute("position", new THREE.BufferAttribute(positions, 3));
+	return new THREE.Mesh(geometry);
+}
+
+/** the per-face loop the viewer used before the BVH */
+function bruteForceBrush(
+	mesh: THREE.Mesh,
+	camera: THREE.Camera,
+	pointer: THREE.Vector2
+): number[] {
+	const position = mesh.geometry.getAttribute("position");
+	const faces: number[] = [];
+	const vector = new THREE.Vector3();
+	for (let face = 0; face < position.count / 3; face++) {
+		const a = new THREE.Vector3().fromBufferAttribute(position, face * 3);
+		const b = new THREE.Vector3().fromBufferAttribute(position, face * 3 + 1);
+		const c = new THREE.Vector3().fromBufferAttribute(position, face * 3 + 2);
+		const centroid = new THREE.Vector3()
+			.addVectors(a, b)
+			.add(c)
+			.multiplyScalar(1 / 3);
+		vector.copy(mesh.localToWorld(centroid)).project(camera);
+		const dx = ((vector.x - pointer.x) * width) / 2;
+		const dy = ((vector.y - pointer.y) * height) / 2;
+		if (dx * dx + dy * dy <= radiusPixels * radiusPixels) faces.push(face);
+	}
+	return faces;
+}
+
+function time(run: () => void, repeat: number) {
+	const start = performance.now();
+	for (let i = 0; i < repeat; i++) run();
+	return (performance.now() - start) / repeat;
+}
+
+const camera = new THREE.PerspectiveCamera(45, width / height, 0.1, 1000);
+camera.position.set(0, 30, 10);
+camera.lookAt(0, 0, 0);
+camera.updateMatrixWorld();
+
+console.log(
+	"faces".padStart(9),
+	"build ms".padStart(9),
+	"brush ms".padStart(9),
+	"selected".padStart(9),
+	"all faces ms".padStart(13)
+);
+for (const faceCount of [10_000, 100_000, 400_000, 1_000_000]) {
+	const mesh = makeSurface(faceCount);
+	mesh.updateMatrixWorld();
+
+	let bvh!: FaceBVH;
+	const build = time(() => (bvh = new FaceBVH(mesh.geometry)), 1);
+
+	const pointers = Array.from(
+		{ length: 200 },
+		(_, i) => new THREE.Vector2(Math.sin(i) * 0.2, Math.cos(i * 1.3) * 0.2)
+	);
+	let selected = 0;
+	const brush = time(() => {
+		for (const pointer of pointers) {
+			selected += facesUnderBrush(bvh, {
+				mesh,
+				camera,
+				pointer,
+				width,
+				height,
+				radius: radiusPixels,
+				unit: "pixels",
+			}).length;
+		}
+	}, 1);
+
+	const bruteForce = time(
+		() => bruteForceBrush(mesh, camera, pointers[0]),
+		faceCount > 100_000 ? 2 : 10
+	);
+
+	console.log(
+		String(faceCount).padStart(9),
+		build.toFixed(0).padStart(9),
+		(brush / pointers.length).toFixed(3).padStart(9),
+		(selected / pointers.length).toFixed(0).padStart(9),
+		bruteForce.toFixed(1).padStart(13)
+	);
+}
@@ -0,0 +1,173 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	Dropdown,
+	IconButton,
+	PrimaryButton,
+	SpinButton,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import type { ICPRegion } from "../services/icp";
+
+@observer
+export class AlignmentPanel extends React.Component {
+	render() {
+		const options = gState.models.map((model) => ({
+			key: model.id,
+			text: model.name,
+		}));
+		const rows = Math.max(
+			gState.alignMovingPoints.length,
+			gState.alignFixedPoints.length
+		);
+		const moving = gState.models.find((m) => m.id === gState.alignMovingId);
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Align models</h3>
+				<div className="content">
+					<Dropdown
+						label="Moving model"
+						selectedKey={gState.alignMovingId}
+						options={options}
+						onChange={(_, option) =>
+							gState.setAlignmentModels(
+								option!.key as number,
+								gState.alignFixedId!
+							)
+						}
+					/>
+					<Dropdown
+						label="Fixed model"
+						selectedKey={gState.alignFixedId}
+						options={options.filter(
+							(option) => option.key !== gState.alignMovingId
+						)}
+						onChange={(_, option) =>
+							gState.setAlignmentModels(
+								gState.alignMovingId!,
+								option!.key as number
+							)
+						}
+					/>
+					<p className="hint">
+						Click matching landmarks (e.g. cusp tips) on both models, in the
+						same order. At least three pairs are needed.
+					</p>
+					{rows > 0 && (
+						<table>
+							<thead>
+								<tr>
+									<th>#</th>
+									<th>Moving</th>
+									<th>Fixed</th>
+									<th>Error</th>
+									<th></th>
+								</tr>
+							</thead>
+							<tbody>
+								{Array.from({ length: rows }, (_, i) => (
+									<tr key={i}>
+										<td>{i + 1}</td>
+										<td>{gState.alignMovingPoints[i] ? "✓" : "–"}</td>
+										<td>{gState.alignFixedPoints[i] ? "✓" : "–"}</td>
+										<td>
+											{gState.alignResult &&
+											i < gState.alignResult.residuals.length
+												? `${gState.alignResult.residuals[i].toFixed(2)} mm`
+												: ""}
+										</td>
+										<td>
+											<IconButton
+												iconProps={{ iconName: "Delete" }}
+												title="Remove pair"
+												onClick={() => gState.removeAlignmentPair(i)}
+											/>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+					{gState.alignResult && (
+						<p>RMS error: {gState.alignResult.rms.toFixed(3)} mm</p>
+					)}
+					{moving?.locked && (
+						<p className="hint">The moving model is locked.</p>
+					)}
+					<div className="buttons">
+						<PrimaryButton
+							text="Align"
+							disabled={
+								gState.alignmentPairCount < 3 ||
+								gState.alignMovingPoints.length !==
+									gState.alignFixedPoints.length ||
+								!!moving?.locked
+							}
+							onClick={() => gState.applyAlignment()}
+						/>
+						<DefaultButton text="Close" onClick={() => gState.stopAligning()} />
+					</div>
+					<h4>Refine (ICP)</h4>
+					<p className="hint">
+						Snaps the moving model onto the fixed model by matching nearby
+						surface points. Align roughly first.
+					</p>
+					<ChoiceGroup
+						label="Use from the moving model"
+						selectedKey={gState.icpRegion}
+						disabled={gState.icpRunning}
+						options={[
+							{ key: "all", text: "Whole model" },
+							{ key: "selected", text: "Selected faces only" },
+							{ key: "unselected", text: "Everything but the selection" },
+						]}
+						onChange={(_, option) => {
+							gState.icpRegion = option!.key as ICPRegion;
+						}}
+					/>
+					<SpinButton
+						label="Max. distance (mm)"
+						value={gState.icpMaxDistance.toString()}
+						min={0.1}
+						max={20}
+						step={0.5}
+						disabled={gState.icpRunning}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.icpMaxDistance = Number(value);
+							}
+						}}
+					/>
+					{gState.icpProgress && (
+						<p>
+							Iteration {gState.icpProgress.iteration}, RMS error:{" "}
+							{gState.icpProgress.rms.toFixed(3)} mm
+						</p>
+					)}
+					{gState.icpResult && (
+						<p>
+							{gState.icpResult.converged ? "Converged" : "Stopped"} after{" "}
+							{gState.icpResult.iterations} iterations, RMS error:{" "}
+							{gState.icpResult.rms.toFixed(3)} mm
+						</p>
+					)}
+					{gState.icpError && <p className="error">{gState.icpError}</p>}
+					<div className="buttons">
+						{gState.icpRunning ? (
+							<DefaultButton text="Cancel" onClick={() => gState.cancelICP()} />
+						) : (
+							<PrimaryButton
+								text="Refine"
+								disabled={!!moving?.locked}
+								onClick={() => gState.startICP()}
+							/>
+						)}
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
@@ -0,0 +1,102 @@
+import React from "react";
+import { DefaultButton, PrimaryButton, Toggle } from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import { isPrintable, meshProblems } from "../services/mesh_analysis";
+
+@observer
+export class AnalysisPanel extends React.Component {
+	render() {
+		const model = gState.activeModel;
+		const analysis = gState.analysis;
+		const closed = analysis?.counts.boundary === 0;
+		const bounds = gState.analysisBounds;
+		const size = bounds && bounds.max.clone().sub(bounds.min).toArray();
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Analysis {model?.name}</h3>
+				{analysis && (
+					<div className="content">
+						<table className="analysis">
+							<tbody>
+								<tr>
+									<td>Triangles</td>
+									<td className="count">{analysis.triangles}</td>
+								</tr>
+								<tr>
+									<td>Vertices</td>
+									<td className="count">{analysis.vertices}</td>
+								</tr>
+								<tr>
+									<td>Boundary loops</td>
+									<td className="count">{analysis.boundaryLoops}</td>
+								</tr>
+								{meshProblems.map(({ problem, label, color }) => (
+									<tr key={problem}>
+										<td>
+											<span
+												className="swatch"
+												style={{ background: color }}
+											></span>
+											{label}
+										</td>
+										<td className="count">{analysis.counts[problem]}</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+						<h4>Dimensions</h4>
+						<table className="analysis">
+							<tbody>
+								<tr>
+									<td>Surface area</td>
+									<td className="count">{analysis.area.toFixed(1)} mm²</td>
+								</tr>
+								<tr>
+									<td>Volume</td>
+									<td className="count">
+										{closed ? `${analysis.volume.toFixed(1)} mm³` : "-"}
+									</td>
+								</tr>
+								<tr>
+									<td>Size (x, y, z)</td>
+									<td className="count">
+										{size!.map((s) => s.toFixed(1)).join(" × ")} mm
+									</td>
+								</tr>
+							</tbody>
+						</table>
+						{!closed && (
+							<p className="hint">
+								The surface is not closed, it has no volume until its holes are
+								filled or a base is created.
+							</p>
+						)}
+						{isPrintable(analysis) && <p>No problems were found.</p>}
+						<Toggle
+							label="Highlight problems"
+							inlineLabel
+							checked={gState.highlightProblems}
+							onChange={(_, checked) => gState.setHighlightProblems(!!checked)}
+						/>
+						{model?.locked && <p className="hint">The model is locked.</p>}
+						{gState.repairInfo && <p>{gState.repairInfo}</p>}
+						<div className="buttons">
+							<PrimaryButton
+								text="Repair"
+								title="Merge duplicate vertices, remove degenerate, duplicate and non-manifold faces and fix the normals"
+								disabled={!model || model.locked}
+								onClick={() => gState.repairModel()}
+							/>
+							<DefaultButton
+								text="Close"
+								onClick={() => gState.stopAnalyzing()}
+							/>
+						</div>
+					</div>
+				)}
+			</div>
+		);
+	}
+}
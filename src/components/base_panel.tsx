@@ -0,0 +1,115 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	PrimaryButton,
+	SpinButton,
+	Toggle,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import type { BaseShape } from "../services/model_base";
+
+@observer
+export class BasePanel extends React.Component {
+	render() {
+		const model = gState.activeModel;
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Create base {model?.name}</h3>
+				<div className="content">
+					<p className="hint">
+						Orient the model first, the base is built under it. Trim the scan
+						with Plane cut for a clean border.
+					</p>
+					<ChoiceGroup
+						label="Shape"
+						selectedKey={gState.baseShape}
+						options={[
+							{ key: "horseshoe", text: "Horseshoe" },
+							{ key: "full-plate", text: "Full plate" },
+						]}
+						onChange={(_, option) => {
+							gState.baseShape = option!.key as BaseShape;
+						}}
+					/>
+					<SpinButton
+						label="Height below the scan (mm)"
+						value={gState.baseHeight.toString()}
+						min={1}
+						max={50}
+						step={1}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.baseHeight = Number(value);
+							}
+						}}
+					/>
+					<Toggle
+						label="Hollow"
+						inlineLabel
+						checked={gState.baseHollow}
+						onChange={() => {
+							gState.baseHollow = !gState.baseHollow;
+						}}
+					/>
+					{gState.baseHollow && (
+						<>
+							<SpinButton
+								label="Wall thickness (mm)"
+								value={gState.baseWallThickness.toString()}
+								min={0.5}
+								max={10}
+								step={0.5}
+								onChange={(_, value) => {
+									if (value !== undefined) {
+										gState.baseWallThickness = Number(value);
+									}
+								}}
+							/>
+							<SpinButton
+								label="Drain holes"
+								value={gState.baseDrainHoles.toString()}
+								min={0}
+								max={8}
+								step={1}
+								onChange={(_, value) => {
+									if (value !== undefined) {
+										gState.baseDrainHoles = Number(value);
+									}
+								}}
+							/>
+							<SpinButton
+								label="Drain hole diameter (mm)"
+								value={gState.baseDrainHoleDiameter.toString()}
+								min={1}
+								max={10}
+								step={0.5}
+								onChange={(_, value) => {
+									if (value !== undefined) {
+										gState.baseDrainHoleDiameter = Number(value);
+									}
+								}}
+							/>
+						</>
+					)}
+					{model?.locked && <p className="hint">The model is locked.</p>}
+					{gState.baseInfo && <p>{gState.baseInfo}</p>}
+					{gState.baseError && <p className="error">{gState.baseError}</p>}
+					<div className="buttons">
+						<PrimaryButton
+							text="Create"
+							disabled={!model || model.locked}
+							onClick={() => gState.createModelBase()}
+						/>
+						<DefaultButton
+							text="Close"
+							onClick={() => gState.stopCreatingBase()}
+						/>
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
@@ -0,0 +1,102 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	Dropdown,
+	PrimaryButton,
+	SpinButton,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import { crownLimits, type CrownSource } from "../services/crown";
+
+@observer
+export class CrownPanel extends React.Component {
+	render() {
+		const model = gState.models.find((m) => m.id === gState.crownModelId);
+		const { crown, error } = gState.crownDesign;
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Crown {model?.name}</h3>
+				<div className="content">
+					<p className="hint">
+						Select the preparation up to its margin with the brush, the border
+						of the selection is the margin line.
+					</p>
+					<ChoiceGroup
+						label="Outer shape"
+						selectedKey={gState.crownSource}
+						options={[
+							{ key: "template", text: "Tooth template" },
+							{
+								key: "pre-op",
+								text: "Pre-op scan",
+								disabled: gState.models.length < 2,
+							},
+						]}
+						onChange={(_, option) => {
+							gState.crownSource = option!.key as CrownSource;
+						}}
+					/>
+					{gState.crownSource === "pre-op" && (
+						<>
+							<Dropdown
+								label="Pre-op scan"
+								selectedKey={gState.crownPreOpId}
+								options={gState.models
+									.filter((m) => m !== model)
+									.map((m) => ({ key: m.id, text: m.name }))}
+								onChange={(_, option) => {
+									gState.crownPreOpId = option!.key as number;
+								}}
+							/>
+							<p className="hint">
+								Align the pre-op scan to the prepared one first.
+							</p>
+						</>
+					)}
+					<SpinButton
+						label="Cement gap (mm)"
+						value={gState.crownCementGap.toString()}
+						min={crownLimits.cementGap.min}
+						max={crownLimits.cementGap.max}
+						step={0.01}
+						precision={2}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.crownCementGap = Number(value);
+							}
+						}}
+					/>
+					<SpinButton
+						label="Minimal thickness (mm)"
+						value={gState.crownThickness.toString()}
+						min={crownLimits.minThickness.min}
+						max={crownLimits.minThickness.max}
+						step={0.1}
+						precision={1}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.crownThickness = Number(value);
+							}
+						}}
+					/>
+					{error && <p className="error">{error}</p>}
+					{gState.crownInfo && <p>{gState.crownInfo}</p>}
+					<div className="buttons">
+						<PrimaryButton
+							text="Create crown"
+							disabled={!crown}
+							onClick={() => gState.createCrown()}
+						/>
+						<DefaultButton
+							text="Close"
+							onClick={() => gState.stopDesigningCrown()}
+						/>
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
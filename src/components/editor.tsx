@@ -5,26 +5,173 @@ import { gState } from "../state";
 import { STLViewer } from "./stl_viewer";
 import { observer } from "mobx-react";
 import { ToolButton } from "./tool_button";
+import { ExportDialog } from "./export_dialog";
+import { HistoryPanel } from "./history_panel";
+import { ModelsPanel } from "./models_panel";
 
+import { AlignmentPanel } from "./alignment_panel";
+import { SelectionPanel } from "./selection_panel";
+import { OrientationPanel } from "./orientation_panel";
+import { PlaneCutPanel } from "./plane_cut_panel";
+import { HoleFillingPanel } from "./hole_filling_panel";
+import { SolidifyPanel } from "./solidify_panel";
+import { BasePanel } from "./base_panel";
+import { AnalysisPanel } from "./analysis_panel";
+import { LabelPanel } from "./label_panel";
+import { RetainerPanel } from "./retainer_panel";
+import { CrownPanel } from "./crown_panel";
+import { ExtractionPanel } from "./extraction_panel";
+import { MeasurementPanel } from "./measurement_panel";
+import { SectionPanel } from "./section_panel";
+import { SectionProfilePanel } from "./section_profile_panel";
+
+import alignSVG from "../svgs/align.svg";
 import cutSVG from "../svgs/cut.svg";
+import orientSVG from "../svgs/orient.svg";
+import planeCutSVG from "../svgs/plane_cut.svg";
+import fillHolesSVG from "../svgs/fill_holes.svg";
+import baseSVG from "../svgs/base.svg";
 import solidifySVG from "../svgs/solidify.svg";
+import analysisSVG from "../svgs/analysis.svg";
+import labelSVG from "../svgs/label.svg";
+import retainerSVG from "../svgs/retainer.svg";
+import crownSVG from "../svgs/crown.svg";
+import extractSVG from "../svgs/extract.svg";
+import measureSVG from "../svgs/measure.svg";
+import sectionSVG from "../svgs/section.svg";
 
 @observer
 export class Editor extends React.Component {
 	viewer = createRef<STLViewer>();
 
+	componentDidMount() {
+		window.addEventListener("keydown", this.onKeyDown);
+		if (gState.pendingCameraPose && this.viewer.current) {
+			this.viewer.current.setCameraPose(gState.pendingCameraPose);
+			gState.pendingCameraPose = null;
+		}
+	}
+
+	componentWillUnmount() {
+		window.removeEventListener("keydown", this.onKeyDown);
+	}
+
+	onKeyDown = (event: KeyboardEvent) => {
+		const target = event.target as HTMLElement;
+		if (target.tagName === "INPUT" || target.tagName === "TEXTAREA") {
+			return;
+		}
+		if (!(event.ctrlKey || event.metaKey)) {
+			return;
+		}
+		const key = event.key.toLowerCase();
+		if ((key === "z" && event.shiftKey) || key === "y") {
+			event.preventDefault();
+			gState.redo();
+		} else if (key === "z") {
+			event.preventDefault();
+			gState.undo();
+		}
+	};
 
 	render(): React.ReactNode {
+		// the selection set is not observable, reading the version
+		// re-renders the editor when it is changed from the state
+		const hasSelection =
+			gState.selectionVersion >= 0 && gState.selectedFaceIndices.size > 0;
+
 		return (
 			<div id="editor">
-				{gState.decodedSTL ? (
+				{gState.models.length > 0 ? (
 					<STLViewer
 						ref={this.viewer}
-						decodedSTL={gState.decodedSTL}
+						models={gState.models.map((model) => ({
+							id: model.id,
+							decodedSTL: model.decodedSTL,
+							visible: model.visible,
+							locked: model.locked,
+							selectedFaceIndices: model.selectedFaceIndices,
+							color: model.color,
+						}))}
+						activeModelId={gState.activeModelId}
 						selecting={gState.selecting}
+						picking={
+							gState.aligning ||
+							gState.orienting ||
+							gState.labeling ||
+							gState.designingRetainer ||
+							gState.measuring
+						}
+						markers={[
+							...gState.alignmentMarkers,
+							...gState.orientationMarkers,
+							...gState.holeMarkers,
+							...gState.retainerMarkers,
+							...gState.measureMarkers,
+						]}
+						measurements={gState.measurementLines}
+						highlights={gState.problemHighlights}
+						preview={
+							gState.labelPreview ||
+							gState.retainerPreview ||
+							gState.crownPreview
+						}
+						onPick={(modelId, point) => {
+							if (gState.measuring) {
+								gState.addMeasurePoint(modelId, point);
+							} else if (gState.labeling) {
+								gState.setLabelPoint(modelId, point);
+							} else if (gState.designingRetainer) {
+								gState.addRetainerPoint(modelId, point);
+							} else if (gState.orienting) {
+								gState.addOrientationPoint(modelId, point);
+							} else {
+								gState.addAlignmentPoint(modelId, point);
+							}
+						}}
+						selectionVersion={gState.selectionVersion}
 						onSelect={() => {
 							this.setState({});
 						}}
+						onSelectionStroke={(added, removed) => {
+							gState.recordSelectionStroke(added, removed);
+						}}
+						brushRadius={gState.brushRadius}
+						brushUnit={gState.brushUnit}
+						brushErasing={gState.brushErasing}
+						onBrushRadiusChange={(radius) => gState.setBrushRadius(radius)}
+						selectionTool={gState.selectionTool}
+						selectionOperation={gState.selectionOperation}
+						selectVisibleOnly={gState.selectVisibleOnly}
+						cutPlane={
+							gState.planeCutting
+								? gState.cutPlanePose
+								: gState.sectioning
+									? gState.sectionPose
+									: null
+						}
+						cutPlaneRemoveAbove={
+							gState.sectioning
+								? gState.sectionFlipped
+								: gState.cutPlaneRemoveAbove
+						}
+						cutPlaneGizmo={
+							gState.sectioning ? gState.sectionGizmo : gState.cutPlaneGizmo
+						}
+						cutPlaneSection={gState.sectioning}
+						onCutPlaneChange={(pose) => {
+							if (gState.sectioning) {
+								gState.setSectionPose(pose);
+							} else {
+								gState.setCutPlanePose(pose);
+							}
+						}}
+						onTransform={(before, after, mode) => {
+							gState.recordTransform(before, after, mode);
+						}}
+						onCenter={(modelId) => {
+							gState.models.find((m) => m.id === modelId)?.updateTransform();
+						}}
 					></STLViewer>
 				) : null}
 
@@ -36,7 +183,28 @@ export class Editor extends React.Component {
 						<h1>CastCad</h1>
 					</div>
 					<div className="buttons">
-						<PrimaryButton iconProps={{ iconName: "export" }}>
+						<DefaultButton
+							iconProps={{ iconName: "undo" }}
+							title="Undo (Ctrl+Z)"
+							disabled={!gState.history.canUndo}
+							onClick={() => gState.undo()}
+						/>
+						<DefaultButton
+							iconProps={{ iconName: "redo" }}
+							title="Redo (Ctrl+Shift+Z)"
+							disabled={!gState.history.canRedo}
+							onClick={() => gState.redo()}
+						/>
+						<DefaultButton
+							iconProps={{ iconName: "save" }}
+							onClick={() => gState.saveProject(this.viewer.current)}
+						>
+							Save project
+						</DefaultButton>
+						<PrimaryButton
+							iconProps={{ iconName: "export" }}
+							onClick={() => gState.openExportDialog()}
+						>
 							Export
 						</PrimaryButton>
 						<DefaultButton
@@ -44,10 +212,10 @@ export class Editor extends React.Component {
 								gState.showDialog({
 									title: "Closing file",
 									message:
-										"Are you sure you want to close the this file? All unsaved changes will be lost.",
+										"Are you sure you want to close all the models? All unsaved changes will be lost.",
 									type: "warning",
 									onConfirm: () => {
-										gState.decodedSTL = null;
+										gState.closeFile();
 									},
 									onCancel: () => {},
 								});
@@ -60,39 +228,209 @@ export class Editor extends React.Component {
 				</div>
 
 				<div className="tools">
-					{
-						(this.viewer.current && this.viewer.current.selectedFaceIndices.size > 0 && <ToolButton
+					{hasSelection && (
+						<ToolButton
 							label="Cut"
 							tooltip="Cut away needless areas"
 							icon={cutSVG}
 							onClick={() => {
-								const camera = this.viewer.current.camera.clone();
-								gState.cutSelection(this.viewer.current.selectedFaceIndices);
-								setTimeout(() => {
-									this.viewer.current.camera.position.set(
-										camera.position.x,
-										camera.position.y,
-										camera.position.z
-									);
-								}, 150);
+								gState.cutSelection(gState.selectedFaceIndices);
+							}}
+						></ToolButton>
+					)}
+
+					<ToolButton
+						label="Plane cut"
+						tooltip="Trim the model along a plane, e.g. to a flat base"
+						icon={planeCutSVG}
+						onClick={() => {
+							if (gState.planeCutting) {
+								gState.stopPlaneCut();
+							} else {
+								gState.hideTransformControls(this.viewer.current);
+								gState.startPlaneCut();
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Fill holes"
+						tooltip="Close holes of the scan with patches following the surface"
+						icon={fillHolesSVG}
+						onClick={() => {
+							if (gState.fillingHoles) {
+								gState.stopFillingHoles();
+							} else {
+								gState.startFillingHoles();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Orient"
+						tooltip="Level the occlusal plane and put the model on the ground"
+						icon={orientSVG}
+						onClick={() => {
+							if (gState.orienting) {
+								gState.stopOrienting();
+							} else {
+								gState.startOrienting();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					{gState.models.length > 1 && (
+						<ToolButton
+							label="Align"
+							tooltip="Align a model onto another by matching landmarks"
+							icon={alignSVG}
+							onClick={() => {
+								if (gState.aligning) {
+									gState.stopAligning();
+								} else {
+									gState.startAligning();
+									gState.hideTransformControls(this.viewer.current);
+								}
 							}}
-						></ToolButton>)
-					}
+						></ToolButton>
+					)}
 
 					<ToolButton
 						label="Solidify"
 						tooltip="Solidify and hollow the model to a specific thickness"
 						icon={solidifySVG}
+						onClick={() => {
+							if (gState.solidifying) {
+								gState.stopSolidifying();
+							} else {
+								gState.startSolidifying();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Create base"
+						tooltip="Close the scan with a flat base so it can be 3D printed"
+						icon={baseSVG}
+						onClick={() => {
+							if (gState.creatingBase) {
+								gState.stopCreatingBase();
+							} else {
+								gState.startCreatingBase();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Analyze"
+						tooltip="Check the model for problems that keep it from being 3D printed"
+						icon={analysisSVG}
+						onClick={() => {
+							if (gState.analyzing) {
+								gState.stopAnalyzing();
+							} else {
+								gState.startAnalyzing();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Label"
+						tooltip="Engrave or emboss a text, e.g. the case ID, into the model"
+						icon={labelSVG}
+						onClick={() => {
+							if (gState.labeling) {
+								gState.stopLabeling();
+							} else {
+								gState.startLabeling();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Retainer"
+						tooltip="Design a bonded retainer wire along the teeth"
+						icon={retainerSVG}
+						onClick={() => {
+							if (gState.designingRetainer) {
+								gState.stopDesigningRetainer();
+							} else {
+								gState.startDesigningRetainer();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Crown"
+						tooltip="Make a temporary crown over the selected preparation"
+						icon={crownSVG}
+						onClick={() => {
+							if (gState.designingCrown) {
+								gState.stopDesigningCrown();
+							} else {
+								gState.startDesigningCrown();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Extract"
+						tooltip="Remove the selected tooth and close the socket with a healed ridge"
+						icon={extractSVG}
+						onClick={() => {
+							if (gState.extracting) {
+								gState.stopExtracting();
+							} else {
+								gState.startExtracting();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Measure"
+						tooltip="Measure distances and angles on the models, e.g. the intercanine width"
+						icon={measureSVG}
+						onClick={() => {
+							if (gState.measuring) {
+								gState.stopMeasuring();
+							} else {
+								gState.startMeasuring();
+								gState.hideTransformControls(this.viewer.current);
+							}
+						}}
+					></ToolButton>
+
+					<ToolButton
+						label="Section"
+						tooltip="Slice the models to check wall thickness and the fit between the arches"
+						icon={sectionSVG}
+						onClick={() => {
+							if (gState.sectioning) {
+								gState.stopSectioning();
+							} else {
+								gState.hideTransformControls(this.viewer.current);
+								gState.startSectioning();
+							}
+						}}
 					></ToolButton>
 				</div>
 
 				{this.viewer.current && (
 					<div className="controls">
-						{this.viewer.current.selectedFaceIndices.size > 0 && (
+						{hasSelection && (
 							<DefaultButton
 								iconProps={{ iconName: "clearSelection" }}
 								text="Deselect all"
-								onClick={this.viewer.current.clearSelection}
+								onClick={() => gState.clearSelection()}
 							/>
 						)}
 
@@ -115,6 +453,7 @@ export class Editor extends React.Component {
 						<DefaultButton
 							iconProps={{ iconName: "rotate" }}
 							text="Rotate"
+							disabled={gState.planeCutting || gState.sectioning}
 							primary={
 								this.viewer.current.transformControls?.getMode() === "rotate" &&
 								this.viewer.current.transformControlsGizmo.parent ===
@@ -140,6 +479,7 @@ export class Editor extends React.Component {
 						<DefaultButton
 							iconProps={{ iconName: "SIPMove" }}
 							text="Translate"
+							disabled={gState.planeCutting || gState.sectioning}
 							primary={
 								this.viewer.current.transformControls?.getMode() ===
 									"translate" &&
@@ -172,6 +512,29 @@ export class Editor extends React.Component {
 					</div>
 				)}
 
+				{gState.selecting && <SelectionPanel></SelectionPanel>}
+				{gState.aligning && <AlignmentPanel></AlignmentPanel>}
+				{gState.orienting && <OrientationPanel></OrientationPanel>}
+				{gState.planeCutting && <PlaneCutPanel></PlaneCutPanel>}
+				{gState.fillingHoles && <HoleFillingPanel></HoleFillingPanel>}
+				{gState.solidifying && <SolidifyPanel></SolidifyPanel>}
+				{gState.creatingBase && <BasePanel></BasePanel>}
+				{gState.analyzing && <AnalysisPanel></AnalysisPanel>}
+				{gState.labeling && <LabelPanel></LabelPanel>}
+				{gState.designingRetainer && <RetainerPanel></RetainerPanel>}
+				{gState.designingCrown && <CrownPanel></CrownPanel>}
+				{gState.extracting && <ExtractionPanel></ExtractionPanel>}
+				{gState.measuring && <MeasurementPanel></MeasurementPanel>}
+				{gState.sectioning && <SectionPanel></SectionPanel>}
+				{gState.sectioning && <SectionProfilePanel></SectionProfilePanel>}
+
+				<div className="side-panels">
+					<ModelsPanel></ModelsPanel>
+					<HistoryPanel></HistoryPanel>
+				</div>
+
+				<ExportDialog></ExportDialog>
+
 				<div className="camera-table">
 					<table>
 						<tbody>
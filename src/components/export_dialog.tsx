@@ -0,0 +1,68 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	Dialog,
+	DialogFooter,
+	DialogType,
+	PrimaryButton,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import type { STLExportFormat, STLExportFrame } from "../services/stl_export";
+
+@observer
+export class ExportDialog extends React.Component {
+	render() {
+		return (
+			<Dialog
+				hidden={!gState.exportDialogOpen}
+				onDismiss={() => gState.closeExportDialog()}
+				dialogContentProps={{
+					type: DialogType.normal,
+					title: "Export STL",
+					subText: gState.activeModel
+						? `Exports the active model "${gState.activeModel.name}".`
+						: undefined,
+				}}
+				modalProps={{
+					isBlocking: false,
+				}}
+			>
+				<ChoiceGroup
+					label="Format"
+					selectedKey={gState.exportFormat}
+					options={[
+						{ key: "binary", text: "Binary STL (smaller)" },
+						{ key: "ascii", text: "ASCII STL" },
+					]}
+					onChange={(_, option) => {
+						gState.exportFormat = option!.key as STLExportFormat;
+					}}
+				/>
+				<ChoiceGroup
+					label="Coordinate frame"
+					selectedKey={gState.exportFrame}
+					options={[
+						{ key: "original", text: "Original scanner frame" },
+						{ key: "edited", text: "Edited pose (as seen in the viewer)" },
+					]}
+					onChange={(_, option) => {
+						gState.exportFrame = option!.key as STLExportFrame;
+					}}
+				/>
+				<DialogFooter>
+					<PrimaryButton
+						iconProps={{ iconName: "export" }}
+						onClick={() => gState.exportFile()}
+						text="Export"
+					/>
+					<DefaultButton
+						onClick={() => gState.closeExportDialog()}
+						text="Cancel"
+					/>
+				</DialogFooter>
+			</Dialog>
+		);
+	}
+}
@@ -0,0 +1,56 @@
+import React from "react";
+import { DefaultButton, PrimaryButton, SpinButton } from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import { concavityLimits } from "../services/tooth_extraction";
+
+@observer
+export class ExtractionPanel extends React.Component {
+	render() {
+		const model = gState.activeModel;
+		// the selection is not observable, see selectionVersion
+		const hasSelection =
+			gState.selectionVersion >= 0 && gState.selectedFaceIndices.size > 0;
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Extract tooth {model?.name}</h3>
+				<div className="content">
+					<p className="hint">
+						Select the crown of the tooth with the brush, up to the gingiva. The
+						socket is closed with a healed ridge.
+					</p>
+					<SpinButton
+						label="Ridge concavity (mm)"
+						value={gState.extractConcavity.toString()}
+						min={concavityLimits.min}
+						max={concavityLimits.max}
+						step={0.1}
+						precision={1}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.extractConcavity = Number(value);
+							}
+						}}
+					/>
+					{model?.locked && <p className="hint">The model is locked.</p>}
+					{gState.extractError && (
+						<p className="error">{gState.extractError}</p>
+					)}
+					{gState.extractInfo && <p>{gState.extractInfo}</p>}
+					<div className="buttons">
+						<PrimaryButton
+							text="Extract"
+							disabled={!model || model.locked || !hasSelection}
+							onClick={() => gState.extractSelectedTooth()}
+						/>
+						<DefaultButton
+							text="Close"
+							onClick={() => gState.stopExtracting()}
+						/>
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
@@ -0,0 +1,42 @@
+import React from "react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+
+@observer
+export class HistoryPanel extends React.Component {
+	render() {
+		const { entries, cursor } = gState.history;
+		if (entries.length === 0) {
+			return null;
+		}
+
+		return (
+			<div className="history-panel panel">
+				<h3>History</h3>
+				<ul>
+					<li
+						className={cursor === 0 ? "current" : undefined}
+						onClick={() => gState.jumpToHistory(0)}
+					>
+						Opened file
+					</li>
+					{entries.map((entry, index) => (
+						<li
+							key={index}
+							className={
+								index + 1 === cursor
+									? "current"
+									: index + 1 > cursor
+										? "undone"
+										: undefined
+							}
+							onClick={() => gState.jumpToHistory(index + 1)}
+						>
+							{entry.label}
+						</li>
+					))}
+				</ul>
+			</div>
+		);
+	}
+}
@@ -0,0 +1,71 @@
+import React from "react";
+import {
+	Checkbox,
+	DefaultButton,
+	PrimaryButton,
+	SpinButton,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+
+@observer
+export class HoleFillingPanel extends React.Component {
+	render() {
+		const model = gState.activeModel;
+		const holes = gState.holes;
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Fill holes {model?.name}</h3>
+				<div className="content">
+					<p className="hint">
+						Choose the holes to close. The largest one is usually the open
+						border of the scan and should be left open.
+					</p>
+					{holes.length === 0 && <p>The model has no holes.</p>}
+					{holes.map((hole, i) => (
+						<Checkbox
+							key={i}
+							label={`${i + 1}. ${hole.perimeter.toFixed(1)} mm, ${
+								hole.vertices.length
+							} edges`}
+							checked={gState.chosenHoles.includes(i)}
+							onChange={() => gState.toggleHole(i)}
+						/>
+					))}
+					<SpinButton
+						label="Smaller than (mm)"
+						value={gState.holeMaxPerimeter.toString()}
+						min={1}
+						step={5}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.holeMaxPerimeter = Number(value);
+							}
+						}}
+					/>
+					{model?.locked && <p className="hint">The model is locked.</p>}
+					{gState.holeInfo && <p>{gState.holeInfo}</p>}
+					<div className="buttons">
+						<DefaultButton
+							text="Choose"
+							disabled={holes.length === 0}
+							onClick={() => gState.chooseSmallHoles()}
+						/>
+						<PrimaryButton
+							text="Fill"
+							disabled={
+								!model || model.locked || gState.chosenHoles.length === 0
+							}
+							onClick={() => gState.fillChosenHoles()}
+						/>
+						<DefaultButton
+							text="Close"
+							onClick={() => gState.stopFillingHoles()}
+						/>
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
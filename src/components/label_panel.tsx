@@ -0,0 +1,99 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	PrimaryButton,
+	SpinButton,
+	TextField,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import { labelLimits, type LabelMode } from "../services/text_label";
+
+@observer
+export class LabelPanel extends React.Component {
+	render() {
+		const model = gState.models.find((m) => m.id === gState.labelModelId);
+		const { label, error } = gState.labelPlacement;
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Label {model?.name}</h3>
+				<div className="content">
+					<TextField
+						label="Text"
+						placeholder="Case ID, patient name..."
+						value={gState.labelText}
+						onChange={(_, value) => {
+							gState.labelText = value || "";
+						}}
+					/>
+					<ChoiceGroup
+						selectedKey={gState.labelMode}
+						options={[
+							{ key: "engrave", text: "Engrave" },
+							{ key: "emboss", text: "Emboss" },
+						]}
+						onChange={(_, option) => {
+							gState.labelMode = option!.key as LabelMode;
+						}}
+					/>
+					<SpinButton
+						label="Font size (mm)"
+						value={gState.labelSize.toString()}
+						min={labelLimits.size.min}
+						max={labelLimits.size.max}
+						step={0.5}
+						precision={1}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.setLabelSize(Number(value));
+							}
+						}}
+					/>
+					<SpinButton
+						label="Depth (mm)"
+						value={gState.labelDepth.toString()}
+						min={labelLimits.depth.min}
+						max={labelLimits.depth.max}
+						step={0.1}
+						precision={1}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.setLabelDepth(Number(value));
+							}
+						}}
+					/>
+					<SpinButton
+						label="Rotation (°)"
+						value={gState.labelRotation.toString()}
+						min={-180}
+						max={180}
+						step={5}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.labelRotation = Number(value);
+							}
+						}}
+					/>
+					{!gState.labelPoint && (
+						<p className="hint">
+							Click the model where the label goes, a flat area works best.
+						</p>
+					)}
+					{model?.locked && <p className="hint">The model is locked.</p>}
+					{error && <p className="error">{error}</p>}
+					{gState.labelInfo && <p>{gState.labelInfo}</p>}
+					<div className="buttons">
+						<PrimaryButton
+							text="Apply"
+							disabled={!label || !model || model.locked}
+							onClick={() => gState.applyLabel()}
+						/>
+						<DefaultButton text="Close" onClick={() => gState.stopLabeling()} />
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
@@ -4,6 +4,8 @@ import { gState } from "../state";
 import logo from "../svgs/logo.svg";
 import { observer } from "mobx-react";
 import { MessageBar, MessageBarType } from "@fluentui/react";
+import { supportedMeshExtensions } from "../services/mesh_import";
+import { PROJECT_EXTENSION } from "../services/project_file";
 
 @observer
 export class Loader extends React.Component {
@@ -16,12 +18,12 @@ export class Loader extends React.Component {
 					<use href={`${logo}`} />
 				</svg>
 				<FilePicker
-					label="To start the application select a file"
-					allowedExtensions={[".stl"]}
+					label="To start the application select one or more files"
+					allowedExtensions={[...supportedMeshExtensions, PROJECT_EXTENSION]}
 					onFilesSelected={(files) => {
-						gState.decodeFile(files[0]);
+						gState.openFiles(Array.from(files));
 					}}
-					multiple={false}
+					multiple={true}
 				></FilePicker>
 				<br />
 				{gState.decodingError && (
@@ -30,7 +32,7 @@ export class Loader extends React.Component {
 					</MessageBar>
 				)}
 				<p style={{ textAlign: "center", fontStyle: "italic", fontSize: 12 }}>
-					only STL files are accepted
+					STL, OBJ and PLY scans or CastCad projects (.castcad) are accepted
 				</p>
 			</div>
 		);
@@ -0,0 +1,138 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	IconButton,
+	TextField,
+	Toggle,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import {
+	formatMeasurement,
+	measurementKinds,
+	type Measurement,
+	type MeasurementKind,
+} from "../services/measurement";
+
+type MeasurementPanelState = {
+	renamingId: number | null;
+};
+
+const hints: Record<MeasurementKind, string> = {
+	distance: "Click the two points to measure the straight distance between.",
+	angle: "Click three points, the angle is measured at the second one.",
+	geodesic:
+		"Click the two points to measure the shortest distance between along the surface.",
+};
+
+@observer
+export class MeasurementPanel extends React.Component<
+	object,
+	MeasurementPanelState
+> {
+	state: MeasurementPanelState = {
+		renamingId: null,
+	};
+
+	renderMeasurement(measurement: Measurement) {
+		const model = gState.models.find((m) => m.id === measurement.modelId);
+		return (
+			<tr key={measurement.id}>
+				<td>
+					{this.state.renamingId === measurement.id ? (
+						<TextField
+							borderless
+							autoFocus
+							defaultValue={measurement.name}
+							onBlur={(e) => {
+								gState.renameMeasurement(
+									measurement.id,
+									e.target.value || measurement.name
+								);
+								this.setState({ renamingId: null });
+							}}
+							onKeyDown={(e) => {
+								if (e.key === "Enter") {
+									(e.target as HTMLInputElement).blur();
+								}
+							}}
+						/>
+					) : (
+						<span
+							title={`On ${model?.name}, double click to rename`}
+							onDoubleClick={() =>
+								this.setState({ renamingId: measurement.id })
+							}
+						>
+							{measurement.name}
+						</span>
+					)}
+				</td>
+				<td>{formatMeasurement(measurement.kind, measurement.value)}</td>
+				<td>
+					<IconButton
+						iconProps={{ iconName: "Delete" }}
+						title="Remove measurement"
+						onClick={() => gState.removeMeasurement(measurement.id)}
+					/>
+				</td>
+			</tr>
+		);
+	}
+
+	render() {
+		const { points } = measurementKinds.find(
+			(k) => k.kind === gState.measureKind
+		)!;
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Measure</h3>
+				<div className="content">
+					<ChoiceGroup
+						selectedKey={gState.measureKind}
+						options={measurementKinds.map(({ kind, label }) => ({
+							key: kind,
+							text: label,
+						}))}
+						onChange={(_, option) => {
+							gState.setMeasureKind(option!.key as MeasurementKind);
+						}}
+					/>
+					<p className="hint">
+						{hints[gState.measureKind]}
+						{gState.measurePoints.length > 0 &&
+							` ${gState.measurePoints.length} of ${points} picked.`}
+					</p>
+					{gState.measureError && (
+						<p className="error">{gState.measureError}</p>
+					)}
+					{gState.measurements.length > 0 && (
+						<table>
+							<tbody>
+								{gState.measurements.map((measurement) =>
+									this.renderMeasurement(measurement)
+								)}
+							</tbody>
+						</table>
+					)}
+					<Toggle
+						label="Show on the models"
+						inlineLabel
+						checked={gState.showMeasurements}
+						onChange={() => {
+							gState.showMeasurements = !gState.showMeasurements;
+						}}
+					/>
+					<div className="buttons">
+						<DefaultButton
+							text="Close"
+							onClick={() => gState.stopMeasuring()}
+						/>
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
@@ -0,0 +1,114 @@
+import React from "react";
+import { IconButton, TextField } from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import type { SceneModel } from "../scene_model";
+import { FilePicker } from "./file_picker";
+import { supportedMeshExtensions } from "../services/mesh_import";
+
+type ModelsPanelState = {
+	renamingId: number | null;
+};
+
+@observer
+export class ModelsPanel extends React.Component<object, ModelsPanelState> {
+	state: ModelsPanelState = {
+		renamingId: null,
+	};
+
+	renderModel(model: SceneModel) {
+		const active = model.id === gState.activeModelId;
+		return (
+			<li
+				key={model.id}
+				className={active ? "current" : undefined}
+				onClick={() => gState.setActiveModel(model)}
+			>
+				<input
+					type="color"
+					value={model.color}
+					disabled={model.decodedSTL.scannerColors}
+					title={
+						model.decodedSTL.scannerColors
+							? "This scan has its own colors"
+							: "Model color"
+					}
+					onClick={(e) => e.stopPropagation()}
+					onChange={(e) => gState.setModelColor(model, e.target.value)}
+				/>
+				{this.state.renamingId === model.id ? (
+					<TextField
+						className="name"
+						borderless
+						autoFocus
+						defaultValue={model.name}
+						onBlur={(e) => {
+							gState.renameModel(model, e.target.value || model.name);
+							this.setState({ renamingId: null });
+						}}
+						onKeyDown={(e) => {
+							if (e.key === "Enter") {
+								(e.target as HTMLInputElement).blur();
+							}
+						}}
+					/>
+				) : (
+					<span
+						className="name"
+						title="Double click to rename"
+						onDoubleClick={() => this.setState({ renamingId: model.id })}
+					>
+						{model.name}
+					</span>
+				)}
+				<IconButton
+					iconProps={{ iconName: model.visible ? "RedEye" : "Hide" }}
+					title={model.visible ? "Hide" : "Show"}
+					onClick={(e) => {
+						e.stopPropagation();
+						gState.toggleModelVisibility(model);
+					}}
+				/>
+				<IconButton
+					iconProps={{ iconName: model.locked ? "Lock" : "Unlock" }}
+					title={model.locked ? "Unlock" : "Lock"}
+					onClick={(e) => {
+						e.stopPropagation();
+						gState.toggleModelLock(model);
+					}}
+				/>
+				<IconButton
+					iconProps={{ iconName: "Delete" }}
+					title="Remove from the scene"
+					onClick={(e) => {
+						e.stopPropagation();
+						gState.showDialog({
+							title: "Removing model",
+							message: `Are you sure you want to remove "${model.name}"? All unsaved changes to it will be lost.`,
+							type: "warning",
+							onConfirm: () => gState.removeModel(model),
+							onCancel: () => {},
+						});
+					}}
+				/>
+			</li>
+		);
+	}
+
+	render() {
+		return (
+			<div className="models-panel panel">
+				<h3>Models</h3>
+				<ul>{gState.models.map((model) => this.renderModel(model))}</ul>
+				<FilePicker
+					label="Add scans"
+					allowedExtensions={supportedMeshExtensions}
+					onFilesSelected={(files) => {
+						gState.openFiles(Array.from(files));
+					}}
+					multiple={true}
+				></FilePicker>
+			</div>
+		);
+	}
+}
@@ -0,0 +1,84 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	IconButton,
+	PrimaryButton,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import type { OcclusalPlaneSource } from "../services/orientation";
+
+@observer
+export class OrientationPanel extends React.Component {
+	render() {
+		const model = gState.models.find((m) => m.id === gState.orientModelId);
+		const byPoints = gState.orientSource === "points";
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Orient {model?.name}</h3>
+				<div className="content">
+					<ChoiceGroup
+						label="Occlusal plane"
+						selectedKey={gState.orientSource}
+						options={[
+							{ key: "principal-axes", text: "Estimate from the shape" },
+							{ key: "points", text: "Fit to picked points" },
+						]}
+						onChange={(_, option) => {
+							gState.orientSource = option!.key as OcclusalPlaneSource;
+						}}
+					/>
+					{byPoints && (
+						<>
+							<p className="hint">
+								Click at least three points on the occlusal plane, e.g. the
+								incisal edge and the mesiobuccal cusps of the first molars.
+							</p>
+							{gState.orientPoints.length > 0 && (
+								<table>
+									<tbody>
+										{gState.orientPoints.map((_, i) => (
+											<tr key={i}>
+												<td>Point {i + 1}</td>
+												<td>
+													<IconButton
+														iconProps={{ iconName: "Delete" }}
+														title="Remove point"
+														onClick={() => gState.removeOrientationPoint(i)}
+													/>
+												</td>
+											</tr>
+										))}
+									</tbody>
+								</table>
+							)}
+						</>
+					)}
+					<p className="hint">
+						The plane is made horizontal, the front teeth face forward and the
+						lowest point is put on the ground.
+					</p>
+					{model?.locked && <p className="hint">The model is locked.</p>}
+					{gState.orientError && <p className="error">{gState.orientError}</p>}
+					<div className="buttons">
+						<PrimaryButton
+							text="Orient"
+							disabled={
+								!model ||
+								model.locked ||
+								(byPoints && gState.orientPoints.length < 3)
+							}
+							onClick={() => gState.applyOrientation()}
+						/>
+						<DefaultButton
+							text="Close"
+							onClick={() => gState.stopOrienting()}
+						/>
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
@@ -0,0 +1,113 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	PrimaryButton,
+	SpinButton,
+	Toggle,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+
+@observer
+export class PlaneCutPanel extends React.Component {
+	render() {
+		const model = gState.activeModel;
+		const { position, rotation } = gState.cutPlanePose;
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Plane cut {model?.name}</h3>
+				<div className="content">
+					<p className="hint">
+						Move or tilt the plane with the gizmo, the part shown in red is
+						removed.
+					</p>
+					<ChoiceGroup
+						label="Gizmo"
+						selectedKey={gState.cutPlaneGizmo}
+						options={[
+							{ key: "translate", text: "Move" },
+							{ key: "rotate", text: "Tilt" },
+						]}
+						onChange={(_, option) => {
+							gState.cutPlaneGizmo = option!.key as "translate" | "rotate";
+						}}
+					/>
+					<SpinButton
+						label="Height (mm)"
+						value={position[1].toFixed(2)}
+						step={0.5}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.setCutPlanePose({
+									position: [position[0], Number(value), position[2]],
+									rotation,
+								});
+							}
+						}}
+					/>
+					<SpinButton
+						label="Tilt front/back (°)"
+						value={rotation[0].toFixed(1)}
+						min={-90}
+						max={90}
+						step={1}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.setCutPlanePose({
+									position,
+									rotation: [Number(value), rotation[1], rotation[2]],
+								});
+							}
+						}}
+					/>
+					<SpinButton
+						label="Tilt left/right (°)"
+						value={rotation[2].toFixed(1)}
+						min={-90}
+						max={90}
+						step={1}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.setCutPlanePose({
+									position,
+									rotation: [rotation[0], rotation[1], Number(value)],
+								});
+							}
+						}}
+					/>
+					<Toggle
+						label="Remove above the plane"
+						inlineLabel
+						checked={gState.cutPlaneRemoveAbove}
+						onChange={() => {
+							gState.cutPlaneRemoveAbove = !gState.cutPlaneRemoveAbove;
+						}}
+					/>
+					<Toggle
+						label="Close the section with a flat cap"
+						inlineLabel
+						checked={gState.cutPlaneCap}
+						onChange={() => {
+							gState.cutPlaneCap = !gState.cutPlaneCap;
+						}}
+					/>
+					{model?.locked && <p className="hint">The model is locked.</p>}
+					{gState.planeCutInfo && <p>{gState.planeCutInfo}</p>}
+					{gState.planeCutError && (
+						<p className="error">{gState.planeCutError}</p>
+					)}
+					<div className="buttons">
+						<PrimaryButton
+							text="Cut"
+							disabled={!model || model.locked}
+							onClick={() => gState.applyPlaneCut()}
+						/>
+						<DefaultButton text="Close" onClick={() => gState.stopPlaneCut()} />
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
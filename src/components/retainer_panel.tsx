@@ -0,0 +1,170 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	IconButton,
+	PrimaryButton,
+	SpinButton,
+	Toggle,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import { retainerLimits, type WireProfile } from "../services/retainer";
+
+@observer
+export class RetainerPanel extends React.Component {
+	render() {
+		const model = gState.models.find((m) => m.id === gState.retainerModelId);
+		const { geometry, error } = gState.retainerDesign;
+		const round = gState.retainerProfile === "round";
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Retainer {model?.name}</h3>
+				<div className="content">
+					<p className="hint">
+						Click the lingual surface of every tooth the wire is bonded to, from
+						one end of the retainer to the other.
+					</p>
+					{gState.retainerPoints.length > 0 && (
+						<table>
+							<tbody>
+								{gState.retainerPoints.map((_, i) => (
+									<tr key={i}>
+										<td>Point {i + 1}</td>
+										<td>
+											<IconButton
+												iconProps={{ iconName: "Delete" }}
+												title="Remove point"
+												onClick={() => gState.removeRetainerPoint(i)}
+											/>
+										</td>
+									</tr>
+								))}
+							</tbody>
+						</table>
+					)}
+					<ChoiceGroup
+						label="Wire"
+						selectedKey={gState.retainerProfile}
+						options={[
+							{ key: "round", text: "Round" },
+							{ key: "rectangular", text: "Rectangular" },
+						]}
+						onChange={(_, option) => {
+							gState.retainerProfile = option!.key as WireProfile;
+						}}
+					/>
+					{round ? (
+						<SpinButton
+							label="Diameter (mm)"
+							value={gState.retainerDiameter.toString()}
+							min={retainerLimits.diameter.min}
+							max={retainerLimits.diameter.max}
+							step={0.1}
+							precision={1}
+							onChange={(_, value) => {
+								if (value !== undefined) {
+									gState.retainerDiameter = Number(value);
+								}
+							}}
+						/>
+					) : (
+						<>
+							<SpinButton
+								label="Width (mm)"
+								value={gState.retainerWidth.toString()}
+								min={retainerLimits.width.min}
+								max={retainerLimits.width.max}
+								step={0.1}
+								precision={1}
+								onChange={(_, value) => {
+									if (value !== undefined) {
+										gState.retainerWidth = Number(value);
+									}
+								}}
+							/>
+							<SpinButton
+								label="Thickness (mm)"
+								value={gState.retainerThickness.toString()}
+								min={retainerLimits.thickness.min}
+								max={retainerLimits.thickness.max}
+								step={0.1}
+								precision={1}
+								onChange={(_, value) => {
+									if (value !== undefined) {
+										gState.retainerThickness = Number(value);
+									}
+								}}
+							/>
+						</>
+					)}
+					<SpinButton
+						label="Distance from the teeth (mm)"
+						value={gState.retainerOffset.toString()}
+						min={retainerLimits.offset.min}
+						max={retainerLimits.offset.max}
+						step={0.05}
+						precision={2}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.retainerOffset = Number(value);
+							}
+						}}
+					/>
+					<Toggle
+						label="Pads"
+						inlineLabel
+						checked={gState.retainerPads}
+						onChange={() => {
+							gState.retainerPads = !gState.retainerPads;
+						}}
+					/>
+					{gState.retainerPads && (
+						<>
+							<SpinButton
+								label="Pad diameter (mm)"
+								value={gState.retainerPadDiameter.toString()}
+								min={retainerLimits.padDiameter.min}
+								max={retainerLimits.padDiameter.max}
+								step={0.5}
+								precision={1}
+								onChange={(_, value) => {
+									if (value !== undefined) {
+										gState.retainerPadDiameter = Number(value);
+									}
+								}}
+							/>
+							<SpinButton
+								label="Pad thickness (mm)"
+								value={gState.retainerPadThickness.toString()}
+								min={retainerLimits.padThickness.min}
+								max={retainerLimits.padThickness.max}
+								step={0.1}
+								precision={1}
+								onChange={(_, value) => {
+									if (value !== undefined) {
+										gState.retainerPadThickness = Number(value);
+									}
+								}}
+							/>
+						</>
+					)}
+					{error && <p className="error">{error}</p>}
+					{gState.retainerInfo && <p>{gState.retainerInfo}</p>}
+					<div className="buttons">
+						<PrimaryButton
+							text="Create retainer"
+							disabled={!geometry}
+							onClick={() => gState.createRetainer()}
+						/>
+						<DefaultButton
+							text="Close"
+							onClick={() => gState.stopDesigningRetainer()}
+						/>
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
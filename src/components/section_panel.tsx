@@ -0,0 +1,90 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	SpinButton,
+	Toggle,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import { sectionFrame } from "../services/cross_section";
+
+@observer
+export class SectionPanel extends React.Component {
+	render() {
+		const { position, rotation } = gState.sectionPose;
+		const { origin, normal } = sectionFrame(gState.sectionPose);
+		const offset = origin.dot(normal);
+
+		const rotationButton = (axis: number, label: string) => (
+			<SpinButton
+				label={label}
+				value={rotation[axis].toFixed(1)}
+				min={-180}
+				max={180}
+				step={5}
+				onChange={(_, value) => {
+					if (value !== undefined) {
+						const changed = rotation.slice();
+						changed[axis] = Number(value);
+						gState.setSectionPose({ position, rotation: changed });
+					}
+				}}
+			/>
+		);
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Cross section</h3>
+				<div className="content">
+					<p className="hint">
+						Move or turn the plane with the gizmo, the models are cut open along
+						it. Closed models show a solid section.
+					</p>
+					<ChoiceGroup
+						label="Gizmo"
+						selectedKey={gState.sectionGizmo}
+						options={[
+							{ key: "translate", text: "Move" },
+							{ key: "rotate", text: "Turn" },
+						]}
+						onChange={(_, option) => {
+							gState.sectionGizmo = option!.key as "translate" | "rotate";
+						}}
+					/>
+					<SpinButton
+						label="Along the normal (mm)"
+						value={offset.toFixed(2)}
+						step={0.5}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								const moved = origin.addScaledVector(
+									normal,
+									Number(value) - offset
+								);
+								gState.setSectionPose({ position: moved.toArray(), rotation });
+							}
+						}}
+					/>
+					{rotationButton(0, "Rotation X (°)")}
+					{rotationButton(1, "Rotation Y (°)")}
+					{rotationButton(2, "Rotation Z (°)")}
+					<Toggle
+						label="Show the other side"
+						inlineLabel
+						checked={gState.sectionFlipped}
+						onChange={() => {
+							gState.sectionFlipped = !gState.sectionFlipped;
+						}}
+					/>
+					<div className="buttons">
+						<DefaultButton
+							text="Close"
+							onClick={() => gState.stopSectioning()}
+						/>
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
@@ -0,0 +1,176 @@
+import React, { createRef } from "react";
+import { DefaultButton } from "@fluentui/react";
+import { observer } from "mobx-react";
+import * as THREE from "three";
+import { gState } from "../state";
+import {
+	closestProfilePoint,
+	scaleBarLength,
+	type ProfileLine,
+} from "../services/cross_section";
+
+// size of the drawing (px)
+const width = 400;
+const height = 300;
+const margin = 24;
+/** clicks this close to a section line (px) snap to it */
+const snapDistance = 8;
+
+@observer
+export class SectionProfilePanel extends React.Component {
+	svgRef = createRef<SVGSVGElement>();
+
+	render() {
+		const profiles = gState.sectionProfiles;
+		const lines = profiles.flatMap((profile) => profile.lines);
+		const bounds = new THREE.Box2().setFromPoints(
+			lines.flatMap((line) => line.points)
+		);
+
+		if (bounds.isEmpty()) {
+			return (
+				<div className="section-profile panel">
+					<h3>Section profile</h3>
+					<div className="content">
+						<p className="hint">The plane does not cross the models.</p>
+					</div>
+				</div>
+			);
+		}
+
+		// fits the section, the same scale along both axes
+		const size = bounds.getSize(new THREE.Vector2());
+		const scale = Math.min(
+			(width - 2 * margin) / Math.max(size.x, 1e-3),
+			(height - 2 * margin) / Math.max(size.y, 1e-3)
+		);
+		const left = (width - size.x * scale) / 2;
+		const bottom = (height - size.y * scale) / 2;
+		const toScreen = (x: number, y: number) => [
+			left + (x - bounds.min.x) * scale,
+			height - bottom - (y - bounds.min.y) * scale,
+		];
+		const fromScreen = (x: number, y: number) =>
+			new THREE.Vector2(
+				(x - left) / scale + bounds.min.x,
+				(height - bottom - y) / scale + bounds.min.y
+			);
+		const polyline = (line: ProfileLine) =>
+			line.points.map((p) => toScreen(p.x, p.y).join(",")).join(" ");
+
+		// grid lines at the length of the scale bar
+		const bar = scaleBarLength(((width - 2 * margin) / scale) * 0.3);
+		const grid: React.ReactNode[] = [];
+		const corner = fromScreen(0, height);
+		const far = fromScreen(width, 0);
+		for (let x = Math.ceil(corner.x / bar) * bar; x <= far.x; x += bar) {
+			const [sx] = toScreen(x, 0);
+			grid.push(<line key={`x${x}`} x1={sx} y1={0} x2={sx} y2={height} />);
+		}
+		for (let y = Math.ceil(corner.y / bar) * bar; y <= far.y; y += bar) {
+			const [, sy] = toScreen(0, y);
+			grid.push(<line key={`y${y}`} x1={0} y1={sy} x2={width} y2={sy} />);
+		}
+
+		const picks = gState.sectionPicks;
+		const distances: number[] = [];
+		for (let i = 0; i + 1 < picks.length; i += 2) {
+			distances.push(
+				Math.hypot(picks[i + 1][0] - picks[i][0], picks[i + 1][1] - picks[i][1])
+			);
+		}
+
+		return (
+			<div className="section-profile panel">
+				<h3>Section profile</h3>
+				<div className="content">
+					<svg
+						ref={this.svgRef}
+						width={width}
+						height={height}
+						onClick={(event) => {
+							const rect = this.svgRef.current!.getBoundingClientRect();
+							const point = fromScreen(
+								event.clientX - rect.left,
+								event.clientY - rect.top
+							);
+							gState.addSectionPick(
+								closestProfilePoint(lines, point, snapDistance / scale) || point
+							);
+						}}
+					>
+						<g className="grid">{grid}</g>
+						{profiles.map(({ model, lines }) =>
+							lines.map((line, i) =>
+								line.closed ? (
+									<polygon
+										key={`${model.id}-${i}`}
+										points={polyline(line)}
+										stroke={model.color}
+										fill="none"
+									/>
+								) : (
+									<polyline
+										key={`${model.id}-${i}`}
+										points={polyline(line)}
+										stroke={model.color}
+										fill="none"
+									/>
+								)
+							)
+						)}
+						{picks.map(([x, y], i) => {
+							const [sx, sy] = toScreen(x, y);
+							const next = picks[i + 1];
+							if (i % 2 === 1 || !next) {
+								return (
+									<circle key={i} className="pick" cx={sx} cy={sy} r={3} />
+								);
+							}
+							const [ex, ey] = toScreen(next[0], next[1]);
+							return (
+								<g key={i} className="pick">
+									<circle cx={sx} cy={sy} r={3} />
+									<line x1={sx} y1={sy} x2={ex} y2={ey} />
+									<text x={(sx + ex) / 2 + 4} y={(sy + ey) / 2 - 4}>
+										{distances[i / 2].toFixed(2)} mm
+									</text>
+								</g>
+							);
+						})}
+						<g className="scale-bar">
+							<line
+								x1={margin}
+								y1={height - 10}
+								x2={margin + bar * scale}
+								y2={height - 10}
+							/>
+							<text x={margin + bar * scale + 6} y={height - 6}>
+								{bar} mm
+							</text>
+						</g>
+					</svg>
+					<ul className="legend">
+						{profiles.map(({ model }) => (
+							<li key={model.id}>
+								<span className="swatch" style={{ background: model.color }} />
+								{model.name}
+							</li>
+						))}
+					</ul>
+					<p className="hint">
+						Click two points to measure between, clicks near a line snap to it.
+					</p>
+					{picks.length > 0 && (
+						<div className="buttons">
+							<DefaultButton
+								text="Clear measurements"
+								onClick={() => gState.clearSectionPicks()}
+							/>
+						</div>
+					)}
+				</div>
+			</div>
+		);
+	}
+}
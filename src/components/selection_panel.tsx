@@ -0,0 +1,171 @@
+import React from "react";
+import {
+	ChoiceGroup,
+	DefaultButton,
+	Dropdown,
+	Slider,
+	SpinButton,
+	Toggle,
+} from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import { brushRadiusLimits, type BrushUnit } from "../services/brush_selection";
+import type {
+	SelectionOperation,
+	SelectionTool,
+} from "../services/region_selection";
+
+@observer
+export class SelectionPanel extends React.Component {
+	render() {
+		return (
+			<div className="tool-panel panel">
+				<h3>Select</h3>
+				<div className="content">
+					<ChoiceGroup
+						label="Tool"
+						selectedKey={gState.selectionTool}
+						options={[
+							{ key: "brush", text: "Brush" },
+							{ key: "lasso", text: "Lasso" },
+							{ key: "box", text: "Box" },
+							{ key: "island", text: "Island" },
+						]}
+						onChange={(_, option) =>
+							gState.setSelectionTool(option!.key as SelectionTool)
+						}
+					/>
+					{gState.selectionTool === "brush" && this.renderBrushOptions()}
+					{(gState.selectionTool === "lasso" ||
+						gState.selectionTool === "box") &&
+						this.renderRegionOptions()}
+					{gState.selectionTool === "island" && (
+						<p className="hint">
+							Click a part of the scan to select everything connected to it,
+							hold Alt to deselect it.
+						</p>
+					)}
+					{this.renderIslandOptions()}
+				</div>
+			</div>
+		);
+	}
+
+	renderBrushOptions() {
+		const limits = brushRadiusLimits[gState.brushUnit];
+		const unitLabel = gState.brushUnit === "pixels" ? "px" : "mm";
+
+		return (
+			<>
+				<ChoiceGroup
+					label="Size in"
+					selectedKey={gState.brushUnit}
+					options={[
+						{ key: "pixels", text: "Screen pixels" },
+						{ key: "mm", text: "Millimetres on the surface" },
+					]}
+					onChange={(_, option) =>
+						gState.setBrushUnit(option!.key as BrushUnit)
+					}
+				/>
+				<Slider
+					label="Radius"
+					min={limits.min}
+					max={limits.max}
+					step={limits.step}
+					value={gState.brushRadius}
+					valueFormat={(value) => `${value} ${unitLabel}`}
+					onChange={(value) => gState.setBrushRadius(value)}
+				/>
+				<Toggle
+					label="Deselect"
+					inlineLabel
+					checked={gState.brushErasing}
+					onChange={() => gState.toggleBrushErasing()}
+				/>
+				<p className="hint">
+					Ctrl + mouse wheel changes the radius, hold Alt while brushing to
+					deselect.
+				</p>
+			</>
+		);
+	}
+
+	renderRegionOptions() {
+		return (
+			<>
+				<ChoiceGroup
+					label="Combine with the selection"
+					selectedKey={gState.selectionOperation}
+					options={[
+						{ key: "add", text: "Add" },
+						{ key: "subtract", text: "Subtract" },
+						{ key: "intersect", text: "Intersect" },
+					]}
+					onChange={(_, option) =>
+						gState.setSelectionOperation(option!.key as SelectionOperation)
+					}
+				/>
+				<Toggle
+					label="Visible faces only"
+					inlineLabel
+					checked={gState.selectVisibleOnly}
+					onChange={() => gState.toggleSelectVisibleOnly()}
+				/>
+				<p className="hint">
+					{gState.selectionTool === "lasso"
+						? "Drag around an area to select it."
+						: "Drag a box around an area to select it."}{" "}
+					Hold Shift to add, Alt to subtract or both to intersect. Right-drag
+					still pans the camera.
+				</p>
+			</>
+		);
+	}
+
+	renderIslandOptions() {
+		return (
+			<>
+				<h4>Islands</h4>
+				<p className="hint">
+					Loose fragments of the scan, e.g. tongue, cheek or cotton roll.
+				</p>
+				<div className="island-threshold">
+					<SpinButton
+						label="Smaller than"
+						value={gState.islandThreshold.toString()}
+						min={0}
+						step={gState.islandUnit === "mm2" ? 5 : 100}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.islandThreshold = Number(value);
+							}
+						}}
+					/>
+					<Dropdown
+						selectedKey={gState.islandUnit}
+						options={[
+							{ key: "mm2", text: "mm²" },
+							{ key: "faces", text: "triangles" },
+						]}
+						onChange={(_, option) => {
+							gState.islandUnit = option!.key as "mm2" | "faces";
+						}}
+					/>
+				</div>
+				{gState.islandInfo && <p>{gState.islandInfo}</p>}
+				<div className="buttons">
+					<DefaultButton
+						text="Select small"
+						onClick={() => gState.selectSmallIslands()}
+					/>
+					<DefaultButton
+						text="All but largest"
+						title="Select everything but the largest part, cutting it keeps only that part"
+						onClick={() => gState.selectAllButLargestIsland()}
+					/>
+				</div>
+			</>
+		);
+	}
+}
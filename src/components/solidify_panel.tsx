@@ -0,0 +1,53 @@
+import React from "react";
+import { DefaultButton, PrimaryButton, SpinButton } from "@fluentui/react";
+import { observer } from "mobx-react";
+import { gState } from "../state";
+import { thicknessLimits } from "../services/solidify";
+
+@observer
+export class SolidifyPanel extends React.Component {
+	render() {
+		const model = gState.activeModel;
+
+		return (
+			<div className="tool-panel panel">
+				<h3>Solidify {model?.name}</h3>
+				<div className="content">
+					<p className="hint">
+						The wall grows inwards from the scanned surface, the open border of
+						the scan is closed by a rim. A closed model is hollowed.
+					</p>
+					<SpinButton
+						label="Thickness (mm)"
+						value={gState.solidifyThickness.toString()}
+						min={thicknessLimits.min}
+						max={thicknessLimits.max}
+						step={0.1}
+						precision={1}
+						onChange={(_, value) => {
+							if (value !== undefined) {
+								gState.setSolidifyThickness(Number(value));
+							}
+						}}
+					/>
+					{model?.locked && <p className="hint">The model is locked.</p>}
+					{gState.solidifyInfo && <p>{gState.solidifyInfo}</p>}
+					{gState.solidifyError && (
+						<p className="error">{gState.solidifyError}</p>
+					)}
+					<div className="buttons">
+						<PrimaryButton
+							text="Solidify"
+							disabled={!model || model.locked}
+							onClick={() => gState.solidifyModel()}
+						/>
+						<DefaultButton
+							text="Close"
+							onClick={() => gState.stopSolidifying()}
+						/>
+					</div>
+				</div>
+			</div>
+		);
+	}
+}
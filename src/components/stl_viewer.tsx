@@ -3,20 +3,129 @@ import { Stack } from "@fluentui/react";
 import * as THREE from "three";
 import { observer } from "mobx-react";
 import type { DecodedSTL } from "../services/stl_to_mesh";
+import type { CameraPose } from "../services/project_file";
+import { getFaceBVH } from "../services/face_bvh";
+import { getComponents } from "../services/topology";
+import { cutPlaneFromPose, type CutPlanePose } from "../services/plane_cut";
+import {
+	brushRadiusLimits,
+	facesUnderBrush,
+	raycastFace,
+	worldUnitsPerPixel,
+	type BrushUnit,
+} from "../services/brush_selection";
+import {
+	combineSelection,
+	facesInPolygon,
+	type SelectionOperation,
+	type SelectionTool,
+} from "../services/region_selection";
 import { TransformControls } from "three/examples/jsm/controls/TransformControls.js";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 
-type STLViewerProps = {
+export type ViewerModel = {
+	id: number;
 	decodedSTL: DecodedSTL;
+	visible: boolean;
+	locked: boolean;
+	selectedFaceIndices: Set<number>;
+	/** of the caps of a cross section */
+	color: string;
+};
+
+/** a point shown on a model, e.g. an alignment landmark */
+export type ViewerMarker = {
+	modelId: number;
+	/** in the local coordinates of the model, so it follows the model */
+	position: number[];
+	color: string;
+	label: string;
+};
+
+/** a line with its value drawn on a model, e.g. a distance measured on it */
+export type ViewerMeasurement = {
+	modelId: number;
+	/** polyline in the local coordinates of the model, so it follows the model */
+	path: number[][];
+	/** the picked points along the line */
+	points: number[][];
+	/** where the label is shown */
+	labelPosition: number[];
+	label: string;
+	color: string;
+};
+
+/** faces drawn over a model before they are applied, e.g. the letters of a label */
+export type ViewerPreview = {
+	modelId: number;
+	/** triangles in the local coordinates of the model */
+	positions: Float32Array;
+};
+
+/** faces painted in a color of their own, under the selection */
+export type FaceHighlight = {
+	faces: number[];
+	color: string;
+};
+
+type STLViewerProps = {
+	models: ViewerModel[];
+	/** the model that is selected/transformed */
+	activeModelId: number | null;
 	selecting: boolean;
+	/** when set, clicking on a model picks a point instead of orbiting */
+	picking?: boolean;
+	markers?: ViewerMarker[];
+	measurements?: ViewerMeasurement[];
+	/** faces of the active model to paint (e.g. problems found by the analysis) */
+	highlights?: FaceHighlight[];
+	preview?: ViewerPreview | null;
+	/** called with the picked point in the local coordinates of the model */
+	onPick?: (modelId: number, point: THREE.Vector3) => void;
+	/** changes whenever the selection was modified outside of the viewer */
+	selectionVersion: number;
 	onSelect: (faceIndices: Set<number>) => void;
+	/** called once a brush stroke is finished */
+	onSelectionStroke: (added: number[], removed: number[]) => void;
+	brushRadius: number;
+	brushUnit: BrushUnit;
+	/** the brush deselects (Alt-drag does the same) */
+	brushErasing: boolean;
+	/** Ctrl + mouse wheel resizes the brush */
+	onBrushRadiusChange: (radius: number) => void;
+	selectionTool: SelectionTool;
+	/** operation of lasso/box regions without modifier keys */
+	selectionOperation: SelectionOperation;
+	/** lasso/box only select faces that can be seen, rather than through the model */
+	selectVisibleOnly: boolean;
+	/** shows the cutting plane (with the gizmo) and previews the cut of the active model */
+	cutPlane?: CutPlanePose | null;
+	cutPlaneRemoveAbove?: boolean;
+	cutPlaneGizmo?: "translate" | "rotate";
+	/** the plane shows a cross section instead: all models are clipped and capped */
+	cutPlaneSection?: boolean;
+	/** called while the cutting plane is moved with the gizmo */
+	onCutPlaneChange?: (pose: CutPlanePose) => void;
+	/** called once the mesh has been moved/rotated with the gizmo */
+	onTransform: (
+		before: THREE.Matrix4,
+		after: THREE.Matrix4,
+		mode: "translate" | "rotate" | "scale"
+	) => void;
+	/** called once a newly loaded mesh has been centered in the scene */
+	onCenter: (modelId: number) => void;
 };
 
 @observer
 export class STLViewer extends Component<STLViewerProps> {
 	mountRef = createRef<HTMLDivElement>();
 	renderer?: THREE.WebGLRenderer;
+	/** mesh of the active model */
 	mesh?: THREE.Mesh;
+	/** meshes in the scene, by model id */
+	meshes = new Map<number, THREE.Mesh>();
+	/** centering offset, shared so models keep their relative position */
+	centerOffset: THREE.Vector3 | null = null;
 	controls?: OrbitControls;
 	camera?: THREE.PerspectiveCamera;
 	scene?: THREE.Scene;
@@ -26,21 +135,72 @@ export class STLViewer extends Component<STLViewerProps> {
 	mouse = new THREE.Vector2();
 	originalColors?: Float32Array;
 	isDragging = false;
-	selectedFaceIndices = new Set<number>();
+	strokeAdded: number[] = [];
+	strokeRemoved: number[] = [];
+	strokeErasing = false;
+	brushCursorRef = createRef<HTMLDivElement>();
+	/** last pointer position, in client coordinates */
+	pointerAt = new THREE.Vector2();
+	/** outline of the lasso/box being drawn, x, y pairs in client coordinates */
+	regionPoints: number[] = [];
+	regionOperation: SelectionOperation = "add";
+	regionOutlineRef = createRef<SVGPolygonElement>();
+	transformStart = new THREE.Matrix4();
+	mouseDownAt = new THREE.Vector2();
+	markerObjects: THREE.Object3D[] = [];
+	measurementObjects: THREE.Object3D[] = [];
+	/** the cutting plane, its local +y axis is the normal */
+	cutPlaneObject?: THREE.Group;
+	/** the part of the active mesh the plane cut removes, drawn see-through */
+	cutPlaneGhost?: THREE.Mesh;
+	/** the mesh that is clipped to the kept side of the plane */
+	clippedMesh?: THREE.Mesh;
+	/** the models clipped by the cross section, with what caps them */
+	sectionCaps: {
+		mesh: THREE.Mesh;
+		color: string;
+		stencil: THREE.Group;
+		cap: THREE.Mesh;
+	}[] = [];
+	/** shared by the materials clipped by the cross section */
+	sectionPlane = new THREE.Plane();
+	labelTextures = new Map<string, THREE.Texture>();
+	previewMesh?: THREE.Mesh;
+
+	get activeModel(): ViewerModel | undefined {
+		return this.props.models.find(
+			(model) => model.id === this.props.activeModelId
+		);
+	}
+
+	get selectedFaceIndices() {
+		return this.activeModel?.selectedFaceIndices || new Set<number>();
+	}
 
 	componentDidMount() {
 		this.initThree();
-		if (this.props.decodedSTL) {
-			this.loadSTL(this.props.decodedSTL);
-		}
+		this.syncModels();
+		this.syncMarkers();
+		this.syncMeasurements();
+		this.syncPreview();
+		this.syncCutPlane();
 	}
 
 	componentDidUpdate(prevProps: STLViewerProps) {
-		if (this.props.decodedSTL !== prevProps.decodedSTL) {
-			this.clearScene();
-			if (this.props.decodedSTL) {
-				this.loadSTL(this.props.decodedSTL);
-			}
+		const previousMesh = this.mesh;
+		this.syncModels();
+		this.syncMarkers();
+		this.syncMeasurements();
+		this.syncPreview();
+		this.syncCutPlane();
+		this.updateBrushCursor();
+		if (
+			this.mesh === previousMesh &&
+			(this.props.selectionVersion !== prevProps.selectionVersion ||
+				this.props.highlights !== prevProps.highlights)
+		) {
+			this.restoreColors();
+			this.highlightSelectedFaces();
 		}
 	}
 
@@ -56,8 +216,11 @@ export class STLViewer extends Component<STLViewerProps> {
 		const height = document.body.clientHeight;
 
 		// Renderer
-		this.renderer = new THREE.WebGLRenderer({ antialias: true });
+		// the stencil buffer is used to cap cross sections
+		this.renderer = new THREE.WebGLRenderer({ antialias: true, stencil: true });
 		this.renderer.setSize(width, height);
+		// the plane cut preview and cross sections clip the meshes
+		this.renderer.localClippingEnabled = true;
 		mount.appendChild(this.renderer.domElement);
 
 		// Scene
@@ -87,6 +250,31 @@ export class STLViewer extends Component<STLViewerProps> {
 			this.controls!.enabled = !event.value; // disable OrbitControls when using transform
 		});
 
+		this.transformControls.addEventListener("mouseDown", () => {
+			if (!this.mesh || this.transformControls!.object !== this.mesh) return;
+			this.mesh.updateMatrix();
+			this.transformStart.copy(this.mesh.matrix);
+		});
+		this.transformControls.addEventListener("mouseUp", () => {
+			if (!this.mesh || this.transformControls!.object !== this.mesh) return;
+			this.mesh.updateMatrix();
+			this.props.onTransform(
+				this.transformStart.clone(),
+				this.mesh.matrix.clone(),
+				this.transformControls!.getMode()
+			);
+		});
+		this.transformControls.addEventListener("objectChange", () => {
+			const plane = this.cutPlaneObject;
+			if (!plane || this.transformControls!.object !== plane) return;
+			this.props.onCutPlaneChange?.({
+				position: plane.position.toArray(),
+				rotation: [plane.rotation.x, plane.rotation.y, plane.rotation.z].map(
+					THREE.MathUtils.radToDeg
+				),
+			});
+		});
+
 		this.transformControlsGizmo = this.transformControls.getHelper();
 
 		// Lights
@@ -136,96 +324,336 @@ export class STLViewer extends Component<STLViewerProps> {
 		dom.addEventListener("mousedown", this.onMouseDown);
 		dom.addEventListener("mousemove", this.onMouseMove);
 		dom.addEventListener("mouseup", this.onMouseUp);
+		dom.addEventListener("mouseleave", this.hideBrushCursor);
+		// capturing on the container keeps the wheel from zooming the camera
+		mount.addEventListener("wheel", this.onWheel, {
+			capture: true,
+			passive: false,
+		});
 
 		// Start animation loop
 		this.animate();
 	}
 
 	onMouseDown = (event: MouseEvent) => {
+		this.mouseDownAt.set(event.clientX, event.clientY);
 		if (!this.props.selecting) return;
 		const rect = this.renderer!.domElement.getBoundingClientRect();
 		this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
 		this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
 
-		this.raycaster.setFromCamera(this.mouse, this.camera!);
-		if (!this.mesh) return;
+		if (!this.mesh || !this.mesh.visible || this.activeModel?.locked) return;
+
+		// islands are picked with a click on mouse up
+		if (this.props.selectionTool === "island") return;
+		if (this.props.selectionTool !== "brush") {
+			if (event.button !== 0) return;
+			this.regionPoints = [event.clientX, event.clientY];
+			// Shift adds, Alt subtracts, both intersect
+			this.regionOperation =
+				event.shiftKey && event.altKey
+					? "intersect"
+					: event.altKey
+						? "subtract"
+						: event.shiftKey
+							? "add"
+							: this.props.selectionOperation;
+			if (this.controls) this.controls.enabled = false;
+			return;
+		}
 
-		const intersects = this.raycaster.intersectObject(this.mesh, false);
-		if (intersects.length > 0) {
+		const bvh = getFaceBVH(this.mesh.geometry);
+		if (raycastFace(bvh, this.mesh, this.camera!, this.mouse)) {
 			this.isDragging = true;
+			this.strokeAdded = [];
+			this.strokeRemoved = [];
+			this.strokeErasing = this.props.brushErasing || event.altKey;
+			this.updateBrushCursor();
 			if (this.controls) this.controls.enabled = false;
+			this.brush();
 		}
 	};
-	onMouseUp = () => {
+	onMouseUp = (event: MouseEvent) => {
+		// a click (rather than a camera drag) while picking
+		if (
+			this.props.picking &&
+			this.mouseDownAt.distanceTo(
+				new THREE.Vector2(event.clientX, event.clientY)
+			) < 4
+		) {
+			this.pick(event);
+		}
 		if (!this.props.selecting) return;
+		if (
+			this.props.selectionTool === "island" &&
+			event.button === 0 &&
+			this.mouseDownAt.distanceTo(
+				new THREE.Vector2(event.clientX, event.clientY)
+			) < 4
+		) {
+			this.selectIsland(event.altKey ? "subtract" : "add");
+			return;
+		}
+		if (this.regionPoints.length > 0) {
+			this.selectRegion();
+			this.regionPoints = [];
+			this.updateRegionOutline();
+			if (this.controls) this.controls.enabled = true;
+			return;
+		}
+		if (
+			this.isDragging &&
+			(this.strokeAdded.length > 0 || this.strokeRemoved.length > 0)
+		) {
+			this.props.onSelectionStroke(this.strokeAdded, this.strokeRemoved);
+		}
+		this.strokeAdded = [];
+		this.strokeRemoved = [];
 		this.isDragging = false;
+		this.strokeErasing = false;
+		this.updateBrushCursor();
 		if (this.controls) this.controls.enabled = true;
 	};
 
+	pick(event: MouseEvent) {
+		if (!this.camera || !this.props.onPick) return;
+		const rect = this.renderer!.domElement.getBoundingClientRect();
+		this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
+		this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+		this.raycaster.setFromCamera(this.mouse, this.camera);
+
+		const visibleMeshes = [...this.meshes.values()].filter((m) => m.visible);
+		const [hit] = this.raycaster.intersectObjects(visibleMeshes, false);
+		if (!hit) return;
+
+		for (const [modelId, mesh] of this.meshes) {
+			if (mesh === hit.object) {
+				this.props.onPick(modelId, mesh.worldToLocal(hit.point.clone()));
+				return;
+			}
+		}
+	}
+
 	onMouseMove = (event: MouseEvent) => {
 		if (!this.props.selecting) return;
 		const rect = this.renderer!.domElement.getBoundingClientRect();
 		this.mouse.x = ((event.clientX - rect.left) / rect.width) * 2 - 1;
 		this.mouse.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
+		this.pointerAt.set(event.clientX, event.clientY);
+		this.updateBrushCursor(event.altKey);
+
+		if (this.regionPoints.length > 0) {
+			const [startX, startY] = this.regionPoints;
+			if (this.props.selectionTool === "box") {
+				const { clientX: x, clientY: y } = event;
+				this.regionPoints = [startX, startY, x, startY, x, y, startX, y];
+			} else {
+				const n = this.regionPoints.length;
+				const dx = event.clientX - this.regionPoints[n - 2];
+				const dy = event.clientY - this.regionPoints[n - 1];
+				if (dx * dx + dy * dy >= 9) {
+					this.regionPoints.push(event.clientX, event.clientY);
+				}
+			}
+			this.updateRegionOutline();
+			return;
+		}
 
-		if (!this.mesh || !this.camera || !this.isDragging) return;
+		if (!this.isDragging) return;
+		this.brush();
+	};
 
-		const geometry = this.mesh.geometry as THREE.BufferGeometry;
-		const position = geometry.attributes.position;
-		const camera = this.camera;
+	onWheel = (event: WheelEvent) => {
+		if (!this.props.selecting || !(event.ctrlKey || event.metaKey)) return;
+		event.preventDefault();
+		event.stopPropagation();
+
+		const radius = this.props.brushRadius;
+		const { step } = brushRadiusLimits[this.props.brushUnit];
+		this.props.onBrushRadiusChange(
+			event.deltaY < 0
+				? Math.max(radius * 1.15, radius + step)
+				: Math.min(radius / 1.15, radius - step)
+		);
+	};
 
-		const brushRadiusPixels = 10;
-		const mouseScreenX = event.clientX;
-		const mouseScreenY = event.clientY;
+	updateRegionOutline() {
+		this.regionOutlineRef.current?.setAttribute(
+			"points",
+			this.regionPoints.join(" ")
+		);
+	}
 
-		const vector = new THREE.Vector3();
-		const worldPosition = new THREE.Vector3();
+	/**
+	 * Combines the faces inside the lasso/box with the selection
+	 */
+	selectRegion() {
+		if (!this.mesh || !this.camera || !this.renderer) return;
+		const rect = this.renderer.domElement.getBoundingClientRect();
+		const polygon = this.regionPoints.map((value, i) =>
+			i % 2 === 0
+				? ((value - rect.left) / rect.width) * 2 - 1
+				: -((value - rect.top) / rect.height) * 2 + 1
+		);
+		const faces = facesInPolygon(
+			getFaceBVH(this.mesh.geometry),
+			this.mesh,
+			this.camera,
+			polygon,
+			this.props.selectVisibleOnly
+		);
 
-		for (let faceIndex = 0; faceIndex < position.count / 3; faceIndex++) {
-			// Get the centroid of the triangle
-			const a = new THREE.Vector3().fromBufferAttribute(
-				position,
-				faceIndex * 3 + 0
-			);
-			const b = new THREE.Vector3().fromBufferAttribute(
-				position,
-				faceIndex * 3 + 1
+		const { added, removed } = combineSelection(
+			this.selectedFaceIndices,
+			faces,
+			this.regionOperation
+		);
+		if (added.length === 0 && removed.length === 0) return;
+		this.highlightFaces(added);
+		this.restoreFaceColors(removed);
+		this.renderer.render(this.scene!, this.camera);
+		this.props.onSelect(this.selectedFaceIndices);
+		this.props.onSelectionStroke(added, removed);
+	}
+
+	/**
+	 * Selects (or deselects) the connected part of the mesh under the pointer
+	 */
+	selectIsland(operation: SelectionOperation) {
+		if (
+			!this.mesh ||
+			!this.mesh.visible ||
+			!this.camera ||
+			!this.renderer ||
+			this.activeModel?.locked
+		) {
+			return;
+		}
+		const hit = raycastFace(
+			getFaceBVH(this.mesh.geometry),
+			this.mesh,
+			this.camera,
+			this.mouse
+		);
+		if (!hit) return;
+
+		const { components, faceComponent } = getComponents(this.mesh.geometry);
+		const { added, removed } = combineSelection(
+			this.selectedFaceIndices,
+			components[faceComponent[hit.face]].faces,
+			operation
+		);
+		if (added.length === 0 && removed.length === 0) return;
+		this.highlightFaces(added);
+		this.restoreFaceColors(removed);
+		this.renderer.render(this.scene!, this.camera);
+		this.props.onSelect(this.selectedFaceIndices);
+		this.props.onSelectionStroke(added, removed);
+	}
+
+	/**
+	 * Shows the outline of the brush around the pointer.
+	 * A millimetre brush is drawn at the size it has on the surface under the pointer.
+	 */
+	updateBrushCursor(altKey = false) {
+		const cursor = this.brushCursorRef.current;
+		if (!cursor) return;
+		if (
+			!this.props.selecting ||
+			this.props.selectionTool !== "brush" ||
+			!this.mesh ||
+			!this.camera ||
+			!this.renderer
+		) {
+			this.hideBrushCursor();
+			return;
+		}
+
+		let radius = this.props.brushRadius;
+		if (this.props.brushUnit === "mm") {
+			const hit = raycastFace(
+				getFaceBVH(this.mesh.geometry),
+				this.mesh,
+				this.camera,
+				this.mouse
 			);
-			const c = new THREE.Vector3().fromBufferAttribute(
-				position,
-				faceIndex * 3 + 2
+			if (!hit) {
+				this.hideBrushCursor();
+				return;
+			}
+			radius /= worldUnitsPerPixel(
+				this.camera,
+				this.renderer.domElement.clientHeight,
+				hit.point.applyMatrix4(this.mesh.matrixWorld)
 			);
+		}
 
-			const centroid = new THREE.Vector3()
-				.addVectors(a, b)
-				.add(c)
-				.multiplyScalar(1 / 3);
-
-			// Transform centroid to world and then to screen space
-			this.mesh.localToWorld(worldPosition.copy(centroid));
-			vector.copy(worldPosition).project(camera);
+		const erasing = this.isDragging
+			? this.strokeErasing
+			: this.props.brushErasing || altKey;
+		cursor.style.display = "block";
+		cursor.style.left = `${this.pointerAt.x}px`;
+		cursor.style.top = `${this.pointerAt.y}px`;
+		cursor.style.width = cursor.style.height = `${2 * radius}px`;
+		cursor.classList.toggle("erasing", erasing);
+	}
 
-			// Convert normalized device coordinates to screen coordinates
-			const screenX = ((vector.x + 1) / 2) * rect.width + rect.left;
-			const screenY = ((-vector.y + 1) / 2) * rect.height + rect.top;
+	hideBrushCursor = () => {
+		if (this.brushCursorRef.current) {
+			this.brushCursorRef.current.style.display = "none";
+		}
+	};
 
-			const dx = screenX - mouseScreenX;
-			const dy = screenY - mouseScreenY;
-			const distSq = dx * dx + dy * dy;
+	/**
+	 * Adds the visible faces under the brush (at `this.mouse`) to the selection,
+	 * or removes them when erasing
+	 */
+	brush() {
+		if (!this.mesh || !this.camera || !this.renderer) return;
+		const canvas = this.renderer.domElement;
+		const faces = facesUnderBrush(getFaceBVH(this.mesh.geometry), {
+			mesh: this.mesh,
+			camera: this.camera,
+			pointer: this.mouse,
+			width: canvas.clientWidth,
+			height: canvas.clientHeight,
+			radius: this.props.brushRadius,
+			unit: this.props.brushUnit,
+		});
 
-			if (distSq <= brushRadiusPixels * brushRadiusPixels) {
-				if (!this.selectedFaceIndices.has(faceIndex)) {
-					this.selectedFaceIndices.add(faceIndex);
-				}
+		if (this.strokeErasing) {
+			const removed = faces.filter((face) =>
+				this.selectedFaceIndices.has(face)
+			);
+			if (removed.length === 0) return;
+			for (const face of removed) {
+				this.selectedFaceIndices.delete(face);
+				this.strokeRemoved.push(face);
+			}
+			this.restoreFaceColors(removed);
+		} else {
+			const added = faces.filter((face) => !this.selectedFaceIndices.has(face));
+			if (added.length === 0) return;
+			for (const face of added) {
+				this.selectedFaceIndices.add(face);
+				this.strokeAdded.push(face);
 			}
+			this.highlightFaces(added);
 		}
 
-		this.highlightSelectedFaces();
-		this.renderer?.render(this.scene!, this.camera!);
+		this.renderer.render(this.scene!, this.camera);
 		this.props.onSelect(this.selectedFaceIndices);
-	};
+	}
 
 	highlightSelectedFaces() {
+		for (const { faces, color } of this.props.highlights || []) {
+			this.highlightFaces(faces, new THREE.Color(color));
+		}
+		this.highlightFaces(this.selectedFaceIndices);
+	}
+
+	/** paints the faces red, or in the given color */
+	highlightFaces(faces: Iterable<number>, color = new THREE.Color(1, 0, 0)) {
 		if (!this.mesh) return;
 		const geometry = this.mesh.geometry as THREE.BufferGeometry;
 
@@ -243,11 +671,10 @@ export class STLViewer extends Component<STLViewerProps> {
 
 		const colorAttr = geometry.getAttribute("color") as THREE.BufferAttribute;
 
-		// Paint all selected faces red
-		for (const faceIndex of this.selectedFaceIndices) {
+		for (const faceIndex of faces) {
 			for (let i = 0; i < 3; i++) {
 				const vertexIndex = faceIndex * 3 + i;
-				colorAttr.setXYZ(vertexIndex, 1, 0, 0); // red
+				colorAttr.setXYZ(vertexIndex, color.r, color.g, color.b);
 			}
 		}
 		colorAttr.needsUpdate = true;
@@ -256,34 +683,27 @@ export class STLViewer extends Component<STLViewerProps> {
 			this.mesh.material.vertexColors = true;
 	}
 
-	restoreColors() {
+	/** paints the faces back in their own colors */
+	restoreFaceColors(faces: Iterable<number>) {
 		if (!this.originalColors || !this.mesh) return;
 		const geometry = this.mesh.geometry as THREE.BufferGeometry;
 		const colorAttr = geometry.getAttribute("color") as THREE.BufferAttribute;
-		colorAttr.copyArray(this.originalColors);
+		const colors = this.originalColors;
+		for (const faceIndex of faces) {
+			for (let i = faceIndex * 9; i < faceIndex * 9 + 9; i++) {
+				colorAttr.array[i] = colors[i];
+			}
+		}
 		colorAttr.needsUpdate = true;
 	}
 
-	clearSelection = () => {
-		if (!this.mesh) return;
-
-		const geometry = this.mesh.geometry;
+	restoreColors() {
+		if (!this.originalColors || !this.mesh) return;
+		const geometry = this.mesh.geometry as THREE.BufferGeometry;
 		const colorAttr = geometry.getAttribute("color") as THREE.BufferAttribute;
-
-		if (!colorAttr) return;
-
-		// Clear selected indices
-		this.selectedFaceIndices.clear();
-
-		// Reset all colors to default light blue (0x4ab0ff = RGB: 0.29, 0.69, 1.0)
-		for (let i = 0; i < colorAttr.count; i++) {
-			colorAttr.setXYZ(i, 0.29, 0.69, 1.0);
-		}
+		colorAttr.copyArray(this.originalColors);
 		colorAttr.needsUpdate = true;
-
-		this.renderer?.render(this.scene!, this.camera!);
-		this.props.onSelect(this.selectedFaceIndices);
-	};
+	}
 
 	animate = () => {
 		requestAnimationFrame(this.animate);
@@ -291,26 +711,508 @@ export class STLViewer extends Component<STLViewerProps> {
 		this.renderer?.render(this.scene!, this.camera!);
 	};
 
-	loadSTL(decodedSTL: DecodedSTL) {
+	/**
+	 * Adds/removes meshes so the scene matches the models,
+	 * and attaches the selection and the gizmo to the active one
+	 */
+	syncModels() {
+		if (!this.scene) return;
+		const models = this.props.models;
+
+		// meshes of removed models, and meshes replaced by a new geometry
+		for (const [id, mesh] of this.meshes) {
+			const model = models.find((m) => m.id === id);
+			if (!model || model.decodedSTL.mesh !== mesh) {
+				this.disposeMesh(mesh);
+				this.meshes.delete(id);
+			}
+		}
+		if (models.length === 0) {
+			this.centerOffset = null;
+		}
+
+		let centered = false;
+		for (const model of models) {
+			if (!this.meshes.has(model.id)) {
+				if (this.addMesh(model.decodedSTL)) {
+					centered = true;
+					this.props.onCenter(model.id);
+				}
+				this.meshes.set(model.id, model.decodedSTL.mesh);
+			}
+			model.decodedSTL.mesh.visible = model.visible;
+		}
+
+		const active = this.activeModel;
+		const activeMesh = active?.decodedSTL.mesh;
+		if (this.mesh !== activeMesh) {
+			// only the active model shows its selection
+			this.restoreColors();
+			this.mesh = activeMesh;
+			this.originalColors = active?.decodedSTL.colors;
+			if (this.selectedFaceIndices.size > 0 || this.props.highlights?.length) {
+				this.highlightSelectedFaces();
+			}
+		}
+
+		if (this.props.cutPlane) {
+			// the gizmo moves the cutting plane, see syncCutPlane
+		} else if (this.mesh && active && !active.locked && active.visible) {
+			if (this.transformControls.object !== this.mesh) {
+				this.transformControls.attach(this.mesh);
+				this.transformControls.space = "world";
+				this.transformControls.showX = true;
+				this.transformControls.showY = true;
+				this.transformControls.showZ = true;
+				this.transformControls.setSize(1);
+			}
+		} else {
+			this.transformControls.detach();
+		}
+
+		// Adjust camera position to fit the first loaded model
+		if (centered && this.meshes.size === 1) {
+			this.fitCameraToObject();
+		}
+	}
+
+	/** returns whether the mesh had to be centered (i.e. is newly loaded) */
+	addMesh(decodedSTL: DecodedSTL): boolean {
 		const { geometry, mesh } = decodedSTL;
-		this.mesh = mesh;
 
 		// Center geometry
+		// (only once, meshes that replace an edited one keep its pose)
+		const firstLoad = !mesh.userData.centered;
 		geometry.computeBoundingBox();
-		if (geometry.boundingBox) {
-			const center = new THREE.Vector3();
-			geometry.boundingBox.getCenter(center);
-			this.mesh.position.sub(center);
+		if (firstLoad && geometry.boundingBox) {
+			if (!this.centerOffset) {
+				this.centerOffset = new THREE.Vector3();
+				geometry.boundingBox.getCenter(this.centerOffset);
+			}
+			mesh.position.sub(this.centerOffset);
+			mesh.userData.centered = true;
 		}
 
-		this.scene?.add(this.mesh);
-		this.transformControls.attach(this.mesh);
-		this.transformControls.showX = true;
-		this.transformControls.showY = true;
-		this.transformControls.setSize(1);
+		this.scene?.add(mesh);
+		return firstLoad;
+	}
 
-		// Adjust camera position to fit model
-		this.fitCameraToObject();
+	labelTexture(text: string, color: string): THREE.Texture {
+		const key = `${text}|${color}`;
+		let texture = this.labelTextures.get(key);
+		if (!texture) {
+			const canvas = document.createElement("canvas");
+			const font = "bold 40px Arial";
+			let context = canvas.getContext("2d")!;
+			context.font = font;
+			// wide enough for the text, resizing the canvas resets the context
+			canvas.width = Math.max(
+				128,
+				Math.ceil(context.measureText(text).width) + 16
+			);
+			canvas.height = 64;
+			context = canvas.getContext("2d")!;
+			context.font = font;
+			context.textAlign = "center";
+			context.textBaseline = "middle";
+			context.lineWidth = 6;
+			context.strokeStyle = "#ffffff";
+			context.strokeText(text, canvas.width / 2, 32);
+			context.fillStyle = color;
+			context.fillText(text, canvas.width / 2, 32);
+			texture = new THREE.CanvasTexture(canvas);
+			this.labelTextures.set(key, texture);
+		}
+		return texture;
+	}
+
+	/** the text facing the camera, 2 units high, drawn over the models */
+	labelSprite(text: string, color: string): THREE.Sprite {
+		const texture = this.labelTexture(text, color);
+		const sprite = new THREE.Sprite(
+			new THREE.SpriteMaterial({ map: texture, depthTest: false })
+		);
+		const image = texture.image as HTMLCanvasElement;
+		sprite.scale.set((2 * image.width) / image.height, 2, 1);
+		sprite.renderOrder = 1;
+		return sprite;
+	}
+
+	/** removes the objects from their mesh, keeping the shared label textures */
+	disposeOverlays(objects: THREE.Object3D[]) {
+		for (const object of objects) {
+			object.removeFromParent();
+			object.traverse((child) => {
+				if (
+					child instanceof THREE.Mesh ||
+					child instanceof THREE.Sprite ||
+					child instanceof THREE.Line
+				) {
+					child.geometry.dispose();
+					(child.material as THREE.Material).dispose();
+				}
+			});
+		}
+	}
+
+	/**
+	 * Re-creates the markers as children of their model's mesh,
+	 * so they follow the model when it is moved
+	 */
+	syncMarkers() {
+		this.disposeOverlays(this.markerObjects);
+		this.markerObjects = [];
+
+		for (const marker of this.props.markers || []) {
+			const mesh = this.meshes.get(marker.modelId);
+			if (!mesh) continue;
+
+			const group = new THREE.Group();
+			group.position.fromArray(marker.position);
+
+			const sphere = new THREE.Mesh(
+				new THREE.SphereGeometry(0.4, 16, 12),
+				new THREE.MeshBasicMaterial({ color: marker.color, depthTest: false })
+			);
+			sphere.renderOrder = 1;
+			group.add(sphere);
+
+			if (marker.label) {
+				const sprite = this.labelSprite(marker.label, marker.color);
+				sprite.position.set(0, 1.5, 0);
+				group.add(sprite);
+			}
+
+			mesh.add(group);
+			this.markerObjects.push(group);
+		}
+	}
+
+	/**
+	 * Re-creates the measurements as children of their model's mesh,
+	 * so they follow the model when it is moved
+	 */
+	syncMeasurements() {
+		this.disposeOverlays(this.measurementObjects);
+		this.measurementObjects = [];
+
+		for (const measurement of this.props.measurements || []) {
+			const mesh = this.meshes.get(measurement.modelId);
+			if (!mesh) continue;
+
+			const group = new THREE.Group();
+			const line = new THREE.Line(
+				new THREE.BufferGeometry().setFromPoints(
+					measurement.path.map((point) => new THREE.Vector3().fromArray(point))
+				),
+				new THREE.LineBasicMaterial({
+					color: measurement.color,
+					depthTest: false,
+				})
+			);
+			line.renderOrder = 1;
+			group.add(line);
+
+			for (const point of measurement.points) {
+				const sphere = new THREE.Mesh(
+					new THREE.SphereGeometry(0.2, 12, 8),
+					new THREE.MeshBasicMaterial({
+						color: measurement.color,
+						depthTest: false,
+					})
+				);
+				sphere.position.fromArray(point);
+				sphere.renderOrder = 1;
+				group.add(sphere);
+			}
+
+			const sprite = this.labelSprite(measurement.label, measurement.color);
+			sprite.position.fromArray(measurement.labelPosition);
+			sprite.position.y += 1.5;
+			group.add(sprite);
+
+			mesh.add(group);
+			this.measurementObjects.push(group);
+		}
+	}
+
+	/** shows the preview as a child of its model's mesh */
+	syncPreview() {
+		const preview = this.props.preview;
+		const mesh = preview && this.meshes.get(preview.modelId);
+		if (
+			this.previewMesh &&
+			this.previewMesh.userData.preview === preview &&
+			this.previewMesh.parent === mesh
+		) {
+			return;
+		}
+		this.removePreview();
+		if (!preview || !mesh) return;
+
+		const geometry = new THREE.BufferGeometry();
+		geometry.setAttribute(
+			"position",
+			new THREE.Float32BufferAttribute(preview.positions, 3)
+		);
+		geometry.computeVertexNormals();
+		this.previewMesh = new THREE.Mesh(
+			geometry,
+			new THREE.MeshStandardMaterial({
+				color: 0x0078d4,
+				// drawn over the faces it lies on
+				polygonOffset: true,
+				polygonOffsetFactor: -1,
+				polygonOffsetUnits: -1,
+			})
+		);
+		this.previewMesh.userData.preview = preview;
+		mesh.add(this.previewMesh);
+	}
+
+	removePreview() {
+		if (!this.previewMesh) return;
+		this.previewMesh.removeFromParent();
+		this.previewMesh.geometry.dispose();
+		(this.previewMesh.material as THREE.Material).dispose();
+		this.previewMesh = undefined;
+	}
+
+	/**
+	 * Shows the cutting plane with the gizmo attached to it.
+	 * The active mesh is clipped to the kept side
+	 * and a see-through copy of it shows what is removed,
+	 * or all meshes are clipped and capped for a cross section.
+	 */
+	syncCutPlane() {
+		const pose = this.props.cutPlane;
+		if (!pose || !this.mesh || !this.scene || !this.transformControls) {
+			this.removeCutPlane();
+			return;
+		}
+
+		if (!this.cutPlaneObject) {
+			const quad = new THREE.Mesh(
+				new THREE.PlaneGeometry(1, 1).rotateX(-Math.PI / 2),
+				new THREE.MeshBasicMaterial({
+					color: 0x0078d4,
+					transparent: true,
+					opacity: 0.2,
+					side: THREE.DoubleSide,
+					depthWrite: false,
+				})
+			);
+			this.cutPlaneObject = new THREE.Group();
+			this.cutPlaneObject.add(quad);
+			this.scene.add(this.cutPlaneObject);
+		}
+
+		const plane = this.cutPlaneObject;
+		const [x, y, z] = pose.rotation.map(THREE.MathUtils.degToRad);
+		plane.position.fromArray(pose.position);
+		plane.rotation.set(x, y, z);
+
+		const kept = cutPlaneFromPose(pose, this.props.cutPlaneRemoveAbove);
+		if (this.props.cutPlaneSection) {
+			this.removeCutPreview();
+			this.syncSection(kept);
+		} else {
+			this.removeSection();
+			this.syncCutPreview(kept);
+		}
+
+		const mode = this.props.cutPlaneGizmo || "translate";
+		if (this.transformControls.object !== plane) {
+			this.transformControls.attach(plane);
+		}
+		// moves along the normal, or tilts it
+		this.transformControls.setMode(mode);
+		this.transformControls.space = "local";
+		this.transformControls.showX = mode === "rotate";
+		this.transformControls.showY = mode === "translate";
+		this.transformControls.showZ = mode === "rotate";
+		if (this.transformControlsGizmo!.parent !== this.scene) {
+			this.scene.add(this.transformControlsGizmo!);
+		}
+	}
+
+	/** clips the active mesh, a see-through copy of it shows what is removed */
+	syncCutPreview(kept: THREE.Plane) {
+		const mesh = this.mesh!;
+		if (!this.cutPlaneGhost) {
+			this.cutPlaneGhost = new THREE.Mesh(
+				mesh.geometry,
+				new THREE.MeshBasicMaterial({
+					color: 0xe81123,
+					transparent: true,
+					opacity: 0.25,
+					depthWrite: false,
+				})
+			);
+		}
+		// large enough to cover the model
+		mesh.geometry.computeBoundingSphere();
+		const radius = mesh.geometry.boundingSphere!.radius;
+		this.cutPlaneObject!.children[0].scale.setScalar(
+			2.5 * radius * mesh.scale.x
+		);
+
+		const removed = kept.clone().negate();
+		// faces lying on the plane (e.g. a cap) are shown as kept
+		kept.constant += 1e-3;
+		removed.constant -= 1e-3;
+		if (this.clippedMesh !== mesh) {
+			this.setClippingPlanes(this.clippedMesh, null);
+			this.clippedMesh = mesh;
+		}
+		this.setClippingPlanes(mesh, [kept]);
+		const ghost = this.cutPlaneGhost;
+		if (ghost.parent !== mesh) {
+			mesh.add(ghost);
+			ghost.geometry = mesh.geometry;
+		}
+		this.setClippingPlanes(ghost, [removed]);
+	}
+
+	removeCutPreview() {
+		if (this.cutPlaneGhost) {
+			// the geometry is the one of the mesh
+			this.cutPlaneGhost.removeFromParent();
+			(this.cutPlaneGhost.material as THREE.Material).dispose();
+			this.cutPlaneGhost = undefined;
+		}
+		this.setClippingPlanes(this.clippedMesh, null);
+		this.clippedMesh = undefined;
+	}
+
+	/**
+	 * Clips the visible meshes to the kept side of the plane and caps them
+	 * where it cuts through: the back faces seen through the cut mark the
+	 * inside of a mesh in the stencil buffer (minus its front faces), where
+	 * a quad on the plane is drawn. Closed meshes look solid.
+	 */
+	syncSection(kept: THREE.Plane) {
+		this.sectionPlane.copy(kept);
+		const models = this.props.models.filter(
+			(model) => model.visible && this.meshes.has(model.id)
+		);
+		const changed =
+			models.length !== this.sectionCaps.length ||
+			models.some(
+				(model, i) =>
+					this.meshes.get(model.id) !== this.sectionCaps[i].mesh ||
+					model.color !== this.sectionCaps[i].color
+			);
+		if (changed) {
+			this.removeSection();
+			this.sectionCaps = models.map((model, i) => {
+				const mesh = this.meshes.get(model.id)!;
+				// each mesh marks the stencil buffer, then its cap clears it
+				const order = -1000 + 2 * i;
+				const stencil = new THREE.Group();
+				for (const [side, operation] of [
+					[THREE.BackSide, THREE.IncrementWrapStencilOp],
+					[THREE.FrontSide, THREE.DecrementWrapStencilOp],
+				] as const) {
+					const faces = new THREE.Mesh(
+						mesh.geometry,
+						new THREE.MeshBasicMaterial({
+							side,
+							clippingPlanes: [this.sectionPlane],
+							colorWrite: false,
+							depthWrite: false,
+							depthTest: false,
+							stencilWrite: true,
+							stencilFunc: THREE.AlwaysStencilFunc,
+							stencilFail: operation,
+							stencilZFail: operation,
+							stencilZPass: operation,
+						})
+					);
+					faces.renderOrder = order;
+					stencil.add(faces);
+				}
+				mesh.add(stencil);
+
+				const cap = new THREE.Mesh(
+					new THREE.PlaneGeometry(1, 1).rotateX(-Math.PI / 2),
+					new THREE.MeshBasicMaterial({
+						color: new THREE.Color(model.color).multiplyScalar(0.7),
+						side: THREE.DoubleSide,
+						stencilWrite: true,
+						stencilRef: 0,
+						stencilFunc: THREE.NotEqualStencilFunc,
+						stencilFail: THREE.ReplaceStencilOp,
+						stencilZFail: THREE.ReplaceStencilOp,
+						stencilZPass: THREE.ReplaceStencilOp,
+					})
+				);
+				cap.renderOrder = order + 1;
+				cap.onAfterRender = (renderer) => renderer.clearStencil();
+				this.cutPlaneObject!.add(cap);
+				this.setClippingPlanes(mesh, [this.sectionPlane]);
+				return { mesh, color: model.color, stencil, cap };
+			});
+		}
+
+		// the quads cover all the models
+		const bounds = new THREE.Sphere();
+		for (const { mesh } of this.sectionCaps) {
+			mesh.geometry.computeBoundingSphere();
+			bounds.union(
+				mesh.geometry.boundingSphere!.clone().applyMatrix4(mesh.matrixWorld)
+			);
+		}
+		const size =
+			2 *
+			(bounds.radius + bounds.center.distanceTo(this.cutPlaneObject!.position));
+		for (const child of this.cutPlaneObject!.children) {
+			child.scale.setScalar(Math.max(size, 1));
+		}
+	}
+
+	removeSection() {
+		for (const { mesh, stencil, cap } of this.sectionCaps) {
+			this.setClippingPlanes(mesh, null);
+			// the geometry is the one of the mesh
+			stencil.removeFromParent();
+			stencil.children.forEach((child) =>
+				((child as THREE.Mesh).material as THREE.Material).dispose()
+			);
+			cap.removeFromParent();
+			cap.geometry.dispose();
+			(cap.material as THREE.Material).dispose();
+		}
+		this.sectionCaps = [];
+	}
+
+	setClippingPlanes(
+		mesh: THREE.Mesh | undefined,
+		planes: THREE.Plane[] | null
+	) {
+		if (mesh && mesh.material instanceof THREE.Material) {
+			mesh.material.clippingPlanes = planes;
+		}
+	}
+
+	removeCutPlane() {
+		if (!this.cutPlaneObject) return;
+		this.removeCutPreview();
+		this.removeSection();
+		if (this.transformControls?.object === this.cutPlaneObject) {
+			this.transformControls.detach();
+		}
+		if (this.transformControlsGizmo) {
+			this.scene?.remove(this.transformControlsGizmo);
+		}
+		this.cutPlaneObject.removeFromParent();
+		this.cutPlaneObject.traverse((child) => {
+			if (child instanceof THREE.Mesh) {
+				child.geometry.dispose();
+				(child.material as THREE.Material).dispose();
+			}
+		});
+		this.cutPlaneObject = undefined;
 	}
 
 	fitCameraToObject(x: number = 150, y: number = 100, z: number = 100) {
@@ -335,23 +1237,47 @@ export class STLViewer extends Component<STLViewerProps> {
 		this.camera.updateProjectionMatrix();
 	}
 
+	setCameraPose(pose: CameraPose) {
+		if (!this.camera || !this.controls) return;
+		this.camera.position.fromArray(pose.position);
+		this.controls.target.fromArray(pose.target);
+		this.camera.lookAt(this.controls.target);
+		this.controls.update();
+	}
+
+	disposeMesh(mesh: THREE.Mesh) {
+		if (this.transformControls?.object === mesh) {
+			this.transformControls.detach();
+		}
+		this.scene?.remove(mesh);
+		mesh.geometry.dispose();
+		if (Array.isArray(mesh.material)) {
+			mesh.material.forEach((mat: any) => mat.dispose());
+		} else {
+			mesh.material.dispose();
+		}
+	}
+
 	clearScene() {
-		if (this.mesh && this.scene) {
-			this.originalColors = undefined;
-			this.selectedFaceIndices.clear();
-			this.scene.remove(this.mesh);
-			this.mesh.geometry.dispose();
-			if (Array.isArray(this.mesh.material)) {
-				this.mesh.material.forEach((mat: any) => mat.dispose());
-			} else {
-				this.mesh.material.dispose();
-			}
-			this.mesh = undefined;
+		for (const mesh of this.meshes.values()) {
+			this.disposeMesh(mesh);
 		}
+		this.meshes.clear();
+		this.originalColors = undefined;
+		this.mesh = undefined;
 	}
 
 	cleanUp() {
+		this.mountRef.current?.removeEventListener("wheel", this.onWheel, {
+			capture: true,
+		});
+		this.removeCutPlane();
+		this.removePreview();
+		this.disposeOverlays(this.markerObjects);
+		this.disposeOverlays(this.measurementObjects);
 		this.clearScene();
+		this.labelTextures.forEach((texture) => texture.dispose());
+		this.labelTextures.clear();
 		if (this.renderer) {
 			this.renderer.dispose();
 			if (this.renderer.domElement.parentNode) {
@@ -379,12 +1305,14 @@ export class STLViewer extends Component<STLViewerProps> {
 						border: "1px solid #ddd",
 						borderRadius: 4,
 						backgroundColor: "#fff",
-						cursor: this.props.selecting
-							? `url('data:image/svg+xml;utf8, <svg xmlns="http://www.w3.org/2000/svg" width="32" height="32"> <circle cx="16" cy="16" r="8" stroke="red" stroke-width="2" fill="transparent"/> </svg>') 16 16, auto`
-							: undefined,
+						cursor: this.props.selecting ? "crosshair" : undefined,
 						userSelect: "auto",
 					}}
 				></div>
+				<div className="brush-cursor" ref={this.brushCursorRef}></div>
+				<svg className="region-outline">
+					<polygon ref={this.regionOutlineRef}></polygon>
+				</svg>
 			</Stack>
 		);
 	}
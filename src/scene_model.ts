@@ -0,0 +1,122 @@
+import { makeAutoObservable, observable } from "mobx";
+import * as THREE from "three";
+import type { DecodedSTL } from "./services/stl_to_mesh";
+import type { SourceFile } from "./services/project_file";
+
+/** default colors of the models, in the order they are loaded */
+export const modelPalette = [
+	"#4ab0ff",
+	"#ffc36b",
+	"#8fd694",
+	"#e89ad6",
+	"#b4a7f5",
+	"#ff8f80",
+];
+
+let nextModelId = 0;
+
+/**
+ * A scan loaded in the scene (e.g. upper arch, lower arch, bite)
+ */
+export class SceneModel {
+	id: number;
+	name: string;
+	decodedSTL: DecodedSTL;
+	/** the file the model was loaded from, kept for project files */
+	sourceFile: SourceFile | null;
+	visible = true;
+	/** locked models can not be selected, cut or transformed */
+	locked = false;
+	/** used for scans that do not come with their own colors */
+	color: string;
+	/**
+	 * elements of the matrix of the mesh in the scene, the pose is changed
+	 * on the mesh, `updateTransform` makes it observable
+	 */
+	transform: number[] = [];
+
+	// mutated in place by the viewer while brushing (it can hold millions
+	// of faces, so it is not observable), see AppState.selectionVersion
+	selectedFaceIndices = new Set<number>();
+
+	constructor({
+		id = nextModelId,
+		name,
+		decodedSTL,
+		sourceFile = null,
+		color = modelPalette[id % modelPalette.length],
+	}: {
+		id?: number;
+		name: string;
+		decodedSTL: DecodedSTL;
+		sourceFile?: SourceFile | null;
+		color?: string;
+	}) {
+		this.id = id;
+		this.name = name;
+		this.decodedSTL = decodedSTL;
+		this.sourceFile = sourceFile;
+		this.color = color;
+		nextModelId = Math.max(nextModelId, id + 1);
+
+		makeAutoObservable(this, {
+			decodedSTL: observable.ref,
+			sourceFile: false,
+			selectedFaceIndices: false,
+			transform: observable.ref,
+		});
+
+		this.applyColor();
+		this.updateTransform();
+	}
+
+	/** the matrix of the mesh in the scene, shared: clone it to change it */
+	get matrix(): THREE.Matrix4 {
+		return new THREE.Matrix4().fromArray(this.transform);
+	}
+
+	/** to call whenever the mesh was moved */
+	updateTransform() {
+		const mesh = this.decodedSTL.mesh;
+		mesh.updateMatrix();
+		this.transform = mesh.matrix.toArray();
+	}
+
+	/**
+	 * Paints the model with its flat color,
+	 * unless the scan has colors of its own
+	 */
+	applyColor() {
+		const { decodedSTL } = this;
+		if (decodedSTL.scannerColors) {
+			return;
+		}
+		// hex components are used as is (like the original 0x4ab0ff default)
+		const color = new THREE.Color().setStyle(
+			this.color,
+			THREE.LinearSRGBColorSpace
+		);
+		for (let i = 0; i < decodedSTL.colors.length; i += 3) {
+			decodedSTL.colors[i] = color.r;
+			decodedSTL.colors[i + 1] = color.g;
+			decodedSTL.colors[i + 2] = color.b;
+		}
+		const colorAttr = decodedSTL.geometry.getAttribute(
+			"color"
+		) as THREE.BufferAttribute;
+		colorAttr.copyArray(decodedSTL.colors);
+		colorAttr.needsUpdate = true;
+	}
+
+	/**
+	 * Paints the faces back in their own colors,
+	 * so an edit of the geometry does not keep the selection highlight
+	 */
+	clearHighlight() {
+		const colorAttr = this.decodedSTL.geometry.getAttribute(
+			"color"
+		) as THREE.BufferAttribute;
+		colorAttr.copyArray(this.decodedSTL.colors);
+		colorAttr.needsUpdate = true;
+	}
+}
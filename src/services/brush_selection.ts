@@ -0,0 +1,169 @@
+import * as THREE from "three";
+import type { FaceBVH } from "./face_bvh";
+
+/**
+ * "pixels": a circle on the screen, its size on the model depends on the zoom.
+ * "mm": a sphere around the surface point under the pointer.
+ */
+export type BrushUnit = "pixels" | "mm";
+
+/** slider range of the brush radius, per unit */
+export const brushRadiusLimits: {
+	[unit in BrushUnit]: { min: number; max: number; step: number };
+} = {
+	pixels: { min: 2, max: 100, step: 1 },
+	mm: { min: 0.1, max: 10, step: 0.1 },
+};
+
+export interface BrushQuery {
+	mesh: THREE.Mesh;
+	camera: THREE.PerspectiveCamera;
+	/** brush center in normalized device coordinates */
+	pointer: THREE.Vector2;
+	/** size of the canvas in pixels */
+	width: number;
+	height: number;
+	radius: number;
+	unit: BrushUnit;
+}
+
+const raycaster = new THREE.Raycaster();
+const inverse = new THREE.Matrix4();
+const origin = new THREE.Vector3();
+const direction = new THREE.Vector3();
+const center = new THREE.Vector3();
+const cameraLocal = new THREE.Vector3();
+const centroid = new THREE.Vector3();
+const projected = new THREE.Vector3();
+const translation = new THREE.Vector3();
+const rotation = new THREE.Quaternion();
+const scale = new THREE.Vector3();
+
+/**
+ * Hit of the pointer ray with the mesh (local space), or null
+ */
+export function raycastFace(
+	bvh: FaceBVH,
+	mesh: THREE.Mesh,
+	camera: THREE.Camera,
+	pointer: THREE.Vector2
+): { face: number; point: THREE.Vector3 } | null {
+	raycaster.setFromCamera(pointer, camera);
+	mesh.updateMatrixWorld();
+	inverse.copy(mesh.matrixWorld).invert();
+	origin.copy(raycaster.ray.origin).applyMatrix4(inverse);
+	direction.copy(raycaster.ray.direction).transformDirection(inverse);
+
+	const hit = bvh.raycast(origin, direction);
+	if (!hit) return null;
+	return {
+		face: hit.face,
+		point: origin.clone().addScaledVector(direction, hit.distance),
+	};
+}
+
+/**
+ * Size of a pixel in world units at the depth of `point` (world space)
+ */
+export function worldUnitsPerPixel(
+	camera: THREE.PerspectiveCamera,
+	height: number,
+	point: THREE.Vector3
+): number {
+	const depth = point.clone().applyMatrix4(camera.matrixWorldInverse).z;
+	return (
+		(2 * Math.abs(depth) * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2))) /
+		height
+	);
+}
+
+/**
+ * Faces under a round brush that can be seen from the camera.
+ *
+ * Only faces near the brush are tested, which keeps the cost proportional
+ * to the faces under the brush rather than to the size of the mesh:
+ * in pixels, those in the cone from the camera through the brush circle
+ * (at any depth, e.g. along a steep wall), in mm, those around the surface
+ * point under the brush center. Faces turned away from the camera
+ * and faces hidden behind other parts of the mesh are skipped.
+ */
+export function facesUnderBrush(bvh: FaceBVH, query: BrushQuery): number[] {
+	const { mesh, camera, pointer, width, height, radius, unit } = query;
+	const hit = raycastFace(bvh, mesh, camera, pointer);
+	if (!hit) return [];
+	center.copy(hit.point);
+
+	mesh.matrixWorld.decompose(translation, rotation, scale);
+	const minScale = Math.min(scale.x, scale.y, scale.z);
+	const maxScale = Math.max(scale.x, scale.y, scale.z);
+	const byPixels = unit === "pixels";
+	cameraLocal.setFromMatrixPosition(camera.matrixWorld).applyMatrix4(inverse);
+	let candidates: number[];
+	if (byPixels) {
+		// a pixel spans the widest angle in the middle of the view, the local
+		// space of a mesh scaled unevenly widens the cone further
+		const tanPerPixel =
+			(2 * Math.tan(THREE.MathUtils.degToRad(camera.fov / 2))) / height;
+		const tan = (radius + 1) * tanPerPixel * (maxScale / minScale);
+		candidates = facesInCone(
+			bvh,
+			cameraLocal,
+			direction.copy(center).sub(cameraLocal).normalize(),
+			tan
+		);
+	} else {
+		candidates = bvh.facesInSphere(center, radius / minScale);
+	}
+
+	const faces: number[] = [];
+	for (const face of candidates) {
+		centroid.fromArray(bvh.centroids, face * 3);
+
+		if (byPixels) {
+			projected.copy(centroid).applyMatrix4(mesh.matrixWorld).project(camera);
+			const dx = ((projected.x - pointer.x) * width) / 2;
+			const dy = ((projected.y - pointer.y) * height) / 2;
+			if (dx * dx + dy * dy > radius * radius) continue;
+		}
+
+		if (!bvh.isVisibleFrom(face, cameraLocal)) continue;
+
+		faces.push(face);
+	}
+	return faces;
+}
+
+/**
+ * Faces in the nodes whose bounding sphere reaches into the cone from
+ * `apex` along the unit `axis`, opening by `tan` (tangent of its half angle)
+ */
+function facesInCone(
+	bvh: FaceBVH,
+	apex: THREE.Vector3,
+	axis: THREE.Vector3,
+	tan: number
+): number[] {
+	const faces: number[] = [];
+	const cos = 1 / Math.sqrt(1 + tan * tan);
+	bvh.traverse(
+		(bounds, o) => {
+			const cx = (bounds[o] + bounds[o + 3]) / 2 - apex.x;
+			const cy = (bounds[o + 1] + bounds[o + 4]) / 2 - apex.y;
+			const cz = (bounds[o + 2] + bounds[o + 5]) / 2 - apex.z;
+			const r =
+				Math.hypot(
+					bounds[o + 3] - bounds[o],
+					bounds[o + 4] - bounds[o + 1],
+					bounds[o + 5] - bounds[o + 2]
+				) / 2;
+			const along = cx * axis.x + cy * axis.y + cz * axis.z;
+			if (along < -r) return false;
+			const across = Math.sqrt(
+				Math.max(0, cx * cx + cy * cy + cz * cz - along * along)
+			);
+			return across <= Math.max(along, 0) * tan + r / cos;
+		},
+		(face) => faces.push(face)
+	);
+	return faces;
+}
@@ -0,0 +1,90 @@
+import * as THREE from "three";
+import { planeSection, type CutPlanePose } from "./plane_cut";
+
+/** a polyline of a section, in mm along the axes of the plane */
+export interface ProfileLine {
+	points: THREE.Vector2[];
+	closed: boolean;
+}
+
+/**
+ * Axes of the plane of a pose (world space): `u` and `v` along the plane,
+ * seen from the side its normal (the rotated +y axis) points to
+ */
+export function sectionFrame(pose: CutPlanePose) {
+	const [x, y, z] = pose.rotation.map(THREE.MathUtils.degToRad);
+	const rotation = new THREE.Quaternion().setFromEuler(
+		new THREE.Euler(x, y, z)
+	);
+	return {
+		origin: new THREE.Vector3().fromArray(pose.position),
+		u: new THREE.Vector3(1, 0, 0).applyQuaternion(rotation),
+		v: new THREE.Vector3(0, 0, -1).applyQuaternion(rotation),
+		normal: new THREE.Vector3(0, 1, 0).applyQuaternion(rotation),
+	};
+}
+
+/**
+ * The exact section of a model (its geometry placed by `matrixWorld`)
+ * by the plane of the pose, in the coordinates of the plane
+ */
+export function sectionProfile(
+	geometry: THREE.BufferGeometry,
+	matrixWorld: THREE.Matrix4,
+	pose: CutPlanePose
+): ProfileLine[] {
+	const { origin, u, v, normal } = sectionFrame(pose);
+	const plane = new THREE.Plane()
+		.setFromNormalAndCoplanarPoint(normal, origin)
+		.applyMatrix4(matrixWorld.clone().invert());
+	const offset = new THREE.Vector3();
+	return planeSection(geometry, plane).map(({ points, closed }) => ({
+		points: points.map((point) => {
+			offset.copy(point).applyMatrix4(matrixWorld).sub(origin);
+			return new THREE.Vector2(offset.dot(u), offset.dot(v));
+		}),
+		closed,
+	}));
+}
+
+/** the point of the lines nearest to `point`, if it is within `maxDistance` */
+export function closestProfilePoint(
+	lines: ProfileLine[],
+	point: THREE.Vector2,
+	maxDistance: number
+): THREE.Vector2 | null {
+	let closest: THREE.Vector2 | null = null;
+	let closestDistance = maxDistance;
+	const along = new THREE.Vector2();
+	const candidate = new THREE.Vector2();
+	for (const { points, closed } of lines) {
+		const segments = closed ? points.length : points.length - 1;
+		for (let i = 0; i < segments; i++) {
+			const a = points[i];
+			const b = points[(i + 1) % points.length];
+			along.subVectors(b, a);
+			const lengthSq = along.lengthSq();
+			const t =
+				lengthSq > 0
+					? THREE.MathUtils.clamp(
+							candidate.subVectors(point, a).dot(along) / lengthSq,
+							0,
+							1
+						)
+					: 0;
+			candidate.copy(a).addScaledVector(along, t);
+			const distance = candidate.distanceTo(point);
+			if (distance <= closestDistance) {
+				closestDistance = distance;
+				closest = candidate.clone();
+			}
+		}
+	}
+	return closest;
+}
+
+/** the longest of 1, 2 or 5 times a power of ten that fits in `max` (mm) */
+export function scaleBarLength(max: number): number {
+	const power = 10 ** Math.floor(Math.log10(max));
+	return [5, 2, 1].map((step) => step * power).find((length) => length <= max)!;
+}
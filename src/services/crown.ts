@@ -0,0 +1,290 @@
+import * as THREE from "three";
+import { getFaceBVH } from "./face_bvh";
+import { HalfEdgeMesh } from "./half_edge_mesh";
+import { FaceBuilder } from "./model_base";
+
+export type CrownSource = "pre-op" | "template";
+
+export interface CrownOptions {
+	/** faces of the preparation, up to its margin */
+	faces: Set<number>;
+	/** space for the cement between the preparation and the crown (mm) */
+	cementGap: number;
+	/** the crown is at least this thick over the preparation (mm) */
+	minThickness: number;
+	source: CrownSource;
+	/**
+	 * scan of the tooth before it was prepared, with the matrix from the
+	 * local coordinates of the prepared model to its own
+	 */
+	preOp?: { geometry: THREE.BufferGeometry; matrix: THREE.Matrix4 };
+}
+
+export const defaultCrownOptions = {
+	cementGap: 0.05,
+	minThickness: 1,
+	source: "template" as CrownSource,
+};
+
+export const crownLimits = {
+	cementGap: { min: 0, max: 0.3 },
+	minThickness: { min: 0.3, max: 3 },
+};
+
+export interface Crown {
+	geometry: THREE.BufferGeometry;
+	/** length of the margin line (mm) */
+	marginLength: number;
+}
+
+/** the cement gap grows to its full width over this distance from the margin (mm) */
+const marginWidth = 1;
+/** rings of the outer surface between the margin and the top */
+const outerRings = 16;
+/** the template bulges out this much (of the margin) at its height of contour */
+const templateBulge = 0.12;
+/** height of the cusps of the template (of its mean radius) */
+const templateCusps = 0.25;
+
+/**
+ * Builds a temporary crown over the selected preparation.
+ *
+ * The border of the selection is the margin line. The inner surface is the
+ * preparation, offset by the cement gap which fades out towards the margin.
+ * The outer surface rises from the margin to the top, seen from a point
+ * inside the preparation: it follows the pre-op scan of the tooth, or a
+ * generic molar scaled to the margin and to the height of the preparation,
+ * and is pushed out where the crown would be too thin.
+ */
+export function buildCrown(
+	geometry: THREE.BufferGeometry,
+	options: CrownOptions
+): Crown {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+	if (options.faces.size === 0) {
+		throw new Error("Select the preparation up to its margin with the brush.");
+	}
+	if (options.source === "pre-op" && !options.preOp) {
+		throw new Error("Choose the pre-op scan of the tooth.");
+	}
+
+	const preparation = selectedFaces(geometry, options.faces);
+	const mesh = HalfEdgeMesh.fromGeometry(preparation);
+	const loops = mesh.boundaryLoops();
+	if (loops.length !== 1) {
+		throw new Error(
+			`The selection must be one patch without gaps, it has ${loops.length} borders.`
+		);
+	}
+	const loop = loops[0];
+	if (mesh.target(loop[loop.length - 1]) !== mesh.origins[loop[0]]) {
+		throw new Error("The margin line does not close, brush over its gaps.");
+	}
+	const margin = loop.map((h) => mesh.vertexPosition(mesh.origins[h]));
+	let marginLength = 0;
+	margin.forEach((point, i) => {
+		marginLength += point.distanceTo(margin[(i + 1) % margin.length]);
+	});
+
+	// the path of insertion, the preparation faces along it on average
+	const axis = new THREE.Vector3();
+	const vertexNormals = new Float32Array(mesh.vertexCount * 3);
+	for (let face = 0; face < mesh.faceCount; face++) {
+		const [a, b, c] = mesh.faceVertices(face);
+		const normal = faceNormal(mesh, face);
+		axis.add(normal);
+		for (const vertex of [a, b, c]) {
+			for (let k = 0; k < 3; k++) {
+				vertexNormals[vertex * 3 + k] += normal.getComponent(k);
+			}
+		}
+	}
+	axis.normalize();
+	const center = new THREE.Vector3();
+	for (const point of margin) center.add(point);
+	center.divideScalar(margin.length);
+	let height = 0;
+	const position = new THREE.Vector3();
+	for (let vertex = 0; vertex < mesh.vertexCount; vertex++) {
+		mesh.vertexPosition(vertex, position);
+		height = Math.max(height, position.sub(center).dot(axis));
+	}
+	if (height <= 0) {
+		throw new Error("The preparation must rise above its margin.");
+	}
+
+	// inner surface, the gap fades out towards the margin
+	const inner = Array.from({ length: mesh.vertexCount }, (_, vertex) => {
+		const point = mesh.vertexPosition(vertex);
+		let distance = Infinity;
+		for (const m of margin) distance = Math.min(distance, m.distanceTo(point));
+		const normal = new THREE.Vector3()
+			.fromArray(vertexNormals, vertex * 3)
+			.normalize();
+		const gap = options.cementGap * Math.min(1, distance / marginWidth);
+		return point.addScaledVector(normal, gap);
+	});
+
+	// the outer surface is seen from inside the preparation
+	const eye = center.clone().addScaledVector(axis, height * 0.4);
+	const preparationBVH = getFaceBVH(preparation);
+	const shape =
+		options.source === "pre-op"
+			? preOpShape(options.preOp!, eye, axis, margin)
+			: templateShape(center, axis, margin, height + options.minThickness);
+	const direction = new THREE.Vector3();
+	const thick = (point: THREE.Vector3) => {
+		direction.subVectors(point, eye).normalize();
+		const hit = preparationBVH.raycast(eye, direction);
+		const least = (hit ? hit.distance : 0) + options.cementGap;
+		const distance = Math.max(
+			point.distanceTo(eye),
+			least + options.minThickness
+		);
+		return eye.clone().addScaledVector(direction, distance);
+	};
+	const rings = [margin];
+	for (let ring = 1; ring < outerRings; ring++) {
+		rings.push(margin.map((_, i) => thick(shape(i, ring / outerRings))));
+	}
+	const top = thick(shape(0, 1));
+
+	const builder = new FaceBuilder(null);
+	for (let face = 0; face < mesh.faceCount; face++) {
+		const [a, b, c] = mesh.faceVertices(face);
+		// facing the preparation
+		builder.triangle(inner[a], inner[c], inner[b]);
+	}
+	const outwards = new THREE.Vector3();
+	const outer = (a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) => {
+		outwards.copy(a).add(b).add(c).divideScalar(3).sub(eye);
+		builder.orientedTriangle(a, b, c, outwards);
+	};
+	for (let ring = 0; ring < rings.length; ring++) {
+		const [lower, upper] = [rings[ring], rings[ring + 1]];
+		for (let i = 0; i < margin.length; i++) {
+			const j = (i + 1) % margin.length;
+			if (upper) {
+				outer(lower[i], lower[j], upper[j]);
+				outer(lower[i], upper[j], upper[i]);
+			} else {
+				outer(lower[i], lower[j], top);
+			}
+		}
+	}
+
+	const crown = new THREE.BufferGeometry();
+	crown.setAttribute(
+		"position",
+		new THREE.Float32BufferAttribute(builder.positionAttribute().array, 3)
+	);
+	crown.computeVertexNormals();
+	return { geometry: crown, marginLength };
+}
+
+function selectedFaces(
+	geometry: THREE.BufferGeometry,
+	faces: Set<number>
+): THREE.BufferGeometry {
+	const source = geometry.getAttribute("position").array;
+	const positions = new Float32Array(faces.size * 9);
+	let offset = 0;
+	for (const face of faces) {
+		for (let k = 0; k < 9; k++) positions[offset++] = source[face * 9 + k];
+	}
+	const selection = new THREE.BufferGeometry();
+	selection.setAttribute(
+		"position",
+		new THREE.Float32BufferAttribute(positions, 3)
+	);
+	return selection;
+}
+
+/** scaled by twice the area of the face */
+function faceNormal(mesh: HalfEdgeMesh, face: number): THREE.Vector3 {
+	const [a, b, c] = mesh
+		.faceVertices(face)
+		.map((vertex) => mesh.vertexPosition(vertex));
+	return b.sub(a).cross(c.sub(a));
+}
+
+/**
+ * Direction from the eye towards the outer surface above the margin point,
+ * turned from the margin (at 0) up to the axis (at 1)
+ */
+function ringDirection(
+	eye: THREE.Vector3,
+	axis: THREE.Vector3,
+	marginPoint: THREE.Vector3,
+	along: number
+): THREE.Vector3 {
+	const direction = marginPoint.clone().sub(eye).normalize();
+	const turn = new THREE.Quaternion().setFromUnitVectors(direction, axis);
+	return direction.applyQuaternion(new THREE.Quaternion().slerp(turn, along));
+}
+
+/** the pre-op scan, where the rays from the eye leave it */
+function preOpShape(
+	preOp: NonNullable<CrownOptions["preOp"]>,
+	eye: THREE.Vector3,
+	axis: THREE.Vector3,
+	margin: THREE.Vector3[]
+) {
+	const bvh = getFaceBVH(preOp.geometry);
+	const inverse = preOp.matrix.clone().invert();
+	const origin = eye.clone().applyMatrix4(preOp.matrix);
+	return (i: number, along: number) => {
+		const direction = ringDirection(eye, axis, margin[i], along);
+		const scanDirection = direction.clone().transformDirection(preOp.matrix);
+		const hit = bvh.raycast(origin, scanDirection);
+		if (!hit) {
+			// left to the minimal thickness
+			return eye.clone();
+		}
+		return origin
+			.clone()
+			.addScaledVector(scanDirection, hit.distance)
+			.applyMatrix4(inverse);
+	};
+}
+
+/**
+ * A generic molar: it bulges out of the margin, rounds over to the
+ * occlusal surface at `top` above the margin and has four cusps
+ */
+function templateShape(
+	center: THREE.Vector3,
+	axis: THREE.Vector3,
+	margin: THREE.Vector3[],
+	top: number
+) {
+	const x = new THREE.Vector3(1, 0, 0);
+	if (Math.abs(x.dot(axis)) > 0.9) x.set(0, 1, 0);
+	x.addScaledVector(axis, -x.dot(axis)).normalize();
+	const y = new THREE.Vector3().crossVectors(axis, x);
+	const radial = margin.map((point) => {
+		const offset = point.clone().sub(center);
+		return offset.addScaledVector(axis, -offset.dot(axis));
+	});
+	const meanRadius =
+		radial.reduce((sum, r) => sum + r.length(), 0) / radial.length;
+
+	return (i: number, along: number) => {
+		const base = margin[i].clone().sub(center).dot(axis);
+		const angle = Math.atan2(radial[i].dot(y), radial[i].dot(x));
+		const cusps = (1 + Math.cos(4 * angle)) / 2;
+		const rise =
+			base +
+			(top - base) * (1 - (1 - along) ** 2) +
+			templateCusps * meanRadius * cusps * Math.sin(Math.PI * along) ** 2;
+		const radius =
+			(1 + templateBulge * Math.sin(Math.PI * along)) *
+			Math.cos((along * Math.PI) / 2);
+		return center
+			.clone()
+			.addScaledVector(axis, rise)
+			.addScaledVector(radial[i], radius);
+	};
+}
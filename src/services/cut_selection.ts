@@ -1,4 +1,5 @@
 import * as THREE from "three";
+import type { FaceAttributes, FaceDiff } from "./history";
 
 export function cutAwaySelection(
 	geometry: THREE.BufferGeometry,
@@ -83,3 +84,165 @@ export function cutAwaySelection(
 	}
 	return newGeometry;
 }
+
+const diffedAttributes = ["position", "normal", "uv", "color"];
+
+/**
+ * Copies the vertex data of the faces that are about to be cut away,
+ * so the cut can later be reverted with `restoreCutFaces`.
+ * `colors` overrides the color attribute (e.g. to store the original colors
+ * instead of the selection highlight).
+ */
+export function extractFaceDiff(
+	geometry: THREE.BufferGeometry,
+	faces: Set<number>,
+	colors?: Float32Array
+): FaceDiff {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+
+	const sortedFaces = Uint32Array.from(faces).sort();
+	const attributes: FaceDiff["attributes"] = {};
+
+	for (const name of diffedAttributes) {
+		const attribute = geometry.getAttribute(name);
+		if (!attribute) continue;
+		const itemSize = attribute.itemSize;
+		const source =
+			name === "color" && colors ? colors : (attribute.array as Float32Array);
+		const array = new Float32Array(sortedFaces.length * 3 * itemSize);
+		const faceSize = 3 * itemSize;
+		for (let i = 0; i < sortedFaces.length; i++) {
+			const start = sortedFaces[i] * faceSize;
+			array.set(source.subarray(start, start + faceSize), i * faceSize);
+		}
+		attributes[name] = { itemSize, array };
+	}
+
+	return { faces: sortedFaces, attributes };
+}
+
+/**
+ * Inverse of `cutAwaySelection`: re-inserts the removed faces
+ * at their original indices.
+ */
+export function restoreCutFaces(
+	geometry: THREE.BufferGeometry,
+	diff: FaceDiff
+): THREE.BufferGeometry {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+
+	const currentFaceCount = geometry.getAttribute("position").count / 3;
+	const faceCount = currentFaceCount + diff.faces.length;
+	const newGeometry = new THREE.BufferGeometry();
+
+	for (const name of Object.keys(diff.attributes)) {
+		const attribute = geometry.getAttribute(name);
+		if (!attribute) continue;
+		const { itemSize, array: removed } = diff.attributes[name];
+		const current = attribute.array as Float32Array;
+		const faceSize = 3 * itemSize;
+		const array = new Float32Array(faceCount * faceSize);
+
+		let currentFace = 0;
+		let removedFace = 0;
+		for (let face = 0; face < faceCount; face++) {
+			if (removedFace < diff.faces.length && diff.faces[removedFace] === face) {
+				const start = removedFace * faceSize;
+				array.set(removed.subarray(start, start + faceSize), face * faceSize);
+				removedFace++;
+			} else {
+				const start = currentFace * faceSize;
+				array.set(current.subarray(start, start + faceSize), face * faceSize);
+				currentFace++;
+			}
+		}
+
+		newGeometry.setAttribute(
+			name,
+			new THREE.Float32BufferAttribute(array, itemSize)
+		);
+	}
+
+	return newGeometry;
+}
+
+/**
+ * Appends faces at the end of a non-indexed geometry.
+ * `faces` has to hold every attribute of the geometry.
+ */
+export function appendFaces(
+	geometry: THREE.BufferGeometry,
+	faces: FaceAttributes
+): THREE.BufferGeometry {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+
+	const newGeometry = new THREE.BufferGeometry();
+	for (const name of Object.keys(geometry.attributes)) {
+		const attribute = geometry.getAttribute(name);
+		const added = faces[name];
+		if (!added) {
+			throw new Error(`The added faces have no ${name} attribute.`);
+		}
+		const current = attribute.array as Float32Array;
+		const array = new Float32Array(current.length + added.array.length);
+		array.set(current);
+		array.set(added.array, current.length);
+		newGeometry.setAttribute(
+			name,
+			new THREE.Float32BufferAttribute(array, attribute.itemSize)
+		);
+	}
+	return newGeometry;
+}
+
+/**
+ * Every attribute of `geometry` for new faces (3 corners each in
+ * `positions`) to append to it: flat normals, the `given` arrays
+ * (e.g. the colors) and zeros for the other attributes.
+ */
+export function faceAttributesFor(
+	geometry: THREE.BufferGeometry,
+	positions: Float32Array,
+	given: Record<string, Float32Array> = {}
+): FaceAttributes {
+	const faces = new THREE.BufferGeometry();
+	faces.setAttribute(
+		"position",
+		new THREE.Float32BufferAttribute(positions, 3)
+	);
+	faces.computeVertexNormals();
+
+	const count = positions.length / 3;
+	const attributes: FaceAttributes = {};
+	for (const name of Object.keys(geometry.attributes)) {
+		const itemSize = geometry.getAttribute(name).itemSize;
+		const array =
+			name === "position" || name === "normal"
+				? (faces.getAttribute(name).array as Float32Array)
+				: given[name] || new Float32Array(count * itemSize);
+		attributes[name] = { itemSize, array };
+	}
+	return attributes;
+}
+
+/**
+ * Removes the last `count` faces of a non-indexed geometry
+ * (the inverse of `appendFaces`)
+ */
+export function removeLastFaces(
+	geometry: THREE.BufferGeometry,
+	count: number
+): THREE.BufferGeometry {
+	const faceCount = geometry.getAttribute("position").count / 3;
+	const faces = new Set<number>();
+	for (let face = Math.max(0, faceCount - count); face < faceCount; face++) {
+		faces.add(face);
+	}
+	return cutAwaySelection(geometry, faces);
+}
@@ -0,0 +1,429 @@
+import * as THREE from "three";
+
+const leafSize = 8;
+const direction = new THREE.Vector3();
+const triangle = new THREE.Triangle();
+const closest = new THREE.Vector3();
+
+/**
+ * Bounding volume hierarchy over the faces of a non-indexed geometry
+ * (face i uses vertices 3i..3i+2), in the local space of the geometry.
+ *
+ * Nodes are kept in flat typed arrays so a 1M triangle scan
+ * does not turn into millions of small objects.
+ */
+export class FaceBVH {
+	positions: ArrayLike<number>;
+	faceCount: number;
+	centroids: Float32Array;
+	/** face indices, grouped so every leaf owns a contiguous range */
+	faces: Uint32Array;
+	/** minX, minY, minZ, maxX, maxY, maxZ per node */
+	nodeBounds: Float32Array;
+	/** leaves: first index into `faces`; inner nodes: index of the left child (right = left + 1) */
+	nodeOffset: Uint32Array;
+	/** leaves: number of faces; inner nodes: 0 */
+	nodeCount: Uint32Array;
+
+	constructor(geometry: THREE.BufferGeometry) {
+		this.positions = geometry.getAttribute("position").array;
+		this.faceCount = geometry.getAttribute("position").count / 3;
+		const p = this.positions;
+
+		this.centroids = new Float32Array(this.faceCount * 3);
+		for (let face = 0; face < this.faceCount; face++) {
+			for (let axis = 0; axis < 3; axis++) {
+				const i = face * 9 + axis;
+				this.centroids[face * 3 + axis] = (p[i] + p[i + 3] + p[i + 6]) / 3;
+			}
+		}
+		this.faces = new Uint32Array(this.faceCount);
+		for (let face = 0; face < this.faceCount; face++) {
+			this.faces[face] = face;
+		}
+
+		// median splits never make leaves of less than leafSize / 2 faces
+		const maxNodes = Math.max(1, Math.ceil(this.faceCount / 2) + 1);
+		this.nodeBounds = new Float32Array(maxNodes * 6);
+		this.nodeOffset = new Uint32Array(maxNodes);
+		this.nodeCount = new Uint32Array(maxNodes);
+		this.build();
+	}
+
+	/**
+	 * Stack to start a traversal with, empty without faces: the root of an
+	 * empty geometry has no faces, it would read as an inner node
+	 */
+	rootStack(): number[] {
+		return this.faceCount > 0 ? [0] : [];
+	}
+
+	build() {
+		let nodes = 1;
+		// node, first face, face count
+		const stack: number[] = [0, 0, this.faceCount];
+		while (stack.length > 0) {
+			const count = stack.pop()!;
+			const start = stack.pop()!;
+			const node = stack.pop()!;
+
+			this.computeBounds(node, start, count);
+			this.nodeOffset[node] = start;
+			this.nodeCount[node] = count;
+			if (count <= leafSize) continue;
+
+			// split at the median centroid along the longest axis
+			let axis = 0;
+			let extent = -Infinity;
+			for (let a = 0; a < 3; a++) {
+				let min = Infinity;
+				let max = -Infinity;
+				for (let i = start; i < start + count; i++) {
+					const value = this.centroids[this.faces[i] * 3 + a];
+					if (value < min) min = value;
+					if (value > max) max = value;
+				}
+				if (max - min > extent) {
+					extent = max - min;
+					axis = a;
+				}
+			}
+			if (extent <= 0) continue;
+
+			const mid = start + (count >> 1);
+			this.select(start, start + count - 1, mid, axis);
+
+			const left = nodes;
+			nodes += 2;
+			this.nodeOffset[node] = left;
+			this.nodeCount[node] = 0;
+			stack.push(left, start, mid - start);
+			stack.push(left + 1, mid, start + count - mid);
+		}
+		this.nodeBounds = this.nodeBounds.slice(0, nodes * 6);
+		this.nodeOffset = this.nodeOffset.slice(0, nodes);
+		this.nodeCount = this.nodeCount.slice(0, nodes);
+	}
+
+	computeBounds(node: number, start: number, count: number) {
+		const p = this.positions;
+		const bounds = this.nodeBounds;
+		const o = node * 6;
+		bounds[o] = bounds[o + 1] = bounds[o + 2] = Infinity;
+		bounds[o + 3] = bounds[o + 4] = bounds[o + 5] = -Infinity;
+		for (let i = start; i < start + count; i++) {
+			const v = this.faces[i] * 9;
+			for (let k = 0; k < 9; k++) {
+				const axis = k % 3;
+				const value = p[v + k];
+				if (value < bounds[o + axis]) bounds[o + axis] = value;
+				if (value > bounds[o + 3 + axis]) bounds[o + 3 + axis] = value;
+			}
+		}
+	}
+
+	/**
+	 * Partially sorts faces[left..right] (quickselect) so that faces[k]
+	 * has the k-th smallest centroid along `axis`
+	 */
+	select(left: number, right: number, k: number, axis: number) {
+		const faces = this.faces;
+		const key = (i: number) => this.centroids[faces[i] * 3 + axis];
+		while (left < right) {
+			const pivot = key((left + right) >> 1);
+			let i = left;
+			let j = right;
+			while (i <= j) {
+				while (key(i) < pivot) i++;
+				while (key(j) > pivot) j--;
+				if (i <= j) {
+					const swap = faces[i];
+					faces[i] = faces[j];
+					faces[j] = swap;
+					i++;
+					j--;
+				}
+			}
+			if (k <= j) right = j;
+			else if (k >= i) left = i;
+			else return;
+		}
+	}
+
+	/**
+	 * Closest face hit by the ray within `maxDistance` (in units of `direction`),
+	 * both sides of the faces count.
+	 * With `anyHit` the first hit found is returned, which is enough
+	 * to tell if something is in the way.
+	 */
+	raycast(
+		origin: THREE.Vector3,
+		direction: THREE.Vector3,
+		maxDistance = Infinity,
+		anyHit = false,
+		ignoreFace = -1
+	): { face: number; distance: number } | null {
+		const p = this.positions;
+		const bounds = this.nodeBounds;
+		const ox = origin.x;
+		const oy = origin.y;
+		const oz = origin.z;
+		const dx = direction.x;
+		const dy = direction.y;
+		const dz = direction.z;
+		const ix = 1 / dx;
+		const iy = 1 / dy;
+		const iz = 1 / dz;
+
+		let best = maxDistance;
+		let bestFace = -1;
+		const stack = this.rootStack();
+		while (stack.length > 0) {
+			const node = stack.pop()!;
+			const o = node * 6;
+
+			// slab test
+			let t1 = (bounds[o] - ox) * ix;
+			let t2 = (bounds[o + 3] - ox) * ix;
+			let tmin = Math.min(t1, t2);
+			let tmax = Math.max(t1, t2);
+			t1 = (bounds[o + 1] - oy) * iy;
+			t2 = (bounds[o + 4] - oy) * iy;
+			tmin = Math.max(tmin, Math.min(t1, t2));
+			tmax = Math.min(tmax, Math.max(t1, t2));
+			t1 = (bounds[o + 2] - oz) * iz;
+			t2 = (bounds[o + 5] - oz) * iz;
+			tmin = Math.max(tmin, Math.min(t1, t2));
+			tmax = Math.min(tmax, Math.max(t1, t2));
+			// NaN (ray in the plane of a slab) counts as a hit
+			if (tmax < Math.max(tmin, 0) || tmin > best) continue;
+
+			const count = this.nodeCount[node];
+			if (count === 0) {
+				stack.push(this.nodeOffset[node], this.nodeOffset[node] + 1);
+				continue;
+			}
+
+			const start = this.nodeOffset[node];
+			for (let i = start; i < start + count; i++) {
+				const face = this.faces[i];
+				if (face === ignoreFace) continue;
+				const v = face * 9;
+				// Möller-Trumbore
+				const e1x = p[v + 3] - p[v];
+				const e1y = p[v + 4] - p[v + 1];
+				const e1z = p[v + 5] - p[v + 2];
+				const e2x = p[v + 6] - p[v];
+				const e2y = p[v + 7] - p[v + 1];
+				const e2z = p[v + 8] - p[v + 2];
+				const px = dy * e2z - dz * e2y;
+				const py = dz * e2x - dx * e2z;
+				const pz = dx * e2y - dy * e2x;
+				const det = e1x * px + e1y * py + e1z * pz;
+				if (Math.abs(det) < 1e-12) continue;
+				const inv = 1 / det;
+				const sx = ox - p[v];
+				const sy = oy - p[v + 1];
+				const sz = oz - p[v + 2];
+				const u = (sx * px + sy * py + sz * pz) * inv;
+				if (u < 0 || u > 1) continue;
+				const qx = sy * e1z - sz * e1y;
+				const qy = sz * e1x - sx * e1z;
+				const qz = sx * e1y - sy * e1x;
+				const w = (dx * qx + dy * qy + dz * qz) * inv;
+				if (w < 0 || u + w > 1) continue;
+				const t = (e2x * qx + e2y * qy + e2z * qz) * inv;
+				if (t > 0 && t < best) {
+					best = t;
+					bestFace = face;
+					if (anyHit) return { face, distance: t };
+				}
+			}
+		}
+		return bestFace === -1 ? null : { face: bestFace, distance: best };
+	}
+
+	/**
+	 * Whether the face turns towards `eye` and no other face
+	 * is in between (`eye` in local space)
+	 */
+	isVisibleFrom(face: number, eye: THREE.Vector3): boolean {
+		const p = this.positions;
+		const v = face * 9;
+		const e1x = p[v + 3] - p[v];
+		const e1y = p[v + 4] - p[v + 1];
+		const e1z = p[v + 5] - p[v + 2];
+		const e2x = p[v + 6] - p[v];
+		const e2y = p[v + 7] - p[v + 1];
+		const e2z = p[v + 8] - p[v + 2];
+		const toFace = direction.fromArray(this.centroids, face * 3).sub(eye);
+		const facing =
+			(e1y * e2z - e1z * e2y) * toFace.x +
+			(e1z * e2x - e1x * e2z) * toFace.y +
+			(e1x * e2y - e1y * e2x) * toFace.z;
+		if (facing >= 0) return false;
+
+		const distance = toFace.length();
+		toFace.divideScalar(distance);
+		return !this.raycast(eye, toFace, distance * (1 - 1e-4), true, face);
+	}
+
+	/**
+	 * Calls `visit` with the faces of all leaves whose bounds pass `test`,
+	 * inner nodes failing the test are skipped with all their children.
+	 * `test` gets the bounds array and the offset of the node in it.
+	 */
+	traverse(
+		test: (bounds: Float32Array, offset: number) => boolean,
+		visit: (face: number) => void
+	) {
+		const stack = this.rootStack();
+		while (stack.length > 0) {
+			const node = stack.pop()!;
+			if (!test(this.nodeBounds, node * 6)) continue;
+
+			const count = this.nodeCount[node];
+			if (count === 0) {
+				stack.push(this.nodeOffset[node], this.nodeOffset[node] + 1);
+				continue;
+			}
+			const start = this.nodeOffset[node];
+			for (let i = start; i < start + count; i++) {
+				visit(this.faces[i]);
+			}
+		}
+	}
+
+	/**
+	 * Closest point of the surface to `point` within `maxDistance`,
+	 * written to `target`
+	 */
+	closestPoint(
+		point: THREE.Vector3,
+		target: THREE.Vector3,
+		maxDistance = Infinity
+	): { face: number; distance: number } | null {
+		const bounds = this.nodeBounds;
+		const p = this.positions;
+		let bestSq = maxDistance * maxDistance;
+		let bestFace = -1;
+		const stack = this.rootStack();
+		while (stack.length > 0) {
+			const node = stack.pop()!;
+			const o = node * 6;
+			if (boxDistanceSq(bounds, o, point) > bestSq) continue;
+
+			const count = this.nodeCount[node];
+			if (count === 0) {
+				// the nearer child is popped first
+				const left = this.nodeOffset[node];
+				const right = left + 1;
+				if (
+					boxDistanceSq(bounds, left * 6, point) <
+					boxDistanceSq(bounds, right * 6, point)
+				) {
+					stack.push(right, left);
+				} else {
+					stack.push(left, right);
+				}
+				continue;
+			}
+			const start = this.nodeOffset[node];
+			for (let i = start; i < start + count; i++) {
+				const face = this.faces[i];
+				const v = face * 9;
+				triangle.a.set(p[v], p[v + 1], p[v + 2]);
+				triangle.b.set(p[v + 3], p[v + 4], p[v + 5]);
+				triangle.c.set(p[v + 6], p[v + 7], p[v + 8]);
+				triangle.closestPointToPoint(point, closest);
+				const distanceSq = closest.distanceToSquared(point);
+				if (distanceSq < bestSq) {
+					bestSq = distanceSq;
+					bestFace = face;
+					target.copy(closest);
+				}
+			}
+		}
+		return bestFace === -1
+			? null
+			: { face: bestFace, distance: Math.sqrt(bestSq) };
+	}
+
+	/**
+	 * Faces whose centroid lies within `radius` of `center`
+	 */
+	facesInSphere(center: THREE.Vector3, radius: number, out: number[] = []) {
+		const bounds = this.nodeBounds;
+		const radiusSq = radius * radius;
+		const c = [center.x, center.y, center.z];
+		const stack = this.rootStack();
+		while (stack.length > 0) {
+			const node = stack.pop()!;
+			const o = node * 6;
+
+			let distSq = 0;
+			for (let axis = 0; axis < 3; axis++) {
+				const d = Math.max(
+					bounds[o + axis] - c[axis],
+					0,
+					c[axis] - bounds[o + 3 + axis]
+				);
+				distSq += d * d;
+			}
+			if (distSq > radiusSq) continue;
+
+			const count = this.nodeCount[node];
+			if (count === 0) {
+				stack.push(this.nodeOffset[node], this.nodeOffset[node] + 1);
+				continue;
+			}
+			const start = this.nodeOffset[node];
+			for (let i = start; i < start + count; i++) {
+				const face = this.faces[i];
+				const dx = this.centroids[face * 3] - c[0];
+				const dy = this.centroids[face * 3 + 1] - c[1];
+				const dz = this.centroids[face * 3 + 2] - c[2];
+				if (dx * dx + dy * dy + dz * dz <= radiusSq) out.push(face);
+			}
+		}
+		return out;
+	}
+}
+
+function boxDistanceSq(
+	bounds: Float32Array,
+	offset: number,
+	point: THREE.Vector3
+) {
+	const dx = Math.max(
+		bounds[offset] - point.x,
+		0,
+		point.x - bounds[offset + 3]
+	);
+	const dy = Math.max(
+		bounds[offset + 1] - point.y,
+		0,
+		point.y - bounds[offset + 4]
+	);
+	const dz = Math.max(
+		bounds[offset + 2] - point.z,
+		0,
+		point.z - bounds[offset + 5]
+	);
+	return dx * dx + dy * dy + dz * dz;
+}
+
+const cache = new WeakMap<THREE.BufferGeometry, FaceBVH>();
+
+/**
+ * BVH of a geometry, built on first use.
+ * Edits replace the geometry, so a cached tree never goes stale.
+ */
+export function getFaceBVH(geometry: THREE.BufferGeometry): FaceBVH {
+	let bvh = cache.get(geometry);
+	if (!bvh) {
+		bvh = new FaceBVH(geometry);
+		cache.set(geometry, bvh);
+	}
+	return bvh;
+}
@@ -0,0 +1,296 @@
+import * as THREE from "three";
+import { weldVertices } from "./topology";
+
+/**
+ * Indexed triangle mesh with half-edge connectivity.
+ *
+ * Face f is made of the half-edges 3f, 3f + 1 and 3f + 2 (in winding order),
+ * which are also the corners of face f in the non-indexed geometry it was
+ * built from, so face indices (e.g. a selection) carry over as they are.
+ * A half-edge starts at `origins[h]` and ends where the next one starts.
+ */
+export class HalfEdgeMesh {
+	/** x, y, z of every vertex */
+	positions: Float32Array;
+	/** r, g, b of every vertex, if the geometry had colors */
+	colors: Float32Array | null;
+	/** vertex every half-edge starts from */
+	origins: Uint32Array;
+	/**
+	 * the half-edge running the other way along the same edge,
+	 * -1 on boundaries and on edges that are not shared by exactly two
+	 * consistently oriented faces
+	 */
+	twins: Int32Array;
+	/** half-edges on edges shared by more than two faces */
+	nonManifoldEdges: number[] = [];
+	// outgoing half-edges of vertex v are
+	// outgoing[outgoingStart[v]] .. outgoing[outgoingStart[v + 1] - 1]
+	outgoingStart: Uint32Array;
+	outgoing: Uint32Array;
+
+	constructor(
+		positions: Float32Array,
+		origins: Uint32Array,
+		colors: Float32Array | null = null
+	) {
+		this.positions = positions;
+		this.origins = origins;
+		this.colors = colors;
+
+		const vertexCount = positions.length / 3;
+		this.outgoingStart = new Uint32Array(vertexCount + 1);
+		for (const vertex of origins) this.outgoingStart[vertex + 1]++;
+		for (let v = 0; v < vertexCount; v++) {
+			this.outgoingStart[v + 1] += this.outgoingStart[v];
+		}
+		this.outgoing = new Uint32Array(origins.length);
+		const filled = this.outgoingStart.slice(0, vertexCount);
+		origins.forEach((vertex, halfEdge) => {
+			this.outgoing[filled[vertex]++] = halfEdge;
+		});
+
+		this.twins = new Int32Array(origins.length).fill(-1);
+		for (let h = 0; h < origins.length; h++) {
+			const from = origins[h];
+			const to = this.target(h);
+			if (from === to) continue;
+			let faces = 0;
+			let twin = -1;
+			let backward = 0;
+			for (const other of this.outgoingHalfEdges(from)) {
+				if (this.target(other) === to) faces++;
+			}
+			for (const other of this.outgoingHalfEdges(to)) {
+				if (this.target(other) === from) {
+					twin = other;
+					backward++;
+				}
+			}
+			faces += backward;
+			if (faces > 2) {
+				this.nonManifoldEdges.push(h);
+			} else if (faces === 2 && backward === 1) {
+				this.twins[h] = twin;
+			}
+		}
+	}
+
+	/**
+	 * Welds the corners of a non-indexed geometry that round to the same
+	 * point of a `tolerance` grid into shared vertices (see `weldVertices`)
+	 */
+	static fromGeometry(
+		geometry: THREE.BufferGeometry,
+		tolerance = 1e-5
+	): HalfEdgeMesh {
+		if (geometry.index) {
+			throw new Error("Geometry must be non-indexed for this method.");
+		}
+		const { vertexCount, corners } = weldVertices(geometry, tolerance);
+		const position = geometry.getAttribute("position");
+		const color = geometry.getAttribute("color");
+		const positions = new Float32Array(vertexCount * 3);
+		const colors = color ? new Float32Array(vertexCount * 3) : null;
+		// every vertex takes the values of its first corner
+		for (let corner = corners.length - 1; corner >= 0; corner--) {
+			const vertex = corners[corner];
+			positions[vertex * 3] = position.getX(corner);
+			positions[vertex * 3 + 1] = position.getY(corner);
+			positions[vertex * 3 + 2] = position.getZ(corner);
+			if (colors) {
+				colors[vertex * 3] = color.getX(corner);
+				colors[vertex * 3 + 1] = color.getY(corner);
+				colors[vertex * 3 + 2] = color.getZ(corner);
+			}
+		}
+		return new HalfEdgeMesh(positions, corners, colors);
+	}
+
+	/**
+	 * Non-indexed geometry (the layout every tool works on) with flat normals,
+	 * or an indexed one sharing the vertices
+	 */
+	toGeometry({ indexed = false } = {}): THREE.BufferGeometry {
+		const geometry = new THREE.BufferGeometry();
+		if (indexed) {
+			geometry.setAttribute(
+				"position",
+				new THREE.Float32BufferAttribute(this.positions.slice(), 3)
+			);
+			if (this.colors) {
+				geometry.setAttribute(
+					"color",
+					new THREE.Float32BufferAttribute(this.colors.slice(), 3)
+				);
+			}
+			geometry.setIndex(
+				new THREE.Uint32BufferAttribute(this.origins.slice(), 1)
+			);
+			geometry.computeVertexNormals();
+			return geometry;
+		}
+
+		const positions = new Float32Array(this.origins.length * 3);
+		const colors = this.colors
+			? new Float32Array(this.origins.length * 3)
+			: null;
+		this.origins.forEach((vertex, corner) => {
+			positions.set(
+				this.positions.subarray(vertex * 3, vertex * 3 + 3),
+				corner * 3
+			);
+			colors?.set(
+				this.colors!.subarray(vertex * 3, vertex * 3 + 3),
+				corner * 3
+			);
+		});
+		geometry.setAttribute(
+			"position",
+			new THREE.Float32BufferAttribute(positions, 3)
+		);
+		if (colors) {
+			geometry.setAttribute(
+				"color",
+				new THREE.Float32BufferAttribute(colors, 3)
+			);
+		}
+		geometry.computeVertexNormals();
+		return geometry;
+	}
+
+	get vertexCount() {
+		return this.positions.length / 3;
+	}
+
+	get faceCount() {
+		return this.origins.length / 3;
+	}
+
+	face(halfEdge: number) {
+		return Math.floor(halfEdge / 3);
+	}
+
+	next(halfEdge: number) {
+		return halfEdge % 3 === 2 ? halfEdge - 2 : halfEdge + 1;
+	}
+
+	prev(halfEdge: number) {
+		return halfEdge % 3 === 0 ? halfEdge + 2 : halfEdge - 1;
+	}
+
+	/** vertex the half-edge ends at */
+	target(halfEdge: number) {
+		return this.origins[this.next(halfEdge)];
+	}
+
+	isBoundary(halfEdge: number) {
+		return this.twins[halfEdge] === -1;
+	}
+
+	vertexPosition(vertex: number, target = new THREE.Vector3()) {
+		return target.fromArray(this.positions, vertex * 3);
+	}
+
+	faceVertices(face: number): [number, number, number] {
+		const o = this.origins;
+		return [o[face * 3], o[face * 3 + 1], o[face * 3 + 2]];
+	}
+
+	/** half-edges starting at the vertex */
+	outgoingHalfEdges(vertex: number): Uint32Array {
+		return this.outgoing.subarray(
+			this.outgoingStart[vertex],
+			this.outgoingStart[vertex + 1]
+		);
+	}
+
+	/** faces sharing an edge with the face */
+	faceNeighbors(face: number): number[] {
+		const neighbors: number[] = [];
+		for (let h = face * 3; h < face * 3 + 3; h++) {
+			if (this.twins[h] !== -1) neighbors.push(this.face(this.twins[h]));
+		}
+		return neighbors;
+	}
+
+	/** faces around the vertex */
+	vertexFaces(vertex: number): number[] {
+		return Array.from(this.outgoingHalfEdges(vertex), (h) => this.face(h));
+	}
+
+	/** vertices sharing an edge with the vertex */
+	vertexNeighbors(vertex: number): number[] {
+		const neighbors = new Set<number>();
+		for (const h of this.outgoingHalfEdges(vertex)) {
+			// the edge leaving and the edge arriving within the face
+			neighbors.add(this.target(h));
+			neighbors.add(this.origins[this.prev(h)]);
+		}
+		neighbors.delete(vertex);
+		return [...neighbors];
+	}
+
+	/**
+	 * The edge of the half-edge belongs to its face only
+	 * (a boundary of the surface, rather than an edge of badly oriented
+	 * or non-manifold faces)
+	 */
+	isOpenEdge(halfEdge: number): boolean {
+		const from = this.origins[halfEdge];
+		const to = this.target(halfEdge);
+		if (!this.isBoundary(halfEdge) || from === to) return false;
+		for (const other of this.outgoingHalfEdges(from)) {
+			if (other !== halfEdge && this.target(other) === to) return false;
+		}
+		for (const other of this.outgoingHalfEdges(to)) {
+			if (this.target(other) === from) return false;
+		}
+		return true;
+	}
+
+	isBoundaryVertex(vertex: number): boolean {
+		for (const h of this.outgoingHalfEdges(vertex)) {
+			if (this.isBoundary(h) || this.isBoundary(this.prev(h))) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * The boundaries of the surface (holes and open borders of the scan),
+	 * as loops of boundary half-edges that follow each other
+	 */
+	boundaryLoops(): number[][] {
+		const used = new Uint8Array(this.origins.length);
+		const loops: number[][] = [];
+		for (let start = 0; start < this.origins.length; start++) {
+			if (used[start] || !this.isOpenEdge(start)) continue;
+			const loop: number[] = [];
+			let h = start;
+			while (h !== -1 && !used[h]) {
+				used[h] = 1;
+				loop.push(h);
+				const candidates = this.outgoingHalfEdges(this.target(h));
+				h = candidates.find((c) => !used[c] && this.isOpenEdge(c)) ?? -1;
+			}
+			// loops that do not close (pinched boundaries) are kept as they are
+			loops.push(loop);
+		}
+		return loops;
+	}
+}
+
+const cache = new WeakMap<THREE.BufferGeometry, HalfEdgeMesh>();
+
+/**
+ * Half-edge mesh of a geometry, built on first use
+ * (edits replace the geometry, see getFaceBVH)
+ */
+export function getHalfEdgeMesh(geometry: THREE.BufferGeometry): HalfEdgeMesh {
+	let mesh = cache.get(geometry);
+	if (!mesh) {
+		mesh = HalfEdgeMesh.fromGeometry(geometry);
+		cache.set(geometry, mesh);
+	}
+	return mesh;
+}
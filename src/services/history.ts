@@ -0,0 +1,177 @@
+import { makeAutoObservable, observable } from "mobx";
+
+/** vertex attributes of a list of faces (3 vertices per face) */
+export type FaceAttributes = {
+	[name: string]: { itemSize: number; array: Float32Array };
+};
+
+/**
+ * Vertex data of the faces removed by a cut, so the cut can be undone
+ * without keeping a full copy of the geometry.
+ * `faces` is sorted and refers to the face indices *before* the cut.
+ */
+export interface FaceDiff {
+	faces: Uint32Array;
+	attributes: FaceAttributes;
+}
+
+interface BaseHistoryEntry {
+	label: string;
+	/** id of the SceneModel the entry applies to */
+	modelId: number;
+}
+
+export interface CutHistoryEntry extends BaseHistoryEntry {
+	kind: "cut";
+	diff: FaceDiff;
+}
+
+/**
+ * The faces of `diff` are removed and `added` (e.g. the kept parts of the
+ * faces crossed by a plane cut and its cap, or repaired faces) is appended
+ * at the end of the geometry
+ */
+export interface ReplaceFacesHistoryEntry extends BaseHistoryEntry {
+	kind: "replace-faces";
+	diff: FaceDiff;
+	added: FaceAttributes;
+	/** selection before the change, face indices change so it is cleared */
+	selection: Uint32Array;
+}
+
+/**
+ * Faces made by a tool (hole patches, the inner wall of a shell...)
+ * appended at the end of the geometry
+ */
+export interface AddFacesHistoryEntry extends BaseHistoryEntry {
+	kind: "add-faces";
+	added: FaceAttributes;
+}
+
+export interface SelectionHistoryEntry extends BaseHistoryEntry {
+	kind: "selection";
+	added: Uint32Array;
+	removed: Uint32Array;
+}
+
+export interface TransformHistoryEntry extends BaseHistoryEntry {
+	kind: "transform";
+	/** column-major 4x4 matrices of the mesh */
+	before: number[];
+	after: number[];
+}
+
+export type HistoryEntry =
+	| CutHistoryEntry
+	| ReplaceFacesHistoryEntry
+	| AddFacesHistoryEntry
+	| SelectionHistoryEntry
+	| TransformHistoryEntry;
+
+export function historyEntrySize(entry: HistoryEntry): number {
+	switch (entry.kind) {
+		case "cut":
+			return Object.values(entry.diff.attributes).reduce(
+				(size, attribute) => size + attribute.array.byteLength,
+				entry.diff.faces.byteLength
+			);
+		case "replace-faces":
+			return Object.values(entry.added).reduce(
+				(size, attribute) => size + attribute.array.byteLength,
+				historyEntrySize({ ...entry, kind: "cut" }) + entry.selection.byteLength
+			);
+		case "add-faces":
+			return Object.values(entry.added).reduce(
+				(size, attribute) => size + attribute.array.byteLength,
+				0
+			);
+		case "selection":
+			return entry.added.byteLength + entry.removed.byteLength;
+		case "transform":
+			return 32 * 8;
+	}
+}
+
+/**
+ * Linear undo/redo stack.
+ * Entries before `cursor` are applied, entries after it can be redone.
+ * When the entries exceed `maxBytes` the oldest ones are dropped.
+ */
+export class History {
+	entries: HistoryEntry[] = [];
+	cursor = 0;
+	maxBytes: number;
+
+	constructor(maxBytes = 256 * 1024 * 1024) {
+		this.maxBytes = maxBytes;
+		makeAutoObservable(this, { entries: observable.shallow });
+	}
+
+	get canUndo() {
+		return this.cursor > 0;
+	}
+
+	get canRedo() {
+		return this.cursor < this.entries.length;
+	}
+
+	get bytes() {
+		return this.entries.reduce(
+			(size, entry) => size + historyEntrySize(entry),
+			0
+		);
+	}
+
+	push(entry: HistoryEntry) {
+		// a new operation discards whatever could have been redone
+		this.entries.splice(this.cursor);
+		this.entries.push(entry);
+		this.cursor = this.entries.length;
+
+		let bytes = this.bytes;
+		while (bytes > this.maxBytes && this.entries.length > 1) {
+			bytes -= historyEntrySize(this.entries.shift()!);
+			this.cursor--;
+		}
+	}
+
+	/** returns the entry that should be reverted */
+	undo(): HistoryEntry | null {
+		if (!this.canUndo) {
+			return null;
+		}
+		this.cursor--;
+		return this.entries[this.cursor];
+	}
+
+	/** returns the entry that should be re-applied */
+	redo(): HistoryEntry | null {
+		if (!this.canRedo) {
+			return null;
+		}
+		this.cursor++;
+		return this.entries[this.cursor - 1];
+	}
+
+	clear() {
+		this.entries = [];
+		this.cursor = 0;
+	}
+
+	/** drops the entries of a model that was removed from the scene */
+	removeModel(modelId: number) {
+		const applied = this.entries
+			.slice(0, this.cursor)
+			.filter((entry) => entry.modelId !== modelId);
+		const undone = this.entries
+			.slice(this.cursor)
+			.filter((entry) => entry.modelId !== modelId);
+		this.entries = [...applied, ...undone];
+		this.cursor = applied.length;
+	}
+
+	restore(entries: HistoryEntry[], cursor: number) {
+		this.entries = entries;
+		this.cursor = Math.min(cursor, entries.length);
+	}
+}
@@ -0,0 +1,419 @@
+import * as THREE from "three";
+import { faceAttributesFor } from "./cut_selection";
+import { getHalfEdgeMesh, type HalfEdgeMesh } from "./half_edge_mesh";
+import type { FaceAttributes } from "./history";
+
+/**
+ * A closed boundary loop of the surface: a hole the scanner missed,
+ * the opening left by a cut, or the open border of the scan itself
+ */
+export interface Hole {
+	/** vertices of the half-edge mesh, in the order of the boundary */
+	vertices: number[];
+	/** boundary half-edges, `halfEdges[i]` runs from `vertices[i]` to the next one */
+	halfEdges: number[];
+	/** length of the boundary in mm */
+	perimeter: number;
+	/** mean of the boundary vertices, in the local space of the geometry */
+	center: number[];
+}
+
+/** larger holes are triangulated by ear clipping rather than by optimization */
+const maxOptimizedVertices = 200;
+/** refinement stops adding vertices to a patch past this */
+const maxPatchVertices = 20000;
+
+/**
+ * The holes of a geometry, sorted by increasing perimeter
+ */
+export function findHoles(geometry: THREE.BufferGeometry): Hole[] {
+	const mesh = getHalfEdgeMesh(geometry);
+	const a = new THREE.Vector3();
+	const b = new THREE.Vector3();
+	const holes: Hole[] = [];
+	for (const loop of mesh.boundaryLoops()) {
+		const last = loop[loop.length - 1];
+		if (loop.length < 3 || mesh.target(last) !== mesh.origins[loop[0]]) {
+			continue;
+		}
+		const vertices = loop.map((h) => mesh.origins[h]);
+		let perimeter = 0;
+		const center = new THREE.Vector3();
+		for (const h of loop) {
+			mesh.vertexPosition(mesh.origins[h], a);
+			mesh.vertexPosition(mesh.target(h), b);
+			perimeter += a.distanceTo(b);
+			center.add(a);
+		}
+		center.divideScalar(loop.length);
+		holes.push({
+			vertices,
+			halfEdges: loop,
+			perimeter,
+			center: center.toArray(),
+		});
+	}
+	return holes.sort((x, y) => x.perimeter - y.perimeter);
+}
+
+/**
+ * Faces that close the holes (to be appended to the geometry).
+ * `colors` overrides the color attribute (e.g. to ignore the selection highlight).
+ */
+export function fillHoles(
+	geometry: THREE.BufferGeometry,
+	holes: Hole[],
+	colors?: Float32Array
+): FaceAttributes {
+	const mesh = getHalfEdgeMesh(geometry);
+	const colorAttr = geometry.getAttribute("color");
+	const sourceColors = colors || (colorAttr?.array as Float32Array);
+
+	const positions: number[] = [];
+	const newColors: number[] = [];
+	for (const hole of holes) {
+		const patch = fillHole(mesh, hole);
+
+		// the patch takes the mean color of its boundary
+		const color = [0, 0, 0];
+		if (sourceColors) {
+			for (const h of hole.halfEdges) {
+				// half-edge h is also corner h of the geometry
+				for (let k = 0; k < 3; k++) color[k] += sourceColors[h * 3 + k];
+			}
+			for (let k = 0; k < 3; k++) color[k] /= hole.halfEdges.length;
+		}
+
+		for (const triangle of patch.triangles) {
+			for (const vertex of triangle) {
+				positions.push(...patch.positions[vertex].toArray());
+				newColors.push(...color);
+			}
+		}
+	}
+
+	return faceAttributesFor(geometry, Float32Array.from(positions), {
+		color: Float32Array.from(newColors),
+	});
+}
+
+interface Patch {
+	/** boundary vertices of the hole first, then the added ones */
+	positions: THREE.Vector3[];
+	/** wound like the faces around the hole */
+	triangles: number[][];
+}
+
+/**
+ * Closes one hole following Liepa ("Filling holes in meshes", 2003):
+ * a triangulation of the boundary that minimizes the dihedral angles,
+ * refined to the density of the surrounding mesh,
+ * then faired so it continues the curvature of the surface around it.
+ */
+function fillHole(mesh: HalfEdgeMesh, hole: Hole): Patch {
+	const positions = hole.vertices.map((v) => mesh.vertexPosition(v));
+	const triangles =
+		hole.vertices.length <= maxOptimizedVertices
+			? triangulateHole(mesh, hole, positions)
+			: earClipHole(positions);
+
+	// average length of the edges around each boundary vertex
+	const scales = hole.vertices.map((vertex, i) => {
+		const neighbors = mesh.vertexNeighbors(vertex);
+		return (
+			neighbors.reduce(
+				(sum, n) => sum + positions[i].distanceTo(mesh.vertexPosition(n)),
+				0
+			) / Math.max(1, neighbors.length)
+		);
+	});
+
+	refinePatch(positions, scales, triangles);
+	fairPatch(mesh, hole, positions, triangles);
+	return { positions, triangles };
+}
+
+/**
+ * Minimum weight triangulation of the boundary polygon (dynamic programming),
+ * the weight being the largest dihedral angle and then the area
+ */
+function triangulateHole(
+	mesh: HalfEdgeMesh,
+	hole: Hole,
+	p: THREE.Vector3[]
+): number[][] {
+	const n = p.length;
+	// normals of the faces along the boundary
+	const boundaryNormals = hole.halfEdges.map((h) =>
+		faceNormal(mesh, mesh.face(h))
+	);
+
+	const angle = new Float64Array(n * n);
+	const area = new Float64Array(n * n);
+	const best = new Int32Array(n * n).fill(-1);
+	// normal of the triangle chosen for (i, k)
+	const normals: (THREE.Vector3 | null)[] = new Array(n * n).fill(null);
+
+	const ab = new THREE.Vector3();
+	const ac = new THREE.Vector3();
+	const dihedral = (normal: THREE.Vector3, other: THREE.Vector3 | null) =>
+		other ? Math.acos(THREE.MathUtils.clamp(normal.dot(other), -1, 1)) : 0;
+
+	for (let length = 2; length < n; length++) {
+		for (let i = 0; i + length < n; i++) {
+			const k = i + length;
+			let bestAngle = Infinity;
+			let bestArea = Infinity;
+			for (let m = i + 1; m < k; m++) {
+				// wound (i, k, m) so the boundary edges run against the mesh
+				ab.subVectors(p[k], p[i]);
+				ac.subVectors(p[m], p[i]);
+				const normal = ab.cross(ac);
+				const triangleArea = normal.length() / 2;
+				if (triangleArea > 0) normal.normalize();
+
+				let worst = Math.max(angle[i * n + m], angle[m * n + k]);
+				if (triangleArea === 0) {
+					worst = Math.PI;
+				} else {
+					worst = Math.max(
+						worst,
+						dihedral(
+							normal,
+							m === i + 1 ? boundaryNormals[i] : normals[i * n + m]
+						),
+						dihedral(
+							normal,
+							k === m + 1 ? boundaryNormals[m] : normals[m * n + k]
+						),
+						i === 0 && k === n - 1 ? dihedral(normal, boundaryNormals[k]) : 0
+					);
+				}
+				const totalArea = area[i * n + m] + area[m * n + k] + triangleArea;
+				if (
+					worst < bestAngle - 1e-9 ||
+					(Math.abs(worst - bestAngle) <= 1e-9 && totalArea < bestArea)
+				) {
+					bestAngle = worst;
+					bestArea = totalArea;
+					best[i * n + k] = m;
+					normals[i * n + k] = normal.clone();
+				}
+			}
+			angle[i * n + k] = bestAngle;
+			area[i * n + k] = bestArea;
+		}
+	}
+
+	const triangles: number[][] = [];
+	const stack = [[0, n - 1]];
+	while (stack.length > 0) {
+		const [i, k] = stack.pop()!;
+		if (k - i < 2) continue;
+		const m = best[i * n + k];
+		triangles.push([i, k, m]);
+		stack.push([i, m], [m, k]);
+	}
+	return triangles;
+}
+
+/**
+ * Triangulation of large holes, in the plane that fits the boundary best
+ */
+function earClipHole(p: THREE.Vector3[]): number[][] {
+	// Newell's method: the normal of the polygon
+	const normal = new THREE.Vector3();
+	for (let i = 0; i < p.length; i++) {
+		const a = p[i];
+		const b = p[(i + 1) % p.length];
+		normal.x += (a.y - b.y) * (a.z + b.z);
+		normal.y += (a.z - b.z) * (a.x + b.x);
+		normal.z += (a.x - b.x) * (a.y + b.y);
+	}
+	normal.normalize();
+	const u = new THREE.Vector3(1, 0, 0);
+	if (Math.abs(normal.x) > 0.9) u.set(0, 1, 0);
+	u.projectOnPlane(normal).normalize();
+	const v = new THREE.Vector3().crossVectors(normal, u);
+
+	const contour = p.map(
+		(point) => new THREE.Vector2(point.dot(u), point.dot(v))
+	);
+	const clockwise = THREE.ShapeUtils.isClockWise(contour);
+	return THREE.ShapeUtils.triangulateShape(contour, []).map(([a, b, c]) => {
+		const ab = contour[b].clone().sub(contour[a]);
+		const ac = contour[c].clone().sub(contour[a]);
+		// same winding as the boundary loop reversed
+		return ab.cross(ac) > 0 === clockwise ? [a, b, c] : [a, c, b];
+	});
+}
+
+/**
+ * Splits the triangles that are larger than the edges around them
+ * at their centroid and swaps edges to keep them well shaped
+ */
+function refinePatch(
+	positions: THREE.Vector3[],
+	scales: number[],
+	triangles: number[][]
+) {
+	const density = Math.SQRT2;
+	const centroid = new THREE.Vector3();
+	for (let pass = 0; pass < 50; pass++) {
+		let split = false;
+		const count = triangles.length;
+		for (let t = 0; t < count; t++) {
+			if (positions.length >= maxPatchVertices) break;
+			const [a, b, c] = triangles[t];
+			centroid
+				.copy(positions[a])
+				.add(positions[b])
+				.add(positions[c])
+				.divideScalar(3);
+			const scale = (scales[a] + scales[b] + scales[c]) / 3;
+			const large = [a, b, c].every((vertex) => {
+				const d = density * centroid.distanceTo(positions[vertex]);
+				return d > scale && d > scales[vertex];
+			});
+			if (!large) continue;
+
+			const added = positions.length;
+			positions.push(centroid.clone());
+			scales.push(scale);
+			triangles[t] = [a, b, added];
+			triangles.push([b, c, added], [c, a, added]);
+			split = true;
+		}
+		relaxEdges(positions, triangles);
+		if (!split) break;
+	}
+}
+
+/**
+ * Swaps the inner edges whose opposite angles add up to more than 180°
+ * (Delaunay criterion)
+ */
+function relaxEdges(positions: THREE.Vector3[], triangles: number[][]) {
+	const key = (a: number, b: number) =>
+		a < b ? a * positions.length + b : b * positions.length + a;
+	const angleAt = (apex: number, a: number, b: number) =>
+		positions[a]
+			.clone()
+			.sub(positions[apex])
+			.angleTo(positions[b].clone().sub(positions[apex]));
+
+	for (let pass = 0; pass < 20; pass++) {
+		const edges = new Map<number, number[]>();
+		triangles.forEach((triangle, t) => {
+			for (let i = 0; i < 3; i++) {
+				const k = key(triangle[i], triangle[(i + 1) % 3]);
+				if (!edges.has(k)) edges.set(k, []);
+				edges.get(k)!.push(t);
+			}
+		});
+
+		let swapped = false;
+		const touched = new Set<number>();
+		for (const [edge, shared] of edges) {
+			if (shared.length !== 2 || shared.some((t) => touched.has(t))) continue;
+			const [t0, t1] = shared;
+			const first = triangles[t0];
+			// the edge as it runs in the first triangle: a -> b, c opposite
+			const i = first.findIndex(
+				(vertex, j) => key(vertex, first[(j + 1) % 3]) === edge
+			);
+			const a = first[i];
+			const b = first[(i + 1) % 3];
+			const c = first[(i + 2) % 3];
+			const d = triangles[t1].find((vertex) => vertex !== a && vertex !== b)!;
+			if (edges.has(key(c, d))) continue;
+			if (angleAt(c, a, b) + angleAt(d, a, b) <= Math.PI + 1e-9) continue;
+
+			triangles[t0] = [c, a, d];
+			triangles[t1] = [d, b, c];
+			touched.add(t0);
+			touched.add(t1);
+			swapped = true;
+		}
+		if (!swapped) break;
+	}
+}
+
+/**
+ * Moves the added vertices so the bi-Laplacian (umbrella operator applied
+ * twice) vanishes, with the surface around the hole held in place:
+ * the patch meets the surface with matching slope instead of a crease
+ */
+function fairPatch(
+	mesh: HalfEdgeMesh,
+	hole: Hole,
+	positions: THREE.Vector3[],
+	triangles: number[][]
+) {
+	const boundaryCount = hole.vertices.length;
+	if (positions.length === boundaryCount) return;
+
+	// fixed positions of the surface around the hole, after the patch ones
+	const all = positions.slice();
+	const neighbors: Set<number>[] = positions.map(() => new Set<number>());
+	for (const [a, b, c] of triangles) {
+		neighbors[a].add(b).add(c);
+		neighbors[b].add(a).add(c);
+		neighbors[c].add(a).add(b);
+	}
+	const ringIndex = new Map<number, number>();
+	hole.vertices.forEach((vertex, i) => ringIndex.set(vertex, i));
+	hole.vertices.forEach((vertex, i) => {
+		for (const neighbor of mesh.vertexNeighbors(vertex)) {
+			let index = ringIndex.get(neighbor);
+			if (index === undefined) {
+				index = all.length;
+				all.push(mesh.vertexPosition(neighbor));
+				ringIndex.set(neighbor, index);
+			}
+			neighbors[i].add(index);
+		}
+	});
+	const lists = neighbors.map((set) => [...set]);
+
+	// umbrella operator of a patch vertex, leaving out one of its neighbors
+	const laplacian = (
+		vertex: number,
+		without: number,
+		target: THREE.Vector3
+	) => {
+		target.set(0, 0, 0);
+		for (const n of lists[vertex]) {
+			if (n !== without) target.add(all[n]);
+		}
+		return target.divideScalar(lists[vertex].length).sub(all[vertex]);
+	};
+
+	const sum = new THREE.Vector3();
+	const partial = new THREE.Vector3();
+	for (let sweep = 0; sweep < 200; sweep++) {
+		for (let v = boundaryCount; v < positions.length; v++) {
+			// bi-Laplacian(v) = mean(L(u)) - L(v), solved for the position of v
+			const count = lists[v].length;
+			let weight = 1;
+			sum.set(0, 0, 0);
+			for (const u of lists[v]) {
+				sum.add(laplacian(u, v, partial));
+				sum.sub(all[u]);
+				weight += 1 / (count * lists[u].length);
+			}
+			sum.divideScalar(count);
+			all[v].copy(sum).divideScalar(-weight);
+		}
+	}
+}
+
+function faceNormal(mesh: HalfEdgeMesh, face: number): THREE.Vector3 {
+	const [a, b, c] = mesh.faceVertices(face);
+	const triangle = new THREE.Triangle(
+		mesh.vertexPosition(a),
+		mesh.vertexPosition(b),
+		mesh.vertexPosition(c)
+	);
+	return triangle.getNormal(new THREE.Vector3());
+}
@@ -0,0 +1,247 @@
+import * as THREE from "three";
+import { fitRigidTransform } from "./registration";
+
+export interface ICPOptions {
+	/** pairs further apart than this (mm) are ignored */
+	maxDistance: number;
+	maxIterations: number;
+	/** stop once the RMS error improves by less than this (mm) */
+	tolerance: number;
+}
+
+export const defaultICPOptions: ICPOptions = {
+	maxDistance: 3,
+	maxIterations: 60,
+	tolerance: 1e-4,
+};
+
+export interface ICPResult {
+	/** column-major transform (world space) to apply to the moving model */
+	matrix: number[];
+	rms: number;
+	iterations: number;
+	/** number of point pairs used in the last iteration */
+	pairs: number;
+	converged: boolean;
+}
+
+/** messages exchanged with icp.worker.ts */
+export interface ICPRequest {
+	moving: Float32Array;
+	fixed: Float32Array;
+	options: ICPOptions;
+}
+
+export type ICPResponse =
+	| { type: "progress"; iteration: number; rms: number }
+	| { type: "done"; result: ICPResult }
+	| { type: "error"; message: string };
+
+/** "selected"/"unselected" restrict the moving points to (or exclude) the face selection */
+export type ICPRegion = "all" | "selected" | "unselected";
+
+/**
+ * Face centroids of a non-indexed geometry in world space,
+ * evenly subsampled down to `maxCount` points.
+ */
+export function sampleFaceCentroids(
+	geometry: THREE.BufferGeometry,
+	matrixWorld: THREE.Matrix4,
+	maxCount: number,
+	faceFilter?: (face: number) => boolean
+): Float32Array {
+	const position = geometry.getAttribute("position");
+	const faceCount = position.count / 3;
+
+	const faces: number[] = [];
+	for (let face = 0; face < faceCount; face++) {
+		if (!faceFilter || faceFilter(face)) faces.push(face);
+	}
+
+	const step = Math.max(1, faces.length / maxCount);
+	const count = Math.min(faces.length, Math.floor(faces.length / step));
+	const points = new Float32Array(count * 3);
+	const a = new THREE.Vector3();
+	const b = new THREE.Vector3();
+	const c = new THREE.Vector3();
+	for (let i = 0; i < count; i++) {
+		const face = faces[Math.floor(i * step)];
+		a.fromBufferAttribute(position, face * 3);
+		b.fromBufferAttribute(position, face * 3 + 1);
+		c.fromBufferAttribute(position, face * 3 + 2);
+		a.add(b).add(c).divideScalar(3).applyMatrix4(matrixWorld);
+		points[i * 3] = a.x;
+		points[i * 3 + 1] = a.y;
+		points[i * 3 + 2] = a.z;
+	}
+	return points;
+}
+
+/**
+ * Uniform grid over a point cloud for nearest neighbour queries
+ */
+export class PointGrid {
+	points: Float32Array;
+	cellSize: number;
+	min = new THREE.Vector3();
+	cells = new Map<string, number[]>();
+
+	constructor(points: Float32Array, cellSize: number) {
+		this.points = points;
+		this.cellSize = cellSize;
+		this.min.set(Infinity, Infinity, Infinity);
+		for (let i = 0; i < points.length; i += 3) {
+			this.min.x = Math.min(this.min.x, points[i]);
+			this.min.y = Math.min(this.min.y, points[i + 1]);
+			this.min.z = Math.min(this.min.z, points[i + 2]);
+		}
+		for (let i = 0; i < points.length / 3; i++) {
+			const key = this.key(
+				this.cell(points[i * 3], this.min.x),
+				this.cell(points[i * 3 + 1], this.min.y),
+				this.cell(points[i * 3 + 2], this.min.z)
+			);
+			const cell = this.cells.get(key);
+			if (cell) cell.push(i);
+			else this.cells.set(key, [i]);
+		}
+	}
+
+	cell(value: number, min: number) {
+		return Math.floor((value - min) / this.cellSize);
+	}
+
+	key(x: number, y: number, z: number) {
+		return `${x},${y},${z}`;
+	}
+
+	/**
+	 * Index of the nearest point within `maxDistance`, or -1.
+	 * Searches shells of cells around the query until no closer point can exist.
+	 */
+	nearest(x: number, y: number, z: number, maxDistance: number) {
+		const cx = this.cell(x, this.min.x);
+		const cy = this.cell(y, this.min.y);
+		const cz = this.cell(z, this.min.z);
+		const maxRing = Math.ceil(maxDistance / this.cellSize);
+
+		let best = -1;
+		let bestDistSq = maxDistance * maxDistance;
+		for (let ring = 0; ring <= maxRing; ring++) {
+			for (let i = -ring; i <= ring; i++) {
+				for (let j = -ring; j <= ring; j++) {
+					for (let k = -ring; k <= ring; k++) {
+						// only the shell of the cube, inner cells were already visited
+						if (
+							Math.abs(i) !== ring &&
+							Math.abs(j) !== ring &&
+							Math.abs(k) !== ring
+						) {
+							continue;
+						}
+						const cell = this.cells.get(this.key(cx + i, cy + j, cz + k));
+						if (!cell) continue;
+						for (const index of cell) {
+							const dx = this.points[index * 3] - x;
+							const dy = this.points[index * 3 + 1] - y;
+							const dz = this.points[index * 3 + 2] - z;
+							const distSq = dx * dx + dy * dy + dz * dz;
+							if (distSq < bestDistSq) {
+								bestDistSq = distSq;
+								best = index;
+							}
+						}
+					}
+				}
+			}
+			// anything in the next shell is at least ring * cellSize away
+			if (best !== -1 && Math.sqrt(bestDistSq) <= ring * this.cellSize) {
+				break;
+			}
+		}
+		return best;
+	}
+}
+
+/**
+ * Point-to-point iterative closest point.
+ * Both point sets are in world space; the moving points are not modified.
+ * `onIteration` may return false to stop early.
+ */
+export function runICP(
+	moving: Float32Array,
+	fixed: Float32Array,
+	options: ICPOptions = defaultICPOptions,
+	onIteration?: (iteration: number, rms: number) => boolean | void
+): ICPResult {
+	const grid = new PointGrid(fixed, Math.max(options.maxDistance / 3, 0.25));
+	const current = moving.slice();
+	const total = new THREE.Matrix4();
+	const point = new THREE.Vector3();
+
+	let previousRms = Infinity;
+	let rms = Infinity;
+	let pairs = 0;
+	let iteration = 0;
+	let converged = false;
+
+	while (iteration < options.maxIterations) {
+		iteration++;
+
+		const movingPoints: THREE.Vector3[] = [];
+		const fixedPoints: THREE.Vector3[] = [];
+		const distances: number[] = [];
+		for (let i = 0; i < current.length / 3; i++) {
+			const x = current[i * 3];
+			const y = current[i * 3 + 1];
+			const z = current[i * 3 + 2];
+			const nearest = grid.nearest(x, y, z, options.maxDistance);
+			if (nearest === -1) continue;
+			const target = new THREE.Vector3(
+				fixed[nearest * 3],
+				fixed[nearest * 3 + 1],
+				fixed[nearest * 3 + 2]
+			);
+			movingPoints.push(new THREE.Vector3(x, y, z));
+			fixedPoints.push(target);
+			distances.push(target.distanceTo(movingPoints[movingPoints.length - 1]));
+		}
+
+		// trim outliers (areas that differ between the scans)
+		const median = distances.slice().sort((a, b) => a - b)[
+			Math.floor(distances.length / 2)
+		];
+		const keep = distances.map((d) => d <= Math.max(median * 3, 0.05));
+		const trimmedMoving = movingPoints.filter((_, i) => keep[i]);
+		const trimmedFixed = fixedPoints.filter((_, i) => keep[i]);
+		pairs = trimmedMoving.length;
+		if (pairs < 3) {
+			throw new Error(
+				"Too few overlapping points, align the models roughly first or increase the maximum distance."
+			);
+		}
+
+		const fit = fitRigidTransform(trimmedMoving, trimmedFixed);
+		total.premultiply(fit.matrix);
+		for (let i = 0; i < current.length / 3; i++) {
+			point.fromArray(current, i * 3).applyMatrix4(fit.matrix);
+			point.toArray(current, i * 3);
+		}
+
+		rms = fit.rms;
+		if (onIteration && onIteration(iteration, rms) === false) break;
+		if (Math.abs(previousRms - rms) < options.tolerance) {
+			converged = true;
+			break;
+		}
+		previousRms = rms;
+	}
+
+	return {
+		matrix: total.toArray(),
+		rms,
+		iterations: iteration,
+		pairs,
+		converged,
+	};
+}
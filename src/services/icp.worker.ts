@@ -0,0 +1,19 @@
+import { runICP, type ICPRequest, type ICPResponse } from "./icp";
+
+const worker = self as unknown as Worker;
+
+worker.onmessage = (event: MessageEvent<ICPRequest>) => {
+	const { moving, fixed, options } = event.data;
+	const post = (response: ICPResponse) => worker.postMessage(response);
+	try {
+		const result = runICP(moving, fixed, options, (iteration, rms) =>
+			post({ type: "progress", iteration, rms })
+		);
+		post({ type: "done", result });
+	} catch (err) {
+		post({
+			type: "error",
+			message: err instanceof Error ? err.message : String(err),
+		});
+	}
+};
@@ -0,0 +1,65 @@
+/**
+ * Eigen decomposition of a real symmetric matrix (cyclic Jacobi rotations).
+ * Returns the eigenvalues sorted in descending order, `vectors[i]` being
+ * the (unit) eigenvector of `values[i]`.
+ */
+export function symmetricEigen(matrix: number[][]): {
+	values: number[];
+	vectors: number[][];
+} {
+	const n = matrix.length;
+	const a = matrix.map((row) => row.slice());
+	// v holds the eigenvectors as columns
+	const v: number[][] = a.map((_, i) => a.map((_, j) => (i === j ? 1 : 0)));
+
+	for (let sweep = 0; sweep < 50; sweep++) {
+		let offDiagonal = 0;
+		for (let p = 0; p < n; p++) {
+			for (let q = p + 1; q < n; q++) {
+				offDiagonal += a[p][q] * a[p][q];
+			}
+		}
+		if (offDiagonal < 1e-20) break;
+
+		for (let p = 0; p < n; p++) {
+			for (let q = p + 1; q < n; q++) {
+				if (Math.abs(a[p][q]) < 1e-30) continue;
+
+				const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+				const t =
+					Math.sign(theta || 1) /
+					(Math.abs(theta) + Math.sqrt(theta * theta + 1));
+				const c = 1 / Math.sqrt(t * t + 1);
+				const s = t * c;
+
+				for (let k = 0; k < n; k++) {
+					const akp = a[k][p];
+					const akq = a[k][q];
+					a[k][p] = c * akp - s * akq;
+					a[k][q] = s * akp + c * akq;
+				}
+				for (let k = 0; k < n; k++) {
+					const apk = a[p][k];
+					const aqk = a[q][k];
+					a[p][k] = c * apk - s * aqk;
+					a[q][k] = s * apk + c * aqk;
+				}
+				for (let k = 0; k < n; k++) {
+					const vkp = v[k][p];
+					const vkq = v[k][q];
+					v[k][p] = c * vkp - s * vkq;
+					v[k][q] = s * vkp + c * vkq;
+				}
+			}
+		}
+	}
+
+	const order = a
+		.map((row, i) => ({ value: row[i], index: i }))
+		.sort((x, y) => y.value - x.value);
+
+	return {
+		values: order.map(({ value }) => value),
+		vectors: order.map(({ index }) => v.map((row) => row[index])),
+	};
+}
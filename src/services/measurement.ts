@@ -0,0 +1,226 @@
+import * as THREE from "three";
+import { getFaceBVH } from "./face_bvh";
+import { getHalfEdgeMesh } from "./half_edge_mesh";
+
+export type MeasurementKind = "distance" | "angle" | "geodesic";
+
+/** the kinds of measurement, with the number of points they are picked with */
+export const measurementKinds: {
+	kind: MeasurementKind;
+	label: string;
+	points: number;
+}[] = [
+	{ kind: "distance", label: "Distance", points: 2 },
+	{ kind: "angle", label: "Angle", points: 3 },
+	{ kind: "geodesic", label: "Along the surface", points: 2 },
+];
+
+export interface Measurement {
+	id: number;
+	name: string;
+	kind: MeasurementKind;
+	modelId: number;
+	/** the picked points, in the local coordinates of the model */
+	points: number[][];
+	/** the line that is drawn, through the points or along the surface */
+	path: number[][];
+	/** mm, or degrees for an angle */
+	value: number;
+}
+
+/** spacing of the points of a path along the surface (of the mean edge length) */
+const geodesicSpacing = 0.5;
+/** most passes pulling the path along the surface tight */
+const geodesicPasses = 2000;
+const overRelaxation = 1.8;
+
+/**
+ * Measures between the picked points (in the local coordinates of the
+ * geometry): the straight distance of two points, the angle at the second
+ * of three points, or the length of the shortest path along the surface
+ */
+export function measure(
+	geometry: THREE.BufferGeometry,
+	kind: MeasurementKind,
+	points: THREE.Vector3[]
+): { value: number; path: THREE.Vector3[] } {
+	switch (kind) {
+		case "distance":
+			return { value: points[0].distanceTo(points[1]), path: points };
+		case "angle": {
+			const a = points[0].clone().sub(points[1]);
+			const b = points[2].clone().sub(points[1]);
+			if (a.lengthSq() === 0 || b.lengthSq() === 0) {
+				throw new Error("The three points of an angle must differ.");
+			}
+			return { value: THREE.MathUtils.radToDeg(a.angleTo(b)), path: points };
+		}
+		case "geodesic": {
+			const path = geodesicPath(geometry, points[0], points[1]);
+			let value = 0;
+			for (let i = 1; i < path.length; i++) {
+				value += path[i].distanceTo(path[i - 1]);
+			}
+			return { value, path };
+		}
+	}
+}
+
+export function formatMeasurement(kind: MeasurementKind, value: number) {
+	return kind === "angle" ? `${value.toFixed(1)}°` : `${value.toFixed(2)} mm`;
+}
+
+/**
+ * The shortest path between the vertices nearest to the points, along the
+ * edges, then pulled tight over the surface like a string so it does not
+ * zig-zag along the edges
+ */
+function geodesicPath(
+	geometry: THREE.BufferGeometry,
+	from: THREE.Vector3,
+	to: THREE.Vector3
+): THREE.Vector3[] {
+	const mesh = getHalfEdgeMesh(geometry);
+	const bvh = getFaceBVH(geometry);
+	const position = new THREE.Vector3();
+	const nearestVertex = (point: THREE.Vector3) => {
+		const hit = bvh.closestPoint(point, position);
+		if (!hit) {
+			throw new Error("Pick the points on the model.");
+		}
+		const [a, b, c] = mesh.faceVertices(hit.face);
+		return [b, c].reduce(
+			(best, vertex) =>
+				mesh.vertexPosition(vertex, position).distanceTo(point) <
+				mesh.vertexPosition(best, position).distanceTo(point)
+					? vertex
+					: best,
+			a
+		);
+	};
+	const start = nearestVertex(from);
+	const end = nearestVertex(to);
+
+	// Dijkstra along the edges
+	const distances = new Float64Array(mesh.vertexCount).fill(Infinity);
+	const previous = new Int32Array(mesh.vertexCount).fill(-1);
+	const queue = new MinHeap();
+	distances[start] = 0;
+	queue.push(start, 0);
+	const neighbor = new THREE.Vector3();
+	let edgeLength = 0;
+	let edges = 0;
+	while (queue.size > 0) {
+		const [vertex, distance] = queue.pop();
+		if (distance > distances[vertex]) continue;
+		if (vertex === end) break;
+		mesh.vertexPosition(vertex, position);
+		for (const next of mesh.vertexNeighbors(vertex)) {
+			const length = mesh.vertexPosition(next, neighbor).distanceTo(position);
+			edgeLength += length;
+			edges++;
+			if (distance + length < distances[next]) {
+				distances[next] = distance + length;
+				previous[next] = vertex;
+				queue.push(next, distance + length);
+			}
+		}
+	}
+	if (distances[end] === Infinity) {
+		throw new Error("The points are not on one connected surface.");
+	}
+	const vertices = [end];
+	while (vertices[vertices.length - 1] !== start) {
+		vertices.push(previous[vertices[vertices.length - 1]]);
+	}
+	const corners = [
+		from.clone(),
+		...vertices.reverse().map((vertex) => mesh.vertexPosition(vertex)),
+		to.clone(),
+	];
+
+	// evenly spaced points, then pulled tight onto the surface
+	const spacing = (geodesicSpacing * edgeLength) / Math.max(1, edges);
+	const path = [corners[0]];
+	for (let i = 1; i < corners.length; i++) {
+		const steps = Math.ceil(corners[i].distanceTo(corners[i - 1]) / spacing);
+		for (let step = 1; step <= steps; step++) {
+			path.push(corners[i - 1].clone().lerp(corners[i], step / steps));
+		}
+	}
+	const target = new THREE.Vector3();
+	for (let pass = 0; pass < geodesicPasses; pass++) {
+		let moved = 0;
+		for (let i = 1; i < path.length - 1; i++) {
+			// over-relaxed towards the middle of its neighbors
+			target
+				.addVectors(path[i - 1], path[i + 1])
+				.multiplyScalar(0.5)
+				.sub(path[i])
+				.multiplyScalar(overRelaxation)
+				.add(path[i]);
+			if (!bvh.closestPoint(target, position)) continue;
+			moved = Math.max(moved, position.distanceTo(path[i]));
+			path[i].copy(position);
+		}
+		if (moved < spacing * 1e-4) break;
+	}
+	// the segments crossing a crease cut through the model, the middles of
+	// the segments put back onto the surface
+	const refined = [path[0]];
+	for (let i = 1; i < path.length; i++) {
+		target.addVectors(path[i - 1], path[i]).multiplyScalar(0.5);
+		if (bvh.closestPoint(target, position)) refined.push(position.clone());
+		refined.push(path[i]);
+	}
+	return refined;
+}
+
+/** binary heap of items by increasing key */
+class MinHeap {
+	items: number[] = [];
+	keys: number[] = [];
+
+	get size() {
+		return this.items.length;
+	}
+
+	push(item: number, key: number) {
+		const { items, keys } = this;
+		let i = items.length;
+		items.push(item);
+		keys.push(key);
+		while (i > 0) {
+			const parent = (i - 1) >> 1;
+			if (keys[parent] <= key) break;
+			items[i] = items[parent];
+			keys[i] = keys[parent];
+			i = parent;
+		}
+		items[i] = item;
+		keys[i] = key;
+	}
+
+	pop(): [number, number] {
+		const { items, keys } = this;
+		const top: [number, number] = [items[0], keys[0]];
+		const item = items.pop()!;
+		const key = keys.pop()!;
+		const count = items.length;
+		if (count > 0) {
+			let i = 0;
+			while (true) {
+				let child = 2 * i + 1;
+				if (child >= count) break;
+				if (child + 1 < count && keys[child + 1] < keys[child]) child++;
+				if (keys[child] >= key) break;
+				items[i] = items[child];
+				keys[i] = keys[child];
+				i = child;
+			}
+			items[i] = item;
+			keys[i] = key;
+		}
+		return top;
+	}
+}
@@ -0,0 +1,212 @@
+import * as THREE from "three";
+import { getHalfEdgeMesh, type HalfEdgeMesh } from "./half_edge_mesh";
+import { selfIntersections } from "./self_intersections";
+
+export type MeshProblem =
+	| "boundary"
+	| "non-manifold"
+	| "degenerate"
+	| "duplicate"
+	| "inconsistent"
+	| "self-intersection";
+
+/** problems in the order of the report, with the color they are highlighted in */
+export const meshProblems: {
+	problem: MeshProblem;
+	label: string;
+	color: string;
+}[] = [
+	{ problem: "boundary", label: "Boundary edges", color: "#ff8c00" },
+	{ problem: "non-manifold", label: "Non-manifold edges", color: "#e81123" },
+	{ problem: "degenerate", label: "Degenerate faces", color: "#b4009e" },
+	{ problem: "duplicate", label: "Duplicate faces", color: "#5c2d91" },
+	{ problem: "inconsistent", label: "Inconsistent normals", color: "#0078d4" },
+	{
+		problem: "self-intersection",
+		label: "Self-intersections",
+		color: "#ffb900",
+	},
+];
+
+export interface MeshAnalysis {
+	triangles: number;
+	/** after merging the corners that share a position */
+	vertices: number;
+	boundaryLoops: number;
+	/** how many of every problem (edges, faces or pairs of faces) */
+	counts: Record<MeshProblem, number>;
+	/** the faces showing every problem */
+	faces: Record<MeshProblem, number[]>;
+	/** mm² */
+	area: number;
+	/** mm³, only meaningful for a closed surface */
+	volume: number;
+}
+
+/** faces smaller than this (mm²) are degenerate */
+export const minFaceArea = 1e-8;
+
+/**
+ * Checks what keeps the mesh from being printed: holes, edges shared by
+ * more than two faces, collapsed and repeated faces, faces wound against
+ * their neighbors and faces crossing each other
+ */
+export function analyzeMesh(geometry: THREE.BufferGeometry): MeshAnalysis {
+	const mesh = getHalfEdgeMesh(geometry);
+	const faceCount = mesh.faceCount;
+
+	const degenerate = new Uint8Array(faceCount);
+	const a = new THREE.Vector3();
+	const b = new THREE.Vector3();
+	const c = new THREE.Vector3();
+	let area = 0;
+	let volume = 0;
+	for (let face = 0; face < faceCount; face++) {
+		const [i, j, k] = mesh.faceVertices(face);
+		mesh.vertexPosition(i, a);
+		mesh.vertexPosition(j, b);
+		mesh.vertexPosition(k, c);
+		volume += a.dot(b.clone().cross(c)) / 6;
+		const faceArea = b.sub(a).cross(c.sub(a)).length() / 2;
+		area += faceArea;
+		if (i === j || j === k || k === i || faceArea < minFaceArea) {
+			degenerate[face] = 1;
+		}
+	}
+
+	const faces: Record<MeshProblem, Set<number>> = {
+		boundary: new Set(),
+		"non-manifold": new Set(),
+		degenerate: new Set(),
+		duplicate: new Set(),
+		inconsistent: new Set(),
+		"self-intersection": new Set(),
+	};
+	const counts: Record<MeshProblem, number> = {
+		boundary: 0,
+		"non-manifold": 0,
+		degenerate: 0,
+		duplicate: 0,
+		inconsistent: 0,
+		"self-intersection": 0,
+	};
+
+	// the same vertices as an earlier face, in any order
+	const seen = new Map<string, number>();
+	for (let face = 0; face < faceCount; face++) {
+		if (degenerate[face]) {
+			faces.degenerate.add(face);
+			counts.degenerate++;
+			continue;
+		}
+		const key = mesh
+			.faceVertices(face)
+			.sort((x, y) => x - y)
+			.join(",");
+		const first = seen.get(key);
+		if (first === undefined) {
+			seen.set(key, face);
+		} else {
+			faces.duplicate.add(first).add(face);
+			counts.duplicate++;
+		}
+	}
+
+	const nonManifold = new Set<string>();
+	for (const h of mesh.nonManifoldEdges) {
+		faces["non-manifold"].add(mesh.face(h));
+		nonManifold.add(edgeKey(mesh, h));
+	}
+	counts["non-manifold"] = nonManifold.size;
+
+	for (let h = 0; h < mesh.origins.length; h++) {
+		if (degenerate[mesh.face(h)]) continue;
+		if (mesh.isOpenEdge(h)) {
+			faces.boundary.add(mesh.face(h));
+			counts.boundary++;
+			continue;
+		}
+		const other = sameDirection(mesh, h);
+		if (other !== -1) {
+			faces.inconsistent.add(mesh.face(h)).add(mesh.face(other));
+			// counted once per edge
+			if (other > h) counts.inconsistent++;
+		}
+	}
+
+	const pairs = selfIntersections(
+		geometry,
+		(face) => mesh.faceVertices(face),
+		degenerate
+	);
+	for (let i = 0; i < pairs.length; i += 2) {
+		faces["self-intersection"].add(pairs[i]).add(pairs[i + 1]);
+	}
+	counts["self-intersection"] = pairs.length / 2;
+
+	const faceLists = {} as Record<MeshProblem, number[]>;
+	for (const { problem } of meshProblems) {
+		faceLists[problem] = [...faces[problem]];
+	}
+	return {
+		triangles: faceCount,
+		vertices: mesh.vertexCount,
+		boundaryLoops: mesh.boundaryLoops().length,
+		counts,
+		faces: faceLists,
+		area,
+		volume,
+	};
+}
+
+/**
+ * Bounding box of the geometry in world space (mm), apart from
+ * `analyzeMesh` as it changes with every move of the model
+ */
+export function worldBounds(
+	geometry: THREE.BufferGeometry,
+	matrixWorld: THREE.Matrix4
+): THREE.Box3 {
+	const position = geometry.getAttribute("position");
+	const box = new THREE.Box3();
+	const point = new THREE.Vector3();
+	for (let i = 0; i < position.count; i++) {
+		box.expandByPoint(
+			point.fromBufferAttribute(position, i).applyMatrix4(matrixWorld)
+		);
+	}
+	return box;
+}
+
+/** whether the analysis found nothing that keeps the mesh from printing */
+export function isPrintable(analysis: MeshAnalysis): boolean {
+	return meshProblems.every(({ problem }) => analysis.counts[problem] === 0);
+}
+
+function edgeKey(mesh: HalfEdgeMesh, halfEdge: number) {
+	const from = mesh.origins[halfEdge];
+	const to = mesh.target(halfEdge);
+	return from < to ? `${from},${to}` : `${to},${from}`;
+}
+
+/**
+ * The other half-edge of a two-face edge when both faces run along it
+ * the same way (one of them is flipped), -1 otherwise
+ */
+function sameDirection(mesh: HalfEdgeMesh, halfEdge: number): number {
+	if (!mesh.isBoundary(halfEdge)) return -1;
+	const from = mesh.origins[halfEdge];
+	const to = mesh.target(halfEdge);
+	let other = -1;
+	let faces = 1;
+	for (const h of mesh.outgoingHalfEdges(from)) {
+		if (h !== halfEdge && mesh.target(h) === to) {
+			other = h;
+			faces++;
+		}
+	}
+	for (const h of mesh.outgoingHalfEdges(to)) {
+		if (mesh.target(h) === from) faces++;
+	}
+	return faces === 2 ? other : -1;
+}
@@ -0,0 +1,135 @@
+import * as THREE from "three";
+import { OBJLoader, PLYLoader } from "three/examples/jsm/Addons.js";
+import { mergeGeometries } from "three/examples/jsm/utils/BufferGeometryUtils.js";
+import { geometryToDecodedSTL, parseSTL, type DecodedSTL } from "./stl_to_mesh";
+
+export type MeshFormat = "stl" | "obj" | "ply";
+
+export const supportedMeshExtensions = [".stl", ".obj", ".ply"];
+
+/**
+ * Detects the format from the file extension,
+ * falling back to sniffing the first bytes of the file
+ */
+export function detectMeshFormat(
+	fileName: string,
+	contents: ArrayBuffer
+): MeshFormat {
+	const extension = fileName.slice(fileName.lastIndexOf(".") + 1).toLowerCase();
+	if (extension === "stl" || extension === "obj" || extension === "ply") {
+		return extension;
+	}
+
+	const head = new TextDecoder().decode(contents.slice(0, 256));
+	if (/^ply\s/.test(head)) {
+		return "ply";
+	}
+	if (/^(#.*\n|\s)*(v|vn|vt|o|g|mtllib)\s/m.test(head)) {
+		return "obj";
+	}
+	return "stl";
+}
+
+/**
+ * Scans are handled as triangle soup (one vertex per triangle corner)
+ * throughout the app, so indexed geometries are expanded and only the
+ * attributes the editor knows about are kept.
+ */
+function normalizeGeometry(geometry: THREE.BufferGeometry) {
+	const soup = geometry.index ? geometry.toNonIndexed() : geometry;
+	const normalized = new THREE.BufferGeometry();
+	normalized.setAttribute("position", soup.getAttribute("position"));
+
+	const color = soup.getAttribute("color");
+	if (color && color.itemSize >= 3) {
+		const colors = new Float32Array(color.count * 3);
+		for (let i = 0; i < color.count; i++) {
+			colors[i * 3] = color.getX(i);
+			colors[i * 3 + 1] = color.getY(i);
+			colors[i * 3 + 2] = color.getZ(i);
+		}
+		normalized.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+	}
+
+	normalized.computeVertexNormals();
+	return normalized;
+}
+
+export function parsePLY(contents: ArrayBuffer): THREE.BufferGeometry {
+	const geometry = new PLYLoader().parse(contents);
+	if (!geometry.index) {
+		throw "PLY file does not contain any faces (point clouds are not supported).";
+	}
+	return normalizeGeometry(geometry);
+}
+
+export function parseOBJ(contents: ArrayBuffer): THREE.BufferGeometry {
+	const group = new OBJLoader().parse(new TextDecoder().decode(contents));
+
+	const geometries: THREE.BufferGeometry[] = [];
+	group.updateMatrixWorld(true);
+	group.traverse((object) => {
+		if (object instanceof THREE.Mesh) {
+			const geometry = normalizeGeometry(object.geometry);
+			geometry.applyMatrix4(object.matrixWorld);
+			geometries.push(geometry);
+		}
+	});
+
+	if (geometries.length === 0) {
+		throw "OBJ file does not contain any faces.";
+	}
+
+	// some objects in the file may be colored while others are not
+	const hasColors = geometries.some((g) => g.getAttribute("color"));
+	if (hasColors) {
+		for (const geometry of geometries) {
+			if (!geometry.getAttribute("color")) {
+				const colors = new Float32Array(
+					geometry.getAttribute("position").count * 3
+				).fill(1);
+				geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
+			}
+		}
+	}
+
+	const merged = mergeGeometries(geometries, false);
+	if (!merged) {
+		throw "Failed to merge the objects of the OBJ file.";
+	}
+	return merged;
+}
+
+export function parseMesh(
+	fileName: string,
+	contents: ArrayBuffer
+): THREE.BufferGeometry {
+	switch (detectMeshFormat(fileName, contents)) {
+		case "ply":
+			return parsePLY(contents);
+		case "obj":
+			return parseOBJ(contents);
+		default:
+			return parseSTL(contents);
+	}
+}
+
+export function decodeMeshFile(file: File): Promise<DecodedSTL> {
+	return new Promise((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = (e) => {
+			try {
+				const contents = e.target?.result;
+				if (!contents || !(contents instanceof ArrayBuffer)) {
+					reject("Failed to read file contents.");
+					return;
+				}
+				resolve(geometryToDecodedSTL(parseMesh(file.name, contents)));
+			} catch (err) {
+				reject(err);
+			}
+		};
+
+		reader.readAsArrayBuffer(file);
+	});
+}
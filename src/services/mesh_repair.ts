@@ -0,0 +1,276 @@
+import * as THREE from "three";
+import { faceAttributesFor } from "./cut_selection";
+import type { FaceAttributes } from "./history";
+import { minFaceArea } from "./mesh_analysis";
+import { weldVertices } from "./topology";
+
+export interface RepairReport {
+	/** corners moved onto a vertex they (almost) share a position with */
+	mergedCorners: number;
+	degenerateFaces: number;
+	duplicateFaces: number;
+	/** faces removed so that no edge has more than two faces */
+	nonManifoldFaces: number;
+	flippedFaces: number;
+}
+
+export interface Repaired {
+	/** faces removed or rewritten (merged corners, flipped winding) */
+	faces: Set<number>;
+	/** the rewritten faces, to be appended to the geometry */
+	added: FaceAttributes;
+	report: RepairReport;
+}
+
+/** corners closer than this (mm) are merged */
+const mergeTolerance = 1e-4;
+
+/**
+ * Fixes what usually breaks slicers in scanner exports:
+ * 1. corners that almost share a position are merged into one vertex
+ * 2. degenerate faces (collapsed or of no area) and duplicate faces
+ *    (same vertices, in any order) are removed
+ * 3. edges of more than two faces are resolved by removing the faces that
+ *    are the least connected to the rest of the surface (fins, inner walls)
+ * 4. faces are flipped so their winding is consistent across every connected
+ *    part, closed parts face outwards (positive volume), open ones follow
+ *    the winding of most of their faces.
+ * Vertices where separate fans of faces meet are left as they are.
+ */
+export function repairMesh(
+	geometry: THREE.BufferGeometry,
+	colors?: Float32Array
+): Repaired {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+	const position = geometry.getAttribute("position");
+	const p = position.array as Float32Array;
+	const faceCount = position.count / 3;
+
+	const { vertexCount, corners } = weldVertices(geometry, mergeTolerance);
+	// every vertex takes the position of its first corner
+	const positions = new Float32Array(vertexCount * 3);
+	for (let corner = corners.length - 1; corner >= 0; corner--) {
+		positions.set(p.subarray(corner * 3, corner * 3 + 3), corners[corner] * 3);
+	}
+
+	const report: RepairReport = {
+		mergedCorners: 0,
+		degenerateFaces: 0,
+		duplicateFaces: 0,
+		nonManifoldFaces: 0,
+		flippedFaces: 0,
+	};
+	const removed = new Uint8Array(faceCount);
+
+	// 2. degenerate and duplicate faces
+	const a = new THREE.Vector3();
+	const b = new THREE.Vector3();
+	const c = new THREE.Vector3();
+	const seen = new Set<string>();
+	for (let face = 0; face < faceCount; face++) {
+		const [i, j, k] = corners.subarray(face * 3, face * 3 + 3);
+		a.fromArray(positions, i * 3);
+		b.fromArray(positions, j * 3);
+		c.fromArray(positions, k * 3);
+		const area = b.sub(a).cross(c.sub(a)).length() / 2;
+		if (i === j || j === k || k === i || area < minFaceArea) {
+			removed[face] = 1;
+			report.degenerateFaces++;
+			continue;
+		}
+		const key = [i, j, k].sort((x, y) => x - y).join(",");
+		if (seen.has(key)) {
+			removed[face] = 1;
+			report.duplicateFaces++;
+		} else {
+			seen.add(key);
+		}
+	}
+
+	// 3. non-manifold edges
+	const edgeKey = (face: number, i: number) => {
+		const from = corners[face * 3 + i];
+		const to = corners[face * 3 + ((i + 1) % 3)];
+		return from < to ? from * vertexCount + to : to * vertexCount + from;
+	};
+	const edgeFaces = new Map<number, number>();
+	for (let face = 0; face < faceCount; face++) {
+		if (removed[face]) continue;
+		for (let i = 0; i < 3; i++) {
+			const key = edgeKey(face, i);
+			edgeFaces.set(key, (edgeFaces.get(key) || 0) + 1);
+		}
+	}
+	const contested: number[] = [];
+	const accepted = new Map<number, number>();
+	const accept = (face: number) => {
+		for (let i = 0; i < 3; i++) {
+			const key = edgeKey(face, i);
+			accepted.set(key, (accepted.get(key) || 0) + 1);
+		}
+	};
+	for (let face = 0; face < faceCount; face++) {
+		if (removed[face]) continue;
+		let nonManifold = false;
+		for (let i = 0; i < 3; i++) {
+			if (edgeFaces.get(edgeKey(face, i))! > 2) nonManifold = true;
+		}
+		if (nonManifold) {
+			contested.push(face);
+		} else {
+			accept(face);
+		}
+	}
+	// faces joined to the surface along their other edges are kept first
+	const connection = (face: number) => {
+		let shared = 0;
+		for (let i = 0; i < 3; i++) {
+			if (edgeFaces.get(edgeKey(face, i)) === 2) shared++;
+		}
+		return shared;
+	};
+	contested.sort((f, g) => connection(g) - connection(f));
+	for (const face of contested) {
+		let fits = true;
+		for (let i = 0; i < 3; i++) {
+			if ((accepted.get(edgeKey(face, i)) || 0) >= 2) fits = false;
+		}
+		if (fits) {
+			accept(face);
+		} else {
+			removed[face] = 1;
+			report.nonManifoldFaces++;
+		}
+	}
+
+	// 4. winding, the half-edge across every edge of exactly two faces
+	const across = new Int32Array(faceCount * 3).fill(-1);
+	const firstHalfEdge = new Map<number, number>();
+	for (let face = 0; face < faceCount; face++) {
+		if (removed[face]) continue;
+		for (let i = 0; i < 3; i++) {
+			const key = edgeKey(face, i);
+			const other = firstHalfEdge.get(key);
+			if (other === undefined) {
+				firstHalfEdge.set(key, face * 3 + i);
+			} else {
+				across[face * 3 + i] = other;
+				across[other] = face * 3 + i;
+			}
+		}
+	}
+
+	const flipped = new Int8Array(faceCount).fill(-1);
+	for (let start = 0; start < faceCount; start++) {
+		if (removed[start] || flipped[start] !== -1) continue;
+		const component = [start];
+		flipped[start] = 0;
+		let closed = true;
+		for (let n = 0; n < component.length; n++) {
+			const face = component[n];
+			for (let h = face * 3; h < face * 3 + 3; h++) {
+				const other = across[h];
+				if (other === -1) {
+					closed = false;
+					continue;
+				}
+				const neighbor = Math.floor(other / 3);
+				if (flipped[neighbor] !== -1) continue;
+				// neighbors run along their shared edge in opposite directions
+				const sameDirection = corners[h] === corners[other];
+				flipped[neighbor] = flipped[face] ^ (sameDirection ? 1 : 0);
+				component.push(neighbor);
+			}
+		}
+
+		let turn: boolean;
+		if (closed) {
+			let volume = 0;
+			for (const face of component) {
+				const [i, j, k] = corners.subarray(face * 3, face * 3 + 3);
+				a.fromArray(positions, i * 3);
+				b.fromArray(positions, j * 3);
+				c.fromArray(positions, k * 3);
+				const signed = a.dot(b.cross(c)) / 6;
+				volume += flipped[face] ? -signed : signed;
+			}
+			turn = volume < 0;
+		} else {
+			let count = 0;
+			for (const face of component) count += flipped[face];
+			turn = count > component.length / 2;
+		}
+		if (turn) {
+			for (const face of component) flipped[face] ^= 1;
+		}
+	}
+
+	// faces to remove, and to append again if they are kept
+	const faces = new Set<number>();
+	const rewritten: number[] = [];
+	for (let face = 0; face < faceCount; face++) {
+		if (removed[face]) {
+			faces.add(face);
+			continue;
+		}
+		let moved = false;
+		for (let corner = face * 3; corner < face * 3 + 3; corner++) {
+			const vertex = corners[corner];
+			let merged = false;
+			for (let k = 0; k < 3; k++) {
+				if (p[corner * 3 + k] !== positions[vertex * 3 + k]) merged = true;
+			}
+			if (merged) {
+				report.mergedCorners++;
+				moved = true;
+			}
+		}
+		if (flipped[face]) report.flippedFaces++;
+		if (moved || flipped[face]) {
+			faces.add(face);
+			rewritten.push(face);
+		}
+	}
+
+	return { faces, added: rewriteFaces(), report };
+
+	function rewriteFaces(): FaceAttributes {
+		const order = (face: number) =>
+			flipped[face]
+				? [face * 3, face * 3 + 2, face * 3 + 1]
+				: [face * 3, face * 3 + 1, face * 3 + 2];
+
+		const newPositions = new Float32Array(rewritten.length * 9);
+		rewritten.forEach((face, n) => {
+			order(face).forEach((corner, i) => {
+				const vertex = corners[corner];
+				newPositions.set(
+					positions.subarray(vertex * 3, vertex * 3 + 3),
+					n * 9 + i * 3
+				);
+			});
+		});
+		// other attributes follow their corners
+		const given: Record<string, Float32Array> = {};
+		for (const name of Object.keys(geometry.attributes)) {
+			if (name === "position" || name === "normal") continue;
+			const attribute = geometry.getAttribute(name);
+			const itemSize = attribute.itemSize;
+			const source =
+				name === "color" && colors ? colors : (attribute.array as Float32Array);
+			const array = new Float32Array(rewritten.length * 3 * itemSize);
+			rewritten.forEach((face, n) => {
+				order(face).forEach((corner, i) => {
+					array.set(
+						source.subarray(corner * itemSize, (corner + 1) * itemSize),
+						(n * 3 + i) * itemSize
+					);
+				});
+			});
+			given[name] = array;
+		}
+		return faceAttributesFor(geometry, newPositions, given);
+	}
+}
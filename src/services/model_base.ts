@@ -0,0 +1,757 @@
+import * as THREE from "three";
+import {
+	appendFaces,
+	cutAwaySelection,
+	faceAttributesFor,
+} from "./cut_selection";
+import { FaceBVH } from "./face_bvh";
+import { HalfEdgeMesh } from "./half_edge_mesh";
+import type { FaceAttributes } from "./history";
+import { fillHoles, findHoles } from "./hole_filling";
+import { planeCut } from "./plane_cut";
+import { pointInPolygon } from "./region_selection";
+import { offsetSurface } from "./solidify";
+
+/**
+ * horseshoe: the base follows the border of the scan,
+ * full-plate: the base also fills the inside of the arch (palate or tongue space)
+ */
+export type BaseShape = "horseshoe" | "full-plate";
+
+export interface BaseOptions {
+	/** from the lowest point of the model down to the bottom of the base, in mm */
+	height: number;
+	shape: BaseShape;
+	/** wall thickness of a hollow model in mm, 0 keeps the model solid */
+	wallThickness: number;
+	/** holes through the floor of a hollow model, so resin can drain */
+	drainHoles: number;
+	drainHoleDiameter: number;
+	/** overrides the color attribute (e.g. to ignore the selection highlight) */
+	colors?: Float32Array;
+}
+
+export const defaultBaseOptions: Omit<BaseOptions, "colors"> = {
+	height: 5,
+	shape: "horseshoe",
+	wallThickness: 0,
+	drainHoles: 2,
+	drainHoleDiameter: 3,
+};
+
+export interface ModelBase {
+	/** faces to append to the geometry, the result is watertight */
+	added: FaceAttributes;
+	/** holes of the scan (other than its border) closed on the way */
+	filledHoles: number;
+	drainHoles: number;
+}
+
+/** the plate of a full-plate base reaches past the border of the scan by this (mm) */
+const plateMargin = 2;
+/** thickness of the plate of a full-plate base (mm), at most half the base */
+const plateThickness = 3;
+/** drain holes keep at least this much (mm) from the walls and from each other */
+const drainHoleClearance = 1;
+const drainHoleSegments = 16;
+/** turns of the outline to triangulate it in, see `triangulatePolygon` */
+const triangulationAttempts = 8;
+
+/**
+ * Closes an open scan into a solid standing on a flat base.
+ * The border of the scan is extruded down to a plane `height` below its
+ * lowest point ("up" is +y of the world, see `occlusalOrientation`),
+ * which closes the bottom. Other holes of the scan are filled first.
+ * A hollow model gets an inner wall (see `solidify`) with a floor
+ * `wallThickness` above the bottom, or on the plate of a full-plate base,
+ * the drain holes go through both.
+ */
+export function createBase(
+	geometry: THREE.BufferGeometry,
+	matrixWorld: THREE.Matrix4,
+	options: BaseOptions
+): ModelBase {
+	const holes = findHoles(geometry);
+	if (holes.length === 0) {
+		throw new Error("The model has no open border to build the base from.");
+	}
+	// the longest boundary is the border of the scan
+	const border = holes[holes.length - 1];
+	const patches = fillHoles(geometry, holes.slice(0, -1), options.colors);
+
+	// heights are measured along "up" in the local space of the geometry
+	const up = new THREE.Vector3(0, 1, 0)
+		.transformDirection(matrixWorld.clone().invert())
+		.normalize();
+	const plane = new Plane(up);
+	const position = geometry.getAttribute("position");
+	let lowest = Infinity;
+	for (let i = 0; i < position.count; i++) {
+		lowest = Math.min(lowest, plane.height(position, i));
+	}
+	const bottom = lowest - options.height;
+
+	const builder = new FaceBuilder(
+		borderColor(border.halfEdges, options.colors || colorArray(geometry))
+	);
+	const borderPoints = border.halfEdges.map((h) =>
+		new THREE.Vector3().fromBufferAttribute(position, h)
+	);
+
+	// walls from the border of the scan down to the plate or the bottom
+	const fullPlate = options.shape === "full-plate";
+	const plate = Math.min(plateThickness, options.height / 2);
+	const footprint = borderPoints.map((point) =>
+		plane.project(point, fullPlate ? bottom + plate : bottom)
+	);
+	addWalls(builder, borderPoints, footprint);
+
+	// the outline of the bottom
+	let outline = footprint.map((point) => plane.project(point, bottom));
+	if (fullPlate) {
+		const hull = roundedHull(
+			footprint.map((point) => plane.toPlane(point)),
+			plateMargin
+		);
+		const plateTop = hull.map((point) =>
+			plane.fromPlane(point, bottom + plate)
+		);
+		outline = hull.map((point) => plane.fromPlane(point, bottom));
+		builder.polygon(plane, plateTop, [footprint], up);
+		const center = plane.fromPlane(centroid(hull), bottom);
+		const outward = new THREE.Vector3();
+		plateTop.forEach((top, i) => {
+			const j = (i + 1) % plateTop.length;
+			outward.subVectors(top, center).projectOnPlane(up);
+			builder.orientedTriangle(top, outline[i], outline[j], outward);
+			builder.orientedTriangle(top, outline[j], plateTop[j], outward);
+		});
+	}
+
+	// a hollow model has a floor above the bottom, the drain holes go through both
+	let drainHoles: THREE.Vector3[][] = [];
+	if (options.wallThickness > 0) {
+		// the inside follows walls down to the bottom, a full plate stays solid
+		const sides = new FaceBuilder(null);
+		addWalls(
+			sides,
+			borderPoints,
+			borderPoints.map((point) => plane.project(point, bottom))
+		);
+		const surface = appendFaces(positionsOnly(geometry), {
+			position: concat(patches.position, sides.positionAttribute()),
+		});
+		const floor =
+			bottom + Math.max(options.wallThickness, fullPlate ? plate : 0);
+		drainHoles = hollow(surface, plane, floor, bottom, options, builder);
+	}
+	builder.polygon(plane, outline, drainHoles, up.clone().negate());
+
+	return {
+		added: concatFaces(geometry, [patches, builder.faces(geometry)]),
+		filledHoles: holes.length - 1,
+		drainHoles: drainHoles.length,
+	};
+}
+
+/** walls from the border of the scan down to the points below it */
+function addWalls(
+	builder: FaceBuilder,
+	border: THREE.Vector3[],
+	below: THREE.Vector3[]
+) {
+	border.forEach((point, i) => {
+		const j = (i + 1) % border.length;
+		// the border runs u -> v in its face, the wall runs v -> u
+		builder.triangle(border[j], point, below[i]);
+		builder.triangle(border[j], below[i], below[j]);
+	});
+}
+
+/**
+ * Adds the inside of the open `surface` (the scan and the sides of the
+ * base) to `builder`: an inner wall `wallThickness` behind the surface
+ * and a floor at the height `floor`.
+ * Returns the outlines of the drain holes at the bottom,
+ * the tubes through the floor are added.
+ */
+function hollow(
+	surface: THREE.BufferGeometry,
+	plane: Plane,
+	floor: number,
+	bottom: number,
+	{ wallThickness, drainHoles, drainHoleDiameter }: BaseOptions,
+	builder: FaceBuilder
+): THREE.Vector3[][] {
+	const mesh = HalfEdgeMesh.fromGeometry(surface);
+	// the bottom edge of the walls is free to follow the walls around corners
+	const inner = offsetSurface(mesh, new FaceBVH(surface), wallThickness, {
+		straightRim: false,
+	});
+	const corners = new Float32Array(mesh.origins.length * 3);
+	mesh.origins.forEach((vertex, corner) => {
+		corners.set(inner.subarray(vertex * 3, vertex * 3 + 3), corner * 3);
+	});
+	const core = new THREE.BufferGeometry();
+	core.setAttribute("position", new THREE.Float32BufferAttribute(corners, 3));
+
+	// the inside of the model as a solid, cut at the floor
+	const cut = planeCut(core, plane.at(floor), { cap: false });
+	const kept = appendFaces(positionsOnly(cutAwaySelection(core, cut.faces)), {
+		position: cut.added.position,
+	});
+	const keptPositions = kept.getAttribute("position").array;
+	for (let i = 0; i < keptPositions.length; i += 9) {
+		// the inner wall faces the hollow, the other way round
+		builder.triangle(
+			new THREE.Vector3().fromArray(keptPositions, i),
+			new THREE.Vector3().fromArray(keptPositions, i + 6),
+			new THREE.Vector3().fromArray(keptPositions, i + 3)
+		);
+	}
+
+	// the openings left by the cut are the outlines of the floor
+	const keptMesh = HalfEdgeMesh.fromGeometry(kept);
+	const loops = keptMesh
+		.boundaryLoops()
+		.filter(
+			(loop) =>
+				loop.length > 2 &&
+				keptMesh.target(loop[loop.length - 1]) === keptMesh.origins[loop[0]]
+		)
+		.map((loop) =>
+			loop.map((h) => keptMesh.vertexPosition(keptMesh.origins[h]))
+		);
+	const flatLoops = loops.map((loop) => loop.map((p) => plane.toPlane(p)));
+	const regions = nestLoops(flatLoops);
+	const radius = drainHoleDiameter / 2;
+	const centers = placeDrainHoles(regions, flatLoops, drainHoles, radius);
+	const tops = centers.map((center) =>
+		circle(center, radius).map((point) => plane.fromPlane(point, floor))
+	);
+	const lows = centers.map((center) =>
+		circle(center, radius).map((point) => plane.fromPlane(point, bottom))
+	);
+
+	for (const region of regions) {
+		builder.polygon(
+			plane,
+			loops[region.outer],
+			[
+				...region.holes.map((hole) => loops[hole]),
+				...tops.filter((_, i) => contains(region, flatLoops, centers[i])),
+			],
+			plane.up
+		);
+	}
+
+	// the tubes face their axis
+	const inward = new THREE.Vector3();
+	centers.forEach((center, c) => {
+		const axis = plane.fromPlane(center, floor);
+		const top = tops[c];
+		const low = lows[c];
+		top.forEach((point, i) => {
+			const j = (i + 1) % top.length;
+			inward.subVectors(axis, point).projectOnPlane(plane.up);
+			builder.orientedTriangle(point, low[i], low[j], inward);
+			builder.orientedTriangle(point, low[j], top[j], inward);
+		});
+	});
+	return lows;
+}
+
+/**
+ * Heights along `up` and coordinates in the planes across it
+ */
+class Plane {
+	up: THREE.Vector3;
+	/** u x v = up */
+	u: THREE.Vector3;
+	v: THREE.Vector3;
+
+	constructor(up: THREE.Vector3) {
+		this.up = up;
+		this.u = new THREE.Vector3(1, 0, 0);
+		if (Math.abs(up.x) > 0.9) this.u.set(0, 1, 0);
+		this.u.projectOnPlane(up).normalize();
+		this.v = new THREE.Vector3().crossVectors(up, this.u);
+	}
+
+	height(
+		attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute,
+		index: number
+	) {
+		return (
+			attribute.getX(index) * this.up.x +
+			attribute.getY(index) * this.up.y +
+			attribute.getZ(index) * this.up.z
+		);
+	}
+
+	/** the point moved along `up` to `height` */
+	project(point: THREE.Vector3, height: number) {
+		return point.clone().addScaledVector(this.up, height - point.dot(this.up));
+	}
+
+	toPlane(point: THREE.Vector3) {
+		return new THREE.Vector2(point.dot(this.u), point.dot(this.v));
+	}
+
+	fromPlane(point: THREE.Vector2, height: number) {
+		return new THREE.Vector3()
+			.addScaledVector(this.u, point.x)
+			.addScaledVector(this.v, point.y)
+			.addScaledVector(this.up, height);
+	}
+
+	/** the plane at `height`, its normal points up */
+	at(height: number) {
+		return new THREE.Plane(this.up.clone(), -height);
+	}
+}
+
+/**
+ * Faces of one color (the base, a label...)
+ */
+export class FaceBuilder {
+	positions: number[] = [];
+	color: number[] | null;
+
+	constructor(color: number[] | null) {
+		this.color = color;
+	}
+
+	triangle(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3) {
+		this.positions.push(a.x, a.y, a.z, b.x, b.y, b.z, c.x, c.y, c.z);
+	}
+
+	/** wound so the face looks towards `direction` */
+	orientedTriangle(
+		a: THREE.Vector3,
+		b: THREE.Vector3,
+		c: THREE.Vector3,
+		direction: THREE.Vector3
+	) {
+		const ab = new THREE.Vector3().subVectors(b, a);
+		const ac = new THREE.Vector3().subVectors(c, a);
+		if (ab.cross(ac).dot(direction) < 0) {
+			this.triangle(a, c, b);
+		} else {
+			this.triangle(a, b, c);
+		}
+	}
+
+	/** a flat polygon with holes, all points at one height, facing `normal` */
+	polygon(
+		plane: Plane,
+		outer: THREE.Vector3[],
+		holes: THREE.Vector3[][],
+		normal: THREE.Vector3
+	) {
+		const points = [outer, ...holes].flat();
+		const faces = triangulatePolygon(
+			[outer, ...holes].map((loop) => loop.map((point) => plane.toPlane(point)))
+		);
+		for (const [a, b, c] of faces) {
+			this.orientedTriangle(points[a], points[b], points[c], normal);
+		}
+	}
+
+	positionAttribute() {
+		return { itemSize: 3, array: Float32Array.from(this.positions) };
+	}
+
+	/** the faces with every attribute of `geometry` */
+	faces(geometry: THREE.BufferGeometry): FaceAttributes {
+		const positions = Float32Array.from(this.positions);
+		const colors = new Float32Array(positions.length);
+		if (this.color) {
+			for (let i = 0; i < colors.length; i += 3) colors.set(this.color, i);
+		}
+		return faceAttributesFor(geometry, positions, { color: colors });
+	}
+}
+
+/** mean color of the corners the border starts from */
+function borderColor(
+	halfEdges: number[],
+	colors: ArrayLike<number> | undefined
+): number[] | null {
+	if (!colors) {
+		return null;
+	}
+	const color = [0, 0, 0];
+	for (const h of halfEdges) {
+		for (let k = 0; k < 3; k++) color[k] += colors[h * 3 + k];
+	}
+	return color.map((value) => value / halfEdges.length);
+}
+
+function colorArray(geometry: THREE.BufferGeometry) {
+	return geometry.getAttribute("color")?.array as Float32Array | undefined;
+}
+
+function positionsOnly(geometry: THREE.BufferGeometry) {
+	const positions = new THREE.BufferGeometry();
+	positions.setAttribute("position", geometry.getAttribute("position"));
+	return positions;
+}
+
+function concat(
+	a: { itemSize: number; array: Float32Array },
+	b: { itemSize: number; array: Float32Array }
+) {
+	const array = new Float32Array(a.array.length + b.array.length);
+	array.set(a.array);
+	array.set(b.array, a.array.length);
+	return { itemSize: a.itemSize, array };
+}
+
+function concatFaces(
+	geometry: THREE.BufferGeometry,
+	parts: FaceAttributes[]
+): FaceAttributes {
+	const faces: FaceAttributes = {};
+	for (const name of Object.keys(geometry.attributes)) {
+		faces[name] = parts
+			.map((part) => part[name])
+			.reduce((all, part) => concat(all, part));
+	}
+	return faces;
+}
+
+/**
+ * Convex hull (counter-clockwise) of the points grown by `margin`,
+ * with rounded corners
+ */
+function roundedHull(points: THREE.Vector2[], margin: number) {
+	const grown: THREE.Vector2[] = [];
+	for (const point of convexHull(points)) {
+		for (let i = 0; i < 8; i++) {
+			const angle = (i / 8) * Math.PI * 2;
+			grown.push(
+				new THREE.Vector2(
+					point.x + margin * Math.cos(angle),
+					point.y + margin * Math.sin(angle)
+				)
+			);
+		}
+	}
+	return convexHull(grown);
+}
+
+/** Andrew's monotone chain, counter-clockwise */
+function convexHull(points: THREE.Vector2[]): THREE.Vector2[] {
+	const sorted = points.slice().sort((a, b) => a.x - b.x || a.y - b.y);
+	const cross = (o: THREE.Vector2, a: THREE.Vector2, b: THREE.Vector2) =>
+		(a.x - o.x) * (b.y - o.y) - (a.y - o.y) * (b.x - o.x);
+	const half = (list: THREE.Vector2[]) => {
+		const chain: THREE.Vector2[] = [];
+		for (const point of list) {
+			while (
+				chain.length >= 2 &&
+				cross(chain[chain.length - 2], chain[chain.length - 1], point) <= 0
+			) {
+				chain.pop();
+			}
+			chain.push(point);
+		}
+		chain.pop();
+		return chain;
+	};
+	return [...half(sorted), ...half(sorted.reverse())];
+}
+
+function centroid(points: THREE.Vector2[]) {
+	const sum = new THREE.Vector2();
+	for (const point of points) sum.add(point);
+	return sum.divideScalar(points.length);
+}
+
+/**
+ * Triangles (indices into the points of all loops) filling the outline
+ * `loops[0]` around the holes `loops[1..]`, using every edge of the loops
+ * so the faces along them share their edges exactly.
+ * Earcut leaves points on a straight line in the middle of an edge
+ * (split here), can leave slivers (flipped away) and, rarely, overlaps
+ * triangles with several holes: then the loops are triangulated again
+ * turned by some angle.
+ */
+function triangulatePolygon(loops: THREE.Vector2[][]): number[][] {
+	const points = loops.flat();
+	const center = new THREE.Vector2();
+	for (let attempt = 0; attempt < triangulationAttempts; attempt++) {
+		const angle = (attempt * Math.PI) / triangulationAttempts;
+		const [outer, ...holes] = loops.map((loop) =>
+			loop.map((point) => point.clone().rotateAround(center, angle))
+		);
+		const faces = THREE.ShapeUtils.triangulateShape(outer, holes);
+		flipSlivers(points, faces);
+		splitAtPoints(loops, faces);
+		if (fillsPolygon(loops, faces)) {
+			return faces;
+		}
+	}
+	throw new Error("The bottom of the base could not be closed.");
+}
+
+/** twice the signed area of a triangle */
+function signedArea(points: THREE.Vector2[], [a, b, c]: number[]) {
+	const ab = points[b].clone().sub(points[a]);
+	const ac = points[c].clone().sub(points[a]);
+	return ab.cross(ac);
+}
+
+/** the face with the edge a-b (either way), other than `except` */
+function faceWithEdge(faces: number[][], a: number, b: number, except = -1) {
+	return faces.findIndex(
+		(face, i) => i !== except && face.includes(a) && face.includes(b)
+	);
+}
+
+/**
+ * Splits the edges passing through a point of the loops at the point,
+ * for the points whose edges along the loop no face has
+ */
+function splitAtPoints(loops: THREE.Vector2[][], faces: number[][]) {
+	const points = loops.flat();
+	const edge = new THREE.Vector2();
+	const offset = new THREE.Vector2();
+	loopEdges(loops).forEach(([index, next]) => {
+		if (faceWithEdge(faces, index, next) !== -1) return;
+		for (const point of [index, next]) {
+			// faces added by a split have the point as a corner
+			for (let i = 0; i < faces.length; i++) {
+				const face = faces[i];
+				if (face.includes(point)) continue;
+				for (let k = 0; k < 3; k++) {
+					const a = face[k];
+					const b = face[(k + 1) % 3];
+					edge.subVectors(points[b], points[a]);
+					offset.subVectors(points[point], points[a]);
+					const lengthSq = edge.lengthSq();
+					const along = offset.dot(edge);
+					if (
+						along > 0 &&
+						along < lengthSq &&
+						Math.abs(edge.cross(offset)) <= 1e-9 * lengthSq
+					) {
+						faces[i] = face.map((p) => (p === b ? point : p));
+						faces.push(face.map((p) => (p === a ? point : p)));
+						break;
+					}
+				}
+			}
+		}
+	});
+}
+
+/** [from, to] indices into the points of all loops */
+function loopEdges(loops: THREE.Vector2[][]): number[][] {
+	const edges: number[][] = [];
+	let start = 0;
+	for (const loop of loops) {
+		for (let i = 0; i < loop.length; i++) {
+			edges.push([start + i, start + ((i + 1) % loop.length)]);
+		}
+		start += loop.length;
+	}
+	return edges;
+}
+
+const maxFlipPasses = 10;
+
+/**
+ * Flips the longest edge of every sliver (three points on a line)
+ * with the face on its other side
+ */
+function flipSlivers(points: THREE.Vector2[], faces: number[][]) {
+	for (let pass = 0; pass < maxFlipPasses; pass++) {
+		let flips = 0;
+		faces.forEach((face, i) => {
+			const edges = [0, 1, 2].map((k) =>
+				points[face[k]].distanceToSquared(points[face[(k + 1) % 3]])
+			);
+			const longest = edges.indexOf(Math.max(...edges));
+			if (Math.abs(signedArea(points, face)) > 1e-6 * edges[longest]) return;
+			const a = face[longest];
+			const c = face[(longest + 1) % 3];
+			const b = face[(longest + 2) % 3];
+			const other = faceWithEdge(faces, a, c, i);
+			if (other === -1) return;
+			const x = faces[other].find((p) => p !== a && p !== c)!;
+			// wound like the face across, b is (almost) on the edge c-a
+			const flipped = [
+				[b, a, x],
+				[c, b, x],
+			];
+			const sign = Math.sign(signedArea(points, faces[other]));
+			const areas = flipped.map((f) => signedArea(points, f));
+			if (areas.every((area) => area !== 0 && Math.sign(area) === sign)) {
+				faces[i] = flipped[0];
+				faces[other] = flipped[1];
+				flips++;
+			}
+		});
+		if (flips === 0) {
+			return;
+		}
+	}
+}
+
+/**
+ * The faces cover the polygon once: every edge of the loops is used
+ * and they add up to its area
+ */
+function fillsPolygon(loops: THREE.Vector2[][], faces: number[][]) {
+	if (loopEdges(loops).some(([a, b]) => faceWithEdge(faces, a, b) === -1)) {
+		return false;
+	}
+	const area = loops
+		.map(
+			(loop, i) => (i === 0 ? 1 : -1) * Math.abs(THREE.ShapeUtils.area(loop))
+		)
+		.reduce((sum, part) => sum + part);
+	const points = loops.flat();
+	let covered = 0;
+	for (const face of faces) covered += Math.abs(signedArea(points, face)) / 2;
+	return Math.abs(covered - area) <= 1e-6 * area;
+}
+
+/** an outline and the loops that make holes in it, indices into the loops */
+interface Region {
+	outer: number;
+	holes: number[];
+}
+
+function flat(loop: THREE.Vector2[]) {
+	return loop.flatMap((point) => [point.x, point.y]);
+}
+
+/**
+ * Groups loops into regions: a loop inside an odd number of others
+ * is a hole of the smallest one around it
+ */
+function nestLoops(loops: THREE.Vector2[][]): Region[] {
+	const polygons = loops.map(flat);
+	const areas = loops.map((loop) => Math.abs(THREE.ShapeUtils.area(loop)));
+	const around = loops.map((loop, i) =>
+		loops
+			.map((_, j) => j)
+			.filter(
+				(j) => j !== i && pointInPolygon(loop[0].x, loop[0].y, polygons[j])
+			)
+	);
+	const regions = new Map<number, Region>();
+	loops.forEach((_, i) => {
+		if (around[i].length % 2 === 0) {
+			regions.set(i, { outer: i, holes: [] });
+		}
+	});
+	loops.forEach((_, i) => {
+		if (around[i].length % 2 === 1) {
+			const parent = around[i]
+				.filter((j) => regions.has(j))
+				.sort((a, b) => areas[a] - areas[b])[0];
+			regions.get(parent)?.holes.push(i);
+		}
+	});
+	return [...regions.values()];
+}
+
+function contains(
+	region: Region,
+	loops: THREE.Vector2[][],
+	point: THREE.Vector2
+) {
+	return (
+		pointInPolygon(point.x, point.y, flat(loops[region.outer])) &&
+		region.holes.every(
+			(hole) => !pointInPolygon(point.x, point.y, flat(loops[hole]))
+		)
+	);
+}
+
+function distanceToLoop(loop: THREE.Vector2[], point: THREE.Vector2) {
+	const segment = new THREE.Line3();
+	const closest = new THREE.Vector3();
+	const p = new THREE.Vector3(point.x, point.y, 0);
+	let distance = Infinity;
+	loop.forEach((a, i) => {
+		const b = loop[(i + 1) % loop.length];
+		segment.start.set(a.x, a.y, 0);
+		segment.end.set(b.x, b.y, 0);
+		segment.closestPointToPoint(p, true, closest);
+		distance = Math.min(distance, closest.distanceTo(p));
+	});
+	return distance;
+}
+
+/**
+ * Centers of up to `count` holes that fit in the regions, spread apart:
+ * the first where there is the most room, each next one
+ * as far as possible from the others
+ */
+function placeDrainHoles(
+	regions: Region[],
+	loops: THREE.Vector2[][],
+	count: number,
+	radius: number
+): THREE.Vector2[] {
+	if (count <= 0 || loops.length === 0) {
+		return [];
+	}
+	const box = new THREE.Box2().setFromPoints(loops.flat());
+	const size = box.getSize(new THREE.Vector2());
+	const step = Math.max(radius / 2, Math.max(size.x, size.y) / 200);
+
+	const candidates: { point: THREE.Vector2; room: number }[] = [];
+	for (let x = box.min.x; x <= box.max.x; x += step) {
+		for (let y = box.min.y; y <= box.max.y; y += step) {
+			const point = new THREE.Vector2(x, y);
+			const region = regions.find((r) => contains(r, loops, point));
+			if (!region) continue;
+			const room = Math.min(
+				...[region.outer, ...region.holes].map((loop) =>
+					distanceToLoop(loops[loop], point)
+				)
+			);
+			if (room >= radius + drainHoleClearance) {
+				candidates.push({ point, room });
+			}
+		}
+	}
+	if (candidates.length === 0) {
+		return [];
+	}
+
+	const centers = [
+		candidates.reduce((best, c) => (c.room > best.room ? c : best)).point,
+	];
+	while (centers.length < count) {
+		let best: THREE.Vector2 | null = null;
+		let bestDistance = 2 * radius + drainHoleClearance;
+		for (const { point } of candidates) {
+			const distance = Math.min(...centers.map((c) => c.distanceTo(point)));
+			if (distance > bestDistance) {
+				bestDistance = distance;
+				best = point;
+			}
+		}
+		if (!best) break;
+		centers.push(best);
+	}
+	return centers;
+}
+
+/** counter-clockwise points around the center */
+function circle(center: THREE.Vector2, radius: number) {
+	return Array.from({ length: drainHoleSegments }, (_, i) => {
+		const angle = (i / drainHoleSegments) * Math.PI * 2;
+		return new THREE.Vector2(
+			center.x + radius * Math.cos(angle),
+			center.y + radius * Math.sin(angle)
+		);
+	});
+}
@@ -0,0 +1,198 @@
+import * as THREE from "three";
+import { symmetricEigen } from "./linear_algebra";
+
+/** where the occlusal plane is taken from */
+export type OcclusalPlaneSource = "principal-axes" | "points";
+
+/** height of the ground plane drawn by the viewer */
+export const groundLevel = -10;
+
+/**
+ * Centroid and principal axes (sorted by decreasing variance) of a point set
+ */
+export function principalAxes(
+	points: THREE.Vector3[],
+	weights?: number[]
+): { centroid: THREE.Vector3; axes: THREE.Vector3[] } {
+	let totalWeight = 0;
+	const centroid = new THREE.Vector3();
+	points.forEach((point, i) => {
+		const w = weights ? weights[i] : 1;
+		centroid.addScaledVector(point, w);
+		totalWeight += w;
+	});
+	centroid.divideScalar(totalWeight);
+
+	const covariance = [
+		[0, 0, 0],
+		[0, 0, 0],
+		[0, 0, 0],
+	];
+	const d = new THREE.Vector3();
+	points.forEach((point, i) => {
+		const w = weights ? weights[i] : 1;
+		const c = d.subVectors(point, centroid).toArray();
+		for (let r = 0; r < 3; r++) {
+			for (let k = 0; k < 3; k++) {
+				covariance[r][k] += (w * c[r] * c[k]) / totalWeight;
+			}
+		}
+	});
+
+	const { vectors } = symmetricEigen(covariance);
+	return {
+		centroid,
+		axes: vectors.map((v) => new THREE.Vector3().fromArray(v).normalize()),
+	};
+}
+
+/**
+ * Least-squares plane through the points (at least three)
+ */
+export function fitPlane(points: THREE.Vector3[]): {
+	centroid: THREE.Vector3;
+	normal: THREE.Vector3;
+} {
+	if (points.length < 3) {
+		throw new Error("At least three points are needed to fit a plane.");
+	}
+	const { centroid, axes } = principalAxes(points);
+	return { centroid, normal: axes[2] };
+}
+
+/**
+ * Rigid transform (world space) that puts a dental model in a standard pose:
+ * the occlusal plane horizontal with the teeth facing up (+y),
+ * the arch midline facing forward (+z)
+ * and the lowest point resting on the ground plane.
+ *
+ * Without `occlusalNormal` the plane is the one of the two largest
+ * principal axes of the surface, which for an arch spans its width and depth.
+ */
+export function occlusalOrientation(
+	geometry: THREE.BufferGeometry,
+	matrixWorld: THREE.Matrix4,
+	occlusalNormal?: THREE.Vector3
+): THREE.Matrix4 {
+	const position = geometry.getAttribute("position");
+	const faceCount = position.count / 3;
+
+	const centroids: THREE.Vector3[] = [];
+	const areas: number[] = [];
+	// sum of the area weighted normals, for an open scan this points
+	// out of its open side (up through the teeth)
+	const normalSum = new THREE.Vector3();
+	const triangle = new THREE.Triangle();
+	const normal = new THREE.Vector3();
+	for (let face = 0; face < faceCount; face++) {
+		triangle.setFromAttributeAndIndices(
+			position,
+			face * 3,
+			face * 3 + 1,
+			face * 3 + 2
+		);
+		triangle.a.applyMatrix4(matrixWorld);
+		triangle.b.applyMatrix4(matrixWorld);
+		triangle.c.applyMatrix4(matrixWorld);
+		const area = triangle.getArea();
+		if (area === 0) continue;
+		centroids.push(triangle.getMidpoint(new THREE.Vector3()));
+		areas.push(area);
+		normalSum.addScaledVector(triangle.getNormal(normal), area);
+	}
+	if (centroids.length < 3) {
+		throw new Error("The model has no surface to orient.");
+	}
+
+	const { centroid, axes } = principalAxes(centroids, areas);
+	const up = (occlusalNormal || axes[2]).clone().normalize();
+	if (normalSum.dot(up) < 0) {
+		up.negate();
+	}
+
+	const inPlane = axes[0].clone().projectOnPlane(up);
+	if (inPlane.lengthSq() < 1e-12) {
+		inPlane.copy(axes[1]).projectOnPlane(up);
+	}
+	inPlane.normalize();
+	const across = new THREE.Vector3().crossVectors(inPlane, up);
+
+	// the arch is a U, narrower at the incisors than at the molars:
+	// the midline is the in-plane direction along which the width changes most
+	let lateral = inPlane;
+	let forward = across;
+	let widths = archEndWidths(centroids, centroid, forward, lateral);
+	const other = archEndWidths(centroids, centroid, inPlane, across);
+	if (
+		Math.abs(other.front - other.back) > Math.abs(widths.front - widths.back)
+	) {
+		// keeps the basis right handed (forward = lateral x up)
+		lateral = across.clone().negate();
+		forward = inPlane;
+		widths = other;
+	}
+	if (widths.front > widths.back) {
+		lateral.negate();
+		forward.negate();
+	}
+
+	// rotate about the centroid so the model stays where it is
+	const rotation = new THREE.Matrix4()
+		.makeBasis(lateral, up, forward)
+		.transpose();
+	const transform = new THREE.Matrix4()
+		.makeTranslation(centroid.x, centroid.y, centroid.z)
+		.multiply(rotation)
+		.multiply(
+			new THREE.Matrix4().makeTranslation(-centroid.x, -centroid.y, -centroid.z)
+		);
+
+	const toWorld = transform.clone().multiply(matrixWorld);
+	let lowest = Infinity;
+	const vertex = new THREE.Vector3();
+	for (let i = 0; i < position.count; i++) {
+		vertex.fromBufferAttribute(position, i).applyMatrix4(toWorld);
+		lowest = Math.min(lowest, vertex.y);
+	}
+	return new THREE.Matrix4()
+		.makeTranslation(0, groundLevel - lowest, 0)
+		.multiply(transform);
+}
+
+/**
+ * Width (along `lateral`) of the front and back quarter
+ * of the points along `forward`
+ */
+function archEndWidths(
+	points: THREE.Vector3[],
+	centroid: THREE.Vector3,
+	forward: THREE.Vector3,
+	lateral: THREE.Vector3
+) {
+	const d = new THREE.Vector3();
+	let minDepth = Infinity;
+	let maxDepth = -Infinity;
+	const depths = points.map((p) => {
+		const depth = d.subVectors(p, centroid).dot(forward);
+		minDepth = Math.min(minDepth, depth);
+		maxDepth = Math.max(maxDepth, depth);
+		return depth;
+	});
+	const band = (maxDepth - minDepth) / 4;
+	const front = { min: Infinity, max: -Infinity };
+	const back = { min: Infinity, max: -Infinity };
+	points.forEach((p, i) => {
+		const side = d.subVectors(p, centroid).dot(lateral);
+		const range =
+			depths[i] > maxDepth - band
+				? front
+				: depths[i] < minDepth + band
+					? back
+					: null;
+		if (range) {
+			range.min = Math.min(range.min, side);
+			range.max = Math.max(range.max, side);
+		}
+	});
+	return { front: front.max - front.min, back: back.max - back.min };
+}
@@ -0,0 +1,451 @@
+import * as THREE from "three";
+import { faceAttributesFor } from "./cut_selection";
+import type { FaceAttributes } from "./history";
+
+/**
+ * Pose of the cutting plane in world space,
+ * the normal of the plane is its rotated +y axis
+ */
+export interface CutPlanePose {
+	/** a point on the plane */
+	position: number[];
+	/** Euler angles (XYZ) in degrees */
+	rotation: number[];
+}
+
+/**
+ * The plane (world space) of a pose, its normal points to the kept side.
+ * By default the side above the plane is kept.
+ */
+export function cutPlaneFromPose(
+	pose: CutPlanePose,
+	removeAbove = false
+): THREE.Plane {
+	const [x, y, z] = pose.rotation.map(THREE.MathUtils.degToRad);
+	const normal = new THREE.Vector3(0, 1, 0).applyEuler(
+		new THREE.Euler(x, y, z)
+	);
+	if (removeAbove) {
+		normal.negate();
+	}
+	return new THREE.Plane().setFromNormalAndCoplanarPoint(
+		normal,
+		new THREE.Vector3().fromArray(pose.position)
+	);
+}
+
+export interface PlaneCut {
+	/** faces on the removed side of the plane or crossed by it */
+	faces: Set<number>;
+	/** the kept parts of the crossed faces, followed by the cap */
+	added: FaceAttributes;
+	/** closed sections that were capped */
+	cappedSections: number;
+	/** sections running into a hole of the scan, they can not be capped */
+	openSections: number;
+}
+
+/**
+ * a vertex of the cut: corner `a` moved by `t` towards corner `b`
+ * (a === b for the corners of the geometry)
+ */
+interface CutVertex {
+	a: number;
+	b: number;
+	t: number;
+}
+
+interface SourceAttribute {
+	name: string;
+	itemSize: number;
+	array: ArrayLike<number>;
+}
+
+// distances below this (mm) are on the plane
+const epsilon = 1e-6;
+// section points closer than this are merged
+const weldTolerance = 1e-5;
+
+/**
+ * Splits a non-indexed geometry along a plane (in the local space of the
+ * geometry), keeping the side its normal points to.
+ * Crossed faces are split exactly along the plane rather than removed
+ * as a whole, and the closed sections can be capped by flat faces.
+ * `colors` overrides the color attribute (e.g. to ignore the selection highlight).
+ */
+export function planeCut(
+	geometry: THREE.BufferGeometry,
+	plane: THREE.Plane,
+	{ cap = true, colors }: { cap?: boolean; colors?: Float32Array } = {}
+): PlaneCut {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+
+	const position = geometry.getAttribute("position");
+	const p = position.array;
+	const faceCount = position.count / 3;
+	const sources = cutAttributes(geometry, colors);
+	const added = sources.map(() => [] as number[]);
+
+	const distance = planeDistances(p, plane);
+
+	const emit = (vertex: CutVertex) => {
+		sources.forEach(({ itemSize, array }, i) => {
+			for (let k = 0; k < itemSize; k++) {
+				const from = array[vertex.a * itemSize + k];
+				const to = array[vertex.b * itemSize + k];
+				added[i].push(from + vertex.t * (to - from));
+			}
+		});
+	};
+
+	const faces = new Set<number>();
+	const section = new Section(p);
+	for (let face = 0; face < faceCount; face++) {
+		const first = face * 3;
+		let below = false;
+		for (let corner = first; corner < first + 3; corner++) {
+			below ||= distance[corner] < 0;
+		}
+		const polygon = clipFace(face, distance, section);
+		if (!polygon) {
+			faces.add(face);
+			continue;
+		}
+		if (!below) {
+			continue;
+		}
+		faces.add(face);
+		for (let i = 1; i < polygon.length - 1; i++) {
+			emit(polygon[0]);
+			emit(polygon[i]);
+			emit(polygon[i + 1]);
+		}
+	}
+
+	const { loops, open } = section.chain();
+	let cappedSections = 0;
+	if (cap) {
+		// the cap faces away from the kept side
+		const normal = plane.normal.clone().negate();
+		for (const triangle of triangulateLoops(loops, section, normal)) {
+			for (const point of triangle) {
+				emit(section.points[point]);
+			}
+		}
+		cappedSections = loops.length;
+	}
+
+	const given: Record<string, Float32Array> = {};
+	sources.forEach(({ name }, i) => {
+		given[name] = Float32Array.from(added[i]);
+	});
+	return {
+		faces,
+		added: faceAttributesFor(geometry, given.position, given),
+		cappedSections,
+		openSections: open.length + (cap ? 0 : loops.length),
+	};
+}
+
+export interface SectionPolyline {
+	points: THREE.Vector3[];
+	/** loops around a closed part of the model, the others run into holes */
+	closed: boolean;
+}
+
+/**
+ * The polylines where the plane crosses a non-indexed geometry
+ * (in the local space of the geometry), without changing it
+ */
+export function planeSection(
+	geometry: THREE.BufferGeometry,
+	plane: THREE.Plane
+): SectionPolyline[] {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+	const p = geometry.getAttribute("position").array;
+	const distance = planeDistances(p, plane);
+	const section = new Section(p);
+	for (let face = 0; face < distance.length / 3; face++) {
+		clipFace(face, distance, section);
+	}
+	const { loops, open } = section.chain();
+	const polyline = (points: number[], closed: boolean) => ({
+		points: points.map((point) => section.position(point)),
+		closed,
+	});
+	return [
+		...loops.map((loop) => polyline(loop, true)),
+		...open.map((points) => polyline(points, false)),
+	];
+}
+
+/** signed distances of the corners to the plane, 0 for those on it */
+function planeDistances(p: ArrayLike<number>, plane: THREE.Plane) {
+	const distance = new Float64Array(p.length / 3);
+	for (let corner = 0; corner < distance.length; corner++) {
+		const d =
+			plane.normal.x * p[corner * 3] +
+			plane.normal.y * p[corner * 3 + 1] +
+			plane.normal.z * p[corner * 3 + 2] +
+			plane.constant;
+		distance[corner] = Math.abs(d) < epsilon ? 0 : d;
+	}
+	return distance;
+}
+
+/**
+ * The kept part of a face (Sutherland-Hodgman), null when it is entirely
+ * on the removed side. Its edges on the plane are added to the section.
+ */
+function clipFace(
+	face: number,
+	distance: Float64Array,
+	section: Section
+): CutVertex[] | null {
+	const p = section.positions;
+	const first = face * 3;
+	let above = false;
+	for (let corner = first; corner < first + 3; corner++) {
+		above ||= distance[corner] > 0;
+	}
+	if (!above) {
+		return null;
+	}
+
+	// both faces sharing an edge have to compute the same point
+	const intersection = (c0: number, c1: number): CutVertex => {
+		const [a, b] = comparePositions(p, c0, c1) < 0 ? [c0, c1] : [c1, c0];
+		return { a, b, t: distance[a] / (distance[a] - distance[b]) };
+	};
+	const onPlane = (vertex: CutVertex) =>
+		vertex.a !== vertex.b || distance[vertex.a] === 0;
+
+	const polygon: CutVertex[] = [];
+	for (let i = 0; i < 3; i++) {
+		const current = first + i;
+		const next = first + ((i + 1) % 3);
+		if (distance[current] >= 0) {
+			polygon.push({ a: current, b: current, t: 0 });
+		}
+		if (distance[current] * distance[next] < 0) {
+			polygon.push(intersection(current, next));
+		}
+	}
+
+	for (let i = 0; i < polygon.length; i++) {
+		const from = polygon[i];
+		const to = polygon[(i + 1) % polygon.length];
+		if (onPlane(from) && onPlane(to)) {
+			// the cap runs along the edge in the other direction
+			section.addSegment(to, from);
+		}
+	}
+	return polygon;
+}
+
+/**
+ * Attributes interpolated along the cut faces,
+ * the cut faces get flat normals
+ */
+function cutAttributes(
+	geometry: THREE.BufferGeometry,
+	colors?: Float32Array
+): SourceAttribute[] {
+	const sources: SourceAttribute[] = [];
+	for (const name of ["position", "uv", "color"]) {
+		const attribute = geometry.getAttribute(name);
+		if (attribute) {
+			sources.push({
+				name,
+				itemSize: attribute.itemSize,
+				array: name === "color" && colors ? colors : attribute.array,
+			});
+		}
+	}
+	return sources;
+}
+
+function comparePositions(p: ArrayLike<number>, a: number, b: number) {
+	for (let k = 0; k < 3; k++) {
+		const difference = p[a * 3 + k] - p[b * 3 + k];
+		if (difference !== 0) return difference;
+	}
+	return 0;
+}
+
+/**
+ * Edges where the plane crosses the surface, merged into polylines
+ */
+class Section {
+	points: CutVertex[] = [];
+	/** [from, to] point indices */
+	segments: number[][] = [];
+	positions: ArrayLike<number>;
+	pointByKey = new Map<string, number>();
+
+	constructor(positions: ArrayLike<number>) {
+		this.positions = positions;
+	}
+
+	position(point: number, target = new THREE.Vector3()) {
+		const { a, b, t } = this.points[point];
+		const p = this.positions;
+		return target.set(
+			p[a * 3] + t * (p[b * 3] - p[a * 3]),
+			p[a * 3 + 1] + t * (p[b * 3 + 1] - p[a * 3 + 1]),
+			p[a * 3 + 2] + t * (p[b * 3 + 2] - p[a * 3 + 2])
+		);
+	}
+
+	addPoint(vertex: CutVertex): number {
+		this.points.push(vertex);
+		const { x, y, z } = this.position(this.points.length - 1);
+		const key = [x, y, z]
+			.map((value) => Math.round(value / weldTolerance))
+			.join(",");
+		const existing = this.pointByKey.get(key);
+		if (existing !== undefined) {
+			this.points.pop();
+			return existing;
+		}
+		this.pointByKey.set(key, this.points.length - 1);
+		return this.points.length - 1;
+	}
+
+	addSegment(from: CutVertex, to: CutVertex) {
+		const a = this.addPoint(from);
+		const b = this.addPoint(to);
+		if (a !== b) {
+			this.segments.push([a, b]);
+		}
+	}
+
+	/**
+	 * Follows the segments into closed loops,
+	 * and polylines that do not close
+	 */
+	chain(): { loops: number[][]; open: number[][] } {
+		const outgoing = new Map<number, number[]>();
+		const incoming = new Map<number, number>();
+		this.segments.forEach(([from, to], segment) => {
+			if (!outgoing.has(from)) outgoing.set(from, []);
+			outgoing.get(from)!.push(segment);
+			incoming.set(to, (incoming.get(to) || 0) + 1);
+		});
+
+		const used = new Uint8Array(this.segments.length);
+		const follow = (segment: number) => {
+			const start = this.segments[segment][0];
+			const points = [start];
+			let current = segment;
+			for (;;) {
+				used[current] = 1;
+				const point = this.segments[current][1];
+				if (point === start) {
+					return { points, closed: points.length > 2 };
+				}
+				points.push(point);
+				const next = (outgoing.get(point) || []).find((s) => !used[s]);
+				if (next === undefined) {
+					return { points, closed: false };
+				}
+				current = next;
+			}
+		};
+
+		// polylines start where nothing leads in
+		const open: number[][] = [];
+		this.segments.forEach(([from], segment) => {
+			if (!used[segment] && !incoming.has(from)) {
+				open.push(follow(segment).points);
+			}
+		});
+
+		const loops: number[][] = [];
+		this.segments.forEach((_, segment) => {
+			if (used[segment]) return;
+			const { points, closed } = follow(segment);
+			if (closed) {
+				loops.push(points);
+			} else {
+				open.push(points);
+			}
+		});
+		return { loops, open };
+	}
+}
+
+/**
+ * Triangulates the loops in the plane, loops winding clockwise
+ * (seen from `normal`) are holes of the smallest loop around them.
+ * Returns the triangles as section point indices, wound around `normal`.
+ */
+function triangulateLoops(
+	loops: number[][],
+	section: Section,
+	normal: THREE.Vector3
+): number[][] {
+	// u x v = normal
+	const u = new THREE.Vector3(1, 0, 0);
+	if (Math.abs(normal.x) > 0.9) u.set(0, 1, 0);
+	u.projectOnPlane(normal).normalize();
+	const v = new THREE.Vector3().crossVectors(normal, u);
+
+	const point = new THREE.Vector3();
+	const polygons = loops.map((loop) => {
+		const contour = loop.map((index) => {
+			section.position(index, point);
+			return new THREE.Vector2(point.dot(u), point.dot(v));
+		});
+		return { loop, contour, area: THREE.ShapeUtils.area(contour) };
+	});
+
+	const outers = polygons.filter((polygon) => polygon.area > 0);
+	const holes = new Map(outers.map((outer) => [outer, [] as typeof outers]));
+	for (const hole of polygons.filter((polygon) => polygon.area < 0)) {
+		const around = outers
+			.filter((outer) => containsPoint(outer.contour, hole.contour[0]))
+			.sort((a, b) => a.area - b.area)[0];
+		holes.get(around)?.push(hole);
+	}
+
+	const triangles: number[][] = [];
+	for (const outer of outers) {
+		const outerHoles = holes.get(outer)!;
+		const points = [outer.loop, ...outerHoles.map((hole) => hole.loop)].flat();
+		const flat = [outer.contour, ...outerHoles.map((h) => h.contour)].flat();
+		const faces = THREE.ShapeUtils.triangulateShape(
+			outer.contour.slice(),
+			outerHoles.map((hole) => hole.contour.slice())
+		);
+		for (const [a, b, c] of faces) {
+			const ab = flat[b].clone().sub(flat[a]);
+			const ac = flat[c].clone().sub(flat[a]);
+			triangles.push(
+				ab.cross(ac) >= 0
+					? [points[a], points[b], points[c]]
+					: [points[a], points[c], points[b]]
+			);
+		}
+	}
+	return triangles;
+}
+
+function containsPoint(polygon: THREE.Vector2[], point: THREE.Vector2) {
+	let inside = false;
+	for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+		const a = polygon[i];
+		const b = polygon[j];
+		if (
+			a.y > point.y !== b.y > point.y &&
+			point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+		) {
+			inside = !inside;
+		}
+	}
+	return inside;
+}
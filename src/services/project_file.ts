@@ -0,0 +1,446 @@
+import * as THREE from "three";
+import type { FaceAttributes, HistoryEntry } from "./history";
+
+/**
+ * .castcad project file
+ * ============================
+ * [8 bytes magic "CASTCAD\n"] [uint32 header length] [JSON header]
+ * [padding to 4 bytes] [binary chunk]
+ *
+ * Large arrays (geometry, selection, history diffs) are stored in the binary
+ * chunk and referenced from the header by offset/length.
+ */
+
+export const PROJECT_VERSION = 1;
+export const PROJECT_EXTENSION = ".castcad";
+const MAGIC = "CASTCAD\n";
+
+export interface CameraPose {
+	position: number[];
+	target: number[];
+}
+
+export interface SourceFile {
+	name: string;
+	contents: ArrayBuffer;
+}
+
+export interface ProjectModelData {
+	id: number;
+	name: string;
+	/** the file the model was loaded from, as it was read */
+	source: SourceFile | null;
+	/** the edited (non-indexed) geometry */
+	geometry: THREE.BufferGeometry;
+	/** original colors of the edited geometry (without selection highlight) */
+	colors: Float32Array;
+	scannerColors: boolean;
+	/** column-major 4x4 matrix of the model */
+	transform: number[];
+	selection: Uint32Array;
+	visible: boolean;
+	locked: boolean;
+	color: string;
+}
+
+export interface ProjectData {
+	models: ProjectModelData[];
+	activeModelId: number | null;
+	camera: CameraPose | null;
+	history: { entries: HistoryEntry[]; cursor: number } | null;
+}
+
+type ArrayType = "float32" | "uint32" | "uint8";
+
+interface BufferRef {
+	type: ArrayType;
+	offset: number;
+	length: number;
+}
+
+type SerializedAttributes = {
+	[name: string]: { itemSize: number; array: BufferRef };
+};
+
+type SerializedHistoryEntry =
+	| {
+			kind: "cut";
+			label: string;
+			modelId: number;
+			faces: BufferRef;
+			attributes: SerializedAttributes;
+	  }
+	| {
+			kind: "replace-faces";
+			label: string;
+			modelId: number;
+			faces: BufferRef;
+			attributes: SerializedAttributes;
+			added: SerializedAttributes;
+			selection: BufferRef;
+	  }
+	| {
+			kind: "add-faces";
+			label: string;
+			modelId: number;
+			added: SerializedAttributes;
+	  }
+	| {
+			kind: "selection";
+			label: string;
+			modelId: number;
+			added: BufferRef;
+			removed: BufferRef;
+	  }
+	| {
+			kind: "transform";
+			label: string;
+			modelId: number;
+			before: number[];
+			after: number[];
+	  };
+
+interface ProjectModelHeader {
+	id: number;
+	name: string;
+	source: { name: string; contents: BufferRef } | null;
+	geometry: { [name: string]: { itemSize: number; array: BufferRef } };
+	colors: BufferRef;
+	scannerColors: boolean;
+	transform: number[];
+	selection: BufferRef;
+	visible: boolean;
+	locked: boolean;
+	color: string;
+}
+
+interface ProjectHeader {
+	version: number;
+	models: ProjectModelHeader[];
+	activeModelId: number | null;
+	camera: CameraPose | null;
+	history: { entries: SerializedHistoryEntry[]; cursor: number } | null;
+}
+
+type RawProjectHeader = { version: number } & Record<string, unknown>;
+
+/**
+ * Schema migrations, keyed by the version they upgrade *from*.
+ * When the format changes: bump PROJECT_VERSION and add a migration
+ * from the previous version here, so older project files keep opening.
+ */
+const migrations: {
+	[fromVersion: number]: (header: RawProjectHeader) => RawProjectHeader;
+} = {};
+
+function migrate(header: RawProjectHeader): ProjectHeader {
+	if (typeof header.version !== "number") {
+		throw "The project file has no version.";
+	}
+	if (header.version > PROJECT_VERSION) {
+		throw `The project was saved by a newer version of CastCad (project version ${header.version}).`;
+	}
+	while (header.version < PROJECT_VERSION) {
+		const migration = migrations[header.version];
+		if (!migration) {
+			throw `Project version ${header.version} can not be upgraded.`;
+		}
+		header = migration(header);
+	}
+	return header as unknown as ProjectHeader;
+}
+
+class ChunkWriter {
+	chunks: Uint8Array[] = [];
+	length = 0;
+
+	add(array: Float32Array | Uint32Array | Uint8Array): BufferRef {
+		const type: ArrayType =
+			array instanceof Float32Array
+				? "float32"
+				: array instanceof Uint32Array
+					? "uint32"
+					: "uint8";
+		const ref = { type, offset: this.length, length: array.length };
+		this.chunks.push(
+			new Uint8Array(array.buffer, array.byteOffset, array.byteLength)
+		);
+		this.length += array.byteLength;
+		// keep every chunk aligned so it can be viewed without copying
+		const padding = (4 - (this.length % 4)) % 4;
+		if (padding) {
+			this.chunks.push(new Uint8Array(padding));
+			this.length += padding;
+		}
+		return ref;
+	}
+}
+
+function readArray(binary: ArrayBuffer, ref: BufferRef) {
+	switch (ref.type) {
+		case "float32":
+			return new Float32Array(binary, ref.offset, ref.length).slice();
+		case "uint32":
+			return new Uint32Array(binary, ref.offset, ref.length).slice();
+		case "uint8":
+			return new Uint8Array(binary, ref.offset, ref.length).slice();
+	}
+}
+
+function serializeAttributes(
+	attributes: FaceAttributes,
+	writer: ChunkWriter
+): SerializedAttributes {
+	const serialized: SerializedAttributes = {};
+	for (const [name, attribute] of Object.entries(attributes)) {
+		serialized[name] = {
+			itemSize: attribute.itemSize,
+			array: writer.add(attribute.array),
+		};
+	}
+	return serialized;
+}
+
+function deserializeAttributes(
+	attributes: SerializedAttributes,
+	binary: ArrayBuffer
+): FaceAttributes {
+	const deserialized: FaceAttributes = {};
+	for (const [name, attribute] of Object.entries(attributes)) {
+		deserialized[name] = {
+			itemSize: attribute.itemSize,
+			array: readArray(binary, attribute.array) as Float32Array,
+		};
+	}
+	return deserialized;
+}
+
+function serializeHistoryEntry(
+	entry: HistoryEntry,
+	writer: ChunkWriter
+): SerializedHistoryEntry {
+	switch (entry.kind) {
+		case "cut":
+			return {
+				kind: "cut",
+				label: entry.label,
+				modelId: entry.modelId,
+				faces: writer.add(entry.diff.faces),
+				attributes: serializeAttributes(entry.diff.attributes, writer),
+			};
+		case "replace-faces":
+			return {
+				kind: "replace-faces",
+				label: entry.label,
+				modelId: entry.modelId,
+				faces: writer.add(entry.diff.faces),
+				attributes: serializeAttributes(entry.diff.attributes, writer),
+				added: serializeAttributes(entry.added, writer),
+				selection: writer.add(entry.selection),
+			};
+		case "add-faces":
+			return {
+				kind: "add-faces",
+				label: entry.label,
+				modelId: entry.modelId,
+				added: serializeAttributes(entry.added, writer),
+			};
+		case "selection":
+			return {
+				kind: "selection",
+				label: entry.label,
+				modelId: entry.modelId,
+				added: writer.add(entry.added),
+				removed: writer.add(entry.removed),
+			};
+		case "transform":
+			return { ...entry };
+	}
+}
+
+function deserializeHistoryEntry(
+	entry: SerializedHistoryEntry,
+	binary: ArrayBuffer
+): HistoryEntry {
+	switch (entry.kind) {
+		case "cut":
+			return {
+				kind: "cut",
+				label: entry.label,
+				modelId: entry.modelId,
+				diff: {
+					faces: readArray(binary, entry.faces) as Uint32Array,
+					attributes: deserializeAttributes(entry.attributes, binary),
+				},
+			};
+		case "replace-faces":
+			return {
+				kind: "replace-faces",
+				label: entry.label,
+				modelId: entry.modelId,
+				diff: {
+					faces: readArray(binary, entry.faces) as Uint32Array,
+					attributes: deserializeAttributes(entry.attributes, binary),
+				},
+				added: deserializeAttributes(entry.added, binary),
+				selection: readArray(binary, entry.selection) as Uint32Array,
+			};
+		case "add-faces":
+			return {
+				kind: "add-faces",
+				label: entry.label,
+				modelId: entry.modelId,
+				added: deserializeAttributes(entry.added, binary),
+			};
+		case "selection":
+			return {
+				kind: "selection",
+				label: entry.label,
+				modelId: entry.modelId,
+				added: readArray(binary, entry.added) as Uint32Array,
+				removed: readArray(binary, entry.removed) as Uint32Array,
+			};
+		case "transform":
+			return { ...entry };
+	}
+}
+
+function writeModel(
+	model: ProjectModelData,
+	writer: ChunkWriter
+): ProjectModelHeader {
+	const geometry: ProjectModelHeader["geometry"] = {};
+	for (const name of ["position", "normal", "uv"]) {
+		const attribute = model.geometry.getAttribute(name);
+		if (!attribute) continue;
+		geometry[name] = {
+			itemSize: attribute.itemSize,
+			array: writer.add(
+				Float32Array.from(attribute.array as ArrayLike<number>)
+			),
+		};
+	}
+
+	return {
+		id: model.id,
+		name: model.name,
+		source: model.source
+			? {
+					name: model.source.name,
+					contents: writer.add(new Uint8Array(model.source.contents)),
+				}
+			: null,
+		geometry,
+		colors: writer.add(model.colors),
+		scannerColors: model.scannerColors,
+		transform: model.transform,
+		selection: writer.add(model.selection),
+		visible: model.visible,
+		locked: model.locked,
+		color: model.color,
+	};
+}
+
+function readModel(
+	model: ProjectModelHeader,
+	binary: ArrayBuffer
+): ProjectModelData {
+	const geometry = new THREE.BufferGeometry();
+	for (const [name, attribute] of Object.entries(model.geometry)) {
+		geometry.setAttribute(
+			name,
+			new THREE.Float32BufferAttribute(
+				readArray(binary, attribute.array) as Float32Array,
+				attribute.itemSize
+			)
+		);
+	}
+	const colors = readArray(binary, model.colors) as Float32Array;
+	geometry.setAttribute("color", new THREE.Float32BufferAttribute(colors, 3));
+
+	return {
+		id: model.id,
+		name: model.name,
+		source: model.source
+			? {
+					name: model.source.name,
+					contents: (readArray(binary, model.source.contents) as Uint8Array)
+						.buffer as ArrayBuffer,
+				}
+			: null,
+		geometry,
+		colors: colors.slice(),
+		scannerColors: model.scannerColors,
+		transform: model.transform,
+		selection: readArray(binary, model.selection) as Uint32Array,
+		visible: model.visible,
+		locked: model.locked,
+		color: model.color,
+	};
+}
+
+export function writeProject(project: ProjectData): Blob {
+	const writer = new ChunkWriter();
+
+	const header: ProjectHeader = {
+		version: PROJECT_VERSION,
+		models: project.models.map((model) => writeModel(model, writer)),
+		activeModelId: project.activeModelId,
+		camera: project.camera,
+		history: project.history
+			? {
+					cursor: project.history.cursor,
+					entries: project.history.entries.map((entry) =>
+						serializeHistoryEntry(entry, writer)
+					),
+				}
+			: null,
+	};
+
+	const magic = new TextEncoder().encode(MAGIC);
+	const json = new TextEncoder().encode(JSON.stringify(header));
+	const headerLength = new Uint8Array(4);
+	new DataView(headerLength.buffer).setUint32(0, json.length, true);
+	const padding = new Uint8Array(
+		(4 - ((magic.length + 4 + json.length) % 4)) % 4
+	);
+
+	return new Blob(
+		[magic, headerLength, json, padding, ...writer.chunks] as BlobPart[],
+		{ type: "application/octet-stream" }
+	);
+}
+
+export function readProject(contents: ArrayBuffer): ProjectData {
+	const magic = new TextDecoder().decode(contents.slice(0, MAGIC.length));
+	if (magic !== MAGIC) {
+		throw "This is not a CastCad project file.";
+	}
+
+	const view = new DataView(contents);
+	const headerLength = view.getUint32(MAGIC.length, true);
+	const headerStart = MAGIC.length + 4;
+	const rawHeader = JSON.parse(
+		new TextDecoder().decode(
+			contents.slice(headerStart, headerStart + headerLength)
+		)
+	) as RawProjectHeader;
+	const header = migrate(rawHeader);
+
+	const binaryStart = headerStart + headerLength;
+	const binary = contents.slice(binaryStart + ((4 - (binaryStart % 4)) % 4));
+
+	return {
+		models: header.models.map((model) => readModel(model, binary)),
+		activeModelId: header.activeModelId,
+		camera: header.camera,
+		history: header.history
+			? {
+					cursor: header.history.cursor,
+					entries: header.history.entries.map((entry) =>
+						deserializeHistoryEntry(entry, binary)
+					),
+				}
+			: null,
+	};
+}
@@ -0,0 +1,151 @@
+import * as THREE from "three";
+import type { FaceBVH } from "./face_bvh";
+
+export type SelectionTool = "brush" | "lasso" | "box" | "island";
+
+/** how a lasso/box region is combined with the current selection */
+export type SelectionOperation = "add" | "subtract" | "intersect";
+
+/**
+ * Whether `x, y` lies inside the polygon (even-odd rule).
+ * `polygon` holds x, y pairs.
+ */
+export function pointInPolygon(x: number, y: number, polygon: number[]) {
+	let inside = false;
+	const n = polygon.length / 2;
+	for (let i = 0, j = n - 1; i < n; j = i++) {
+		const xi = polygon[i * 2];
+		const yi = polygon[i * 2 + 1];
+		const xj = polygon[j * 2];
+		const yj = polygon[j * 2 + 1];
+		if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+			inside = !inside;
+		}
+	}
+	return inside;
+}
+
+const corner = new THREE.Vector3();
+const centroid = new THREE.Vector3();
+const eye = new THREE.Vector3();
+const toNDC = new THREE.Matrix4();
+
+/**
+ * Faces whose centroid projects inside the polygon
+ * (x, y pairs in normalized device coordinates).
+ * With `visibleOnly` the faces turned away from the camera or hidden
+ * behind other parts of the mesh are left out, otherwise the region
+ * goes through the whole model.
+ */
+export function facesInPolygon(
+	bvh: FaceBVH,
+	mesh: THREE.Mesh,
+	camera: THREE.Camera,
+	polygon: number[],
+	visibleOnly: boolean
+): number[] {
+	if (polygon.length < 6) return [];
+
+	let minX = Infinity;
+	let minY = Infinity;
+	let maxX = -Infinity;
+	let maxY = -Infinity;
+	for (let i = 0; i < polygon.length; i += 2) {
+		minX = Math.min(minX, polygon[i]);
+		maxX = Math.max(maxX, polygon[i]);
+		minY = Math.min(minY, polygon[i + 1]);
+		maxY = Math.max(maxY, polygon[i + 1]);
+	}
+
+	mesh.updateMatrixWorld();
+	camera.updateMatrixWorld();
+	toNDC
+		.copy(camera.projectionMatrix)
+		.multiply(camera.matrixWorldInverse)
+		.multiply(mesh.matrixWorld);
+	eye
+		.setFromMatrixPosition(camera.matrixWorld)
+		.applyMatrix4(mesh.matrixWorld.clone().invert());
+
+	const faces: number[] = [];
+	bvh.traverse(
+		(bounds, o) => {
+			// skip nodes whose projected box misses the polygon's bounding box
+			let nodeMinX = Infinity;
+			let nodeMinY = Infinity;
+			let nodeMaxX = -Infinity;
+			let nodeMaxY = -Infinity;
+			for (let i = 0; i < 8; i++) {
+				corner.set(
+					bounds[o + (i & 1 ? 3 : 0)],
+					bounds[o + (i & 2 ? 4 : 1)],
+					bounds[o + (i & 4 ? 5 : 2)]
+				);
+				const w =
+					toNDC.elements[3] * corner.x +
+					toNDC.elements[7] * corner.y +
+					toNDC.elements[11] * corner.z +
+					toNDC.elements[15];
+				// partly behind the camera, keep looking
+				if (w <= 0) return true;
+				corner.applyMatrix4(toNDC);
+				nodeMinX = Math.min(nodeMinX, corner.x);
+				nodeMaxX = Math.max(nodeMaxX, corner.x);
+				nodeMinY = Math.min(nodeMinY, corner.y);
+				nodeMaxY = Math.max(nodeMaxY, corner.y);
+			}
+			return !(
+				nodeMaxX < minX ||
+				nodeMinX > maxX ||
+				nodeMaxY < minY ||
+				nodeMinY > maxY
+			);
+		},
+		(face) => {
+			centroid.fromArray(bvh.centroids, face * 3).applyMatrix4(toNDC);
+			if (centroid.z > 1 || centroid.z < -1) return;
+			if (
+				centroid.x < minX ||
+				centroid.x > maxX ||
+				centroid.y < minY ||
+				centroid.y > maxY ||
+				!pointInPolygon(centroid.x, centroid.y, polygon)
+			) {
+				return;
+			}
+			if (visibleOnly && !bvh.isVisibleFrom(face, eye)) return;
+			faces.push(face);
+		}
+	);
+	return faces;
+}
+
+/**
+ * Applies a region to the selection (in place),
+ * returns the faces that were added and removed
+ */
+export function combineSelection(
+	selection: Set<number>,
+	region: number[],
+	operation: SelectionOperation
+): { added: number[]; removed: number[] } {
+	const added: number[] = [];
+	const removed: number[] = [];
+	if (operation === "add") {
+		for (const face of region) {
+			if (!selection.has(face)) added.push(face);
+		}
+	} else if (operation === "subtract") {
+		for (const face of region) {
+			if (selection.has(face)) removed.push(face);
+		}
+	} else {
+		const inRegion = new Set(region);
+		for (const face of selection) {
+			if (!inRegion.has(face)) removed.push(face);
+		}
+	}
+	added.forEach((face) => selection.add(face));
+	removed.forEach((face) => selection.delete(face));
+	return { added, removed };
+}
@@ -0,0 +1,95 @@
+import * as THREE from "three";
+import { symmetricEigen } from "./linear_algebra";
+
+export interface RigidFit {
+	/** transform (in the space of the points) that maps moving onto fixed */
+	matrix: THREE.Matrix4;
+	/** distance of each moving point to its fixed point after the fit */
+	residuals: number[];
+	/** root mean square of the residuals */
+	rms: number;
+}
+
+/**
+ * Least-squares rigid transform (rotation + translation, no scaling)
+ * mapping the `moving` points onto their matching `fixed` points.
+ *
+ * The rotation is found with Horn's closed-form quaternion method,
+ * which gives the same optimum as Kabsch's SVD method
+ * but never produces a reflection.
+ */
+export function fitRigidTransform(
+	moving: THREE.Vector3[],
+	fixed: THREE.Vector3[],
+	weights?: number[]
+): RigidFit {
+	if (moving.length !== fixed.length) {
+		throw new Error("Both point sets must have the same number of points.");
+	}
+	if (moving.length < 3) {
+		throw new Error("At least three point pairs are needed.");
+	}
+
+	let totalWeight = 0;
+	const movingCentroid = new THREE.Vector3();
+	const fixedCentroid = new THREE.Vector3();
+	for (let i = 0; i < moving.length; i++) {
+		const w = weights ? weights[i] : 1;
+		movingCentroid.addScaledVector(moving[i], w);
+		fixedCentroid.addScaledVector(fixed[i], w);
+		totalWeight += w;
+	}
+	movingCentroid.divideScalar(totalWeight);
+	fixedCentroid.divideScalar(totalWeight);
+
+	// cross-covariance matrix of the centered point sets
+	const covariance = [
+		[0, 0, 0],
+		[0, 0, 0],
+		[0, 0, 0],
+	];
+	const m = new THREE.Vector3();
+	const f = new THREE.Vector3();
+	for (let i = 0; i < moving.length; i++) {
+		const w = weights ? weights[i] : 1;
+		const mc = m.subVectors(moving[i], movingCentroid).toArray();
+		const fc = f
+			.subVectors(fixed[i], fixedCentroid)
+			.multiplyScalar(w)
+			.toArray();
+		for (let r = 0; r < 3; r++) {
+			for (let c = 0; c < 3; c++) {
+				covariance[r][c] += mc[r] * fc[c];
+			}
+		}
+	}
+	const [[sxx, sxy, sxz], [syx, syy, syz], [szx, szy, szz]] = covariance;
+
+	// the optimal rotation is the eigenvector of the largest eigenvalue
+	const { vectors } = symmetricEigen([
+		[sxx + syy + szz, syz - szy, szx - sxz, sxy - syx],
+		[syz - szy, sxx - syy - szz, sxy + syx, szx + sxz],
+		[szx - sxz, sxy + syx, -sxx + syy - szz, syz + szy],
+		[sxy - syx, szx + sxz, syz + szy, -sxx - syy + szz],
+	]);
+	const [qw, qx, qy, qz] = vectors[0];
+	const rotation = new THREE.Quaternion(qx, qy, qz, qw).normalize();
+
+	const translation = fixedCentroid
+		.clone()
+		.sub(movingCentroid.clone().applyQuaternion(rotation));
+	const matrix = new THREE.Matrix4().compose(
+		translation,
+		rotation,
+		new THREE.Vector3(1, 1, 1)
+	);
+
+	const residuals = moving.map((point, i) =>
+		point.clone().applyMatrix4(matrix).distanceTo(fixed[i])
+	);
+	const rms = Math.sqrt(
+		residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length
+	);
+
+	return { matrix, residuals, rms };
+}
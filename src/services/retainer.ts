@@ -0,0 +1,359 @@
+import * as THREE from "three";
+import { getFaceBVH, type FaceBVH } from "./face_bvh";
+import { FaceBuilder } from "./model_base";
+
+export type WireProfile = "round" | "rectangular";
+
+export interface RetainerOptions {
+	/** points on the teeth the wire runs along, in order */
+	points: THREE.Vector3[];
+	/** gap between the teeth and the wire (mm) */
+	offset: number;
+	profile: WireProfile;
+	/** of a round wire (mm) */
+	diameter: number;
+	/** of a rectangular wire, along the teeth (mm) */
+	width: number;
+	/** of a rectangular wire, away from the teeth (mm) */
+	thickness: number;
+	/** a pad bonded to the tooth at every point */
+	pads: boolean;
+	padDiameter: number;
+	padThickness: number;
+}
+
+export const defaultRetainerOptions: Omit<RetainerOptions, "points"> = {
+	offset: 0.1,
+	profile: "round",
+	diameter: 0.8,
+	width: 1.2,
+	thickness: 0.5,
+	pads: true,
+	padDiameter: 2.5,
+	padThickness: 0.4,
+};
+
+export const retainerLimits = {
+	offset: { min: 0, max: 2 },
+	diameter: { min: 0.3, max: 2 },
+	width: { min: 0.3, max: 3 },
+	thickness: { min: 0.2, max: 2 },
+	padDiameter: { min: 1, max: 5 },
+	padThickness: { min: 0.2, max: 1.5 },
+};
+
+/** distance between the samples of the wire (mm) */
+const wireStep = 0.25;
+/** sides of a round wire */
+const roundSegments = 16;
+/** passes keeping the wire off the teeth, each followed by smoothing */
+const clearancePasses = 5;
+/** the surface normal at a point is averaged over this radius (mm) */
+const normalRadius = 1;
+const padRings = 3;
+const padSegments = 24;
+
+/**
+ * Designs a bonded retainer along the teeth of `geometry`:
+ * a smooth wire through the points, kept `offset` away from the surface,
+ * with a pad following the tooth under every point.
+ * The wire and the pads are closed surfaces of their own that overlap,
+ * slicers print them as one piece.
+ */
+export function designRetainer(
+	geometry: THREE.BufferGeometry,
+	options: RetainerOptions
+): THREE.BufferGeometry {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+	if (options.points.length < 2) {
+		throw new Error("Click at least two points along the teeth.");
+	}
+	const bvh = getFaceBVH(geometry);
+	const normals = options.points.map((point) => surfaceNormal(bvh, point));
+
+	// distance of the axis of the wire from the surface
+	const half =
+		options.profile === "round" ? options.diameter / 2 : options.thickness / 2;
+	const clearance = options.offset + half;
+	const curve = new THREE.CatmullRomCurve3(
+		options.points.map((point, i) =>
+			point.clone().addScaledVector(normals[i], clearance)
+		),
+		false,
+		"centripetal"
+	);
+	if (curve.getLength() < wireStep) {
+		throw new Error("The points are too close to each other.");
+	}
+	const samples = curve.getSpacedPoints(
+		Math.ceil(curve.getLength() / wireStep)
+	);
+	keepClear(bvh, samples, clearance);
+
+	const builder = new FaceBuilder(null);
+	sweepWire(builder, bvh, samples, options);
+	if (options.pads) {
+		options.points.forEach((point, i) => {
+			addPad(builder, bvh, point, normals[i], options);
+		});
+	}
+
+	const retainer = new THREE.BufferGeometry();
+	retainer.setAttribute(
+		"position",
+		new THREE.Float32BufferAttribute(builder.positionAttribute().array, 3)
+	);
+	retainer.computeVertexNormals();
+	return retainer;
+}
+
+/** area weighted normal of the faces near the point that face its way */
+function surfaceNormal(bvh: FaceBVH, point: THREE.Vector3): THREE.Vector3 {
+	const hit = bvh.closestPoint(point, new THREE.Vector3());
+	if (!hit) {
+		throw new Error("Click the points on the model.");
+	}
+	const center = faceNormal(bvh, hit.face, true);
+
+	// a thin edge (e.g. of an incisor) must not take the other side into account
+	const normal = new THREE.Vector3();
+	const centroid = new THREE.Vector3();
+	bvh.traverse(
+		(bounds, o) =>
+			bounds[o] <= point.x + normalRadius &&
+			bounds[o + 3] >= point.x - normalRadius &&
+			bounds[o + 1] <= point.y + normalRadius &&
+			bounds[o + 4] >= point.y - normalRadius &&
+			bounds[o + 2] <= point.z + normalRadius &&
+			bounds[o + 5] >= point.z - normalRadius,
+		(candidate) => {
+			centroid.fromArray(bvh.centroids, candidate * 3);
+			if (centroid.distanceTo(point) > normalRadius) return;
+			const face = faceNormal(bvh, candidate, false);
+			if (face.dot(center) > 0) normal.add(face);
+		}
+	);
+	return normal.lengthSq() > 0 ? normal.normalize() : center;
+}
+
+/**
+ * Pushes the samples of the wire out of the teeth where the curve between
+ * the points cuts into them (e.g. between two teeth), smoothing the bends
+ */
+function keepClear(bvh: FaceBVH, samples: THREE.Vector3[], clearance: number) {
+	const closest = new THREE.Vector3();
+	const away = new THREE.Vector3();
+	const pushOut = () => {
+		for (const sample of samples) {
+			const hit = bvh.closestPoint(sample, closest, clearance);
+			if (!hit) continue;
+			away.subVectors(sample, closest);
+			// behind the face, the wire went into the tooth
+			const normal = faceNormal(bvh, hit.face, true);
+			if (away.dot(normal) < 0) away.negate();
+			if (away.lengthSq() === 0) away.copy(normal);
+			sample.copy(closest).addScaledVector(away.normalize(), clearance);
+		}
+	};
+	const smoothed = samples.map((sample) => sample.clone());
+	for (let pass = 0; pass < clearancePasses; pass++) {
+		pushOut();
+		for (let i = 1; i < samples.length - 1; i++) {
+			smoothed[i]
+				.copy(samples[i])
+				.multiplyScalar(2)
+				.add(samples[i - 1])
+				.add(samples[i + 1])
+				.divideScalar(4);
+		}
+		for (let i = 1; i < samples.length - 1; i++) {
+			samples[i].copy(smoothed[i]);
+		}
+	}
+	pushOut();
+}
+
+/** unit normal, or scaled by twice the area of the face */
+function faceNormal(bvh: FaceBVH, face: number, unit: boolean): THREE.Vector3 {
+	const [a, b, c] = [0, 1, 2].map((i) =>
+		new THREE.Vector3().fromArray(bvh.positions, face * 9 + i * 3)
+	);
+	const normal = b.sub(a).cross(c.sub(a));
+	return unit ? normal.normalize() : normal;
+}
+
+/**
+ * The profile swept along the samples, its thickness pointing away
+ * from the teeth, with flat ends
+ */
+function sweepWire(
+	builder: FaceBuilder,
+	bvh: FaceBVH,
+	samples: THREE.Vector3[],
+	options: RetainerOptions
+) {
+	const profile: [number, number][] =
+		options.profile === "round"
+			? Array.from({ length: roundSegments }, (_, i) => {
+					const angle = (i / roundSegments) * Math.PI * 2;
+					return [
+						(Math.cos(angle) * options.diameter) / 2,
+						(Math.sin(angle) * options.diameter) / 2,
+					];
+				})
+			: [
+					[options.thickness / 2, options.width / 2],
+					[-options.thickness / 2, options.width / 2],
+					[-options.thickness / 2, -options.width / 2],
+					[options.thickness / 2, -options.width / 2],
+				];
+
+	const closest = new THREE.Vector3();
+	let previousAway = new THREE.Vector3();
+	const rings = samples.map((sample, i) => {
+		const tangent = new THREE.Vector3()
+			.subVectors(
+				samples[Math.min(i + 1, samples.length - 1)],
+				samples[Math.max(i - 1, 0)]
+			)
+			.normalize();
+		const away = new THREE.Vector3();
+		if (bvh.closestPoint(sample, closest)) {
+			away.subVectors(sample, closest);
+		}
+		away.addScaledVector(tangent, -away.dot(tangent));
+		if (away.lengthSq() < 1e-12) {
+			away.copy(previousAway);
+		}
+		away.normalize();
+		previousAway = away;
+		const side = new THREE.Vector3().crossVectors(tangent, away);
+		return {
+			center: sample,
+			tangent,
+			points: profile.map(([x, y]) =>
+				sample.clone().addScaledVector(away, x).addScaledVector(side, y)
+			),
+		};
+	});
+
+	const outwards = new THREE.Vector3();
+	for (let i = 0; i + 1 < rings.length; i++) {
+		const [ring, next] = [rings[i], rings[i + 1]];
+		for (let j = 0; j < profile.length; j++) {
+			const k = (j + 1) % profile.length;
+			outwards
+				.addVectors(ring.points[j], ring.points[k])
+				.multiplyScalar(0.5)
+				.sub(ring.center);
+			builder.orientedTriangle(
+				ring.points[j],
+				ring.points[k],
+				next.points[k],
+				outwards
+			);
+			builder.orientedTriangle(
+				ring.points[j],
+				next.points[k],
+				next.points[j],
+				outwards
+			);
+		}
+	}
+	for (const [ring, direction] of [
+		[rings[0], rings[0].tangent.clone().negate()],
+		[rings[rings.length - 1], rings[rings.length - 1].tangent],
+	] as const) {
+		for (let j = 0; j < profile.length; j++) {
+			builder.orientedTriangle(
+				ring.center,
+				ring.points[j],
+				ring.points[(j + 1) % profile.length],
+				direction
+			);
+		}
+	}
+}
+
+/**
+ * A disc at `offset` from the tooth, its underside following the surface,
+ * so it can be bonded to the tooth
+ */
+function addPad(
+	builder: FaceBuilder,
+	bvh: FaceBVH,
+	point: THREE.Vector3,
+	normal: THREE.Vector3,
+	options: RetainerOptions
+) {
+	const x = new THREE.Vector3(1, 0, 0);
+	if (Math.abs(x.dot(normal)) > 0.9) x.set(0, 1, 0);
+	x.addScaledVector(normal, -x.dot(normal)).normalize();
+	const y = new THREE.Vector3().crossVectors(normal, x);
+	const radius = options.padDiameter / 2;
+	const down = normal.clone().negate();
+	const reach = radius * 2;
+
+	// the surface under the point of the pad, or its plane where there is none
+	const under = (u: number, v: number) => {
+		const above = point
+			.clone()
+			.addScaledVector(x, u)
+			.addScaledVector(y, v)
+			.addScaledVector(normal, reach);
+		const hit = bvh.raycast(above, down, reach * 2);
+		const depth = hit ? hit.distance : reach;
+		return above.addScaledVector(down, depth - options.offset);
+	};
+	const bottom: THREE.Vector3[][] = [[under(0, 0)]];
+	for (let ring = 1; ring <= padRings; ring++) {
+		const r = (radius * ring) / padRings;
+		bottom.push(
+			Array.from({ length: padSegments }, (_, i) => {
+				const angle = (i / padSegments) * Math.PI * 2;
+				return under(Math.cos(angle) * r, Math.sin(angle) * r);
+			})
+		);
+	}
+	const top = bottom.map((ring) =>
+		ring.map((p) => p.clone().addScaledVector(normal, options.padThickness))
+	);
+
+	for (const [rings, facing] of [
+		[bottom, down],
+		[top, normal],
+	] as const) {
+		for (let i = 0; i < padSegments; i++) {
+			const j = (i + 1) % padSegments;
+			builder.orientedTriangle(rings[0][0], rings[1][i], rings[1][j], facing);
+			for (let ring = 1; ring < padRings; ring++) {
+				const [inner, outer] = [rings[ring], rings[ring + 1]];
+				builder.orientedTriangle(inner[i], outer[i], outer[j], facing);
+				builder.orientedTriangle(inner[i], outer[j], inner[j], facing);
+			}
+		}
+	}
+	const rim = padRings;
+	for (let i = 0; i < padSegments; i++) {
+		const j = (i + 1) % padSegments;
+		const outwards = new THREE.Vector3()
+			.addVectors(bottom[rim][i], bottom[rim][j])
+			.multiplyScalar(0.5)
+			.sub(bottom[0][0]);
+		outwards.addScaledVector(normal, -outwards.dot(normal));
+		builder.orientedTriangle(
+			bottom[rim][i],
+			bottom[rim][j],
+			top[rim][j],
+			outwards
+		);
+		builder.orientedTriangle(
+			bottom[rim][i],
+			top[rim][j],
+			top[rim][i],
+			outwards
+		);
+	}
+}
@@ -0,0 +1,102 @@
+import * as THREE from "three";
+import { getFaceBVH } from "./face_bvh";
+
+/**
+ * Pairs of faces (flattened) that cross each other, faces sharing
+ * a vertex (see `faceVertices`) and `skipped` ones are not tested
+ */
+export function selfIntersections(
+	geometry: THREE.BufferGeometry,
+	faceVertices: (face: number) => number[],
+	skipped: Uint8Array
+): number[] {
+	const bvh = getFaceBVH(geometry);
+	const p = bvh.positions;
+	const min = new Float32Array(3);
+	const max = new Float32Array(3);
+	const triangle = [
+		new THREE.Vector3(),
+		new THREE.Vector3(),
+		new THREE.Vector3(),
+	];
+	const other = [new THREE.Vector3(), new THREE.Vector3(), new THREE.Vector3()];
+	const pairs: number[] = [];
+
+	for (let face = 0; face < bvh.faceCount; face++) {
+		if (skipped[face]) continue;
+		const v = face * 9;
+		for (let axis = 0; axis < 3; axis++) {
+			min[axis] = Math.min(p[v + axis], p[v + 3 + axis], p[v + 6 + axis]);
+			max[axis] = Math.max(p[v + axis], p[v + 3 + axis], p[v + 6 + axis]);
+			triangle[0].setComponent(axis, p[v + axis]);
+			triangle[1].setComponent(axis, p[v + 3 + axis]);
+			triangle[2].setComponent(axis, p[v + 6 + axis]);
+		}
+		const vertices = faceVertices(face);
+
+		bvh.traverse(
+			(bounds, o) =>
+				bounds[o] <= max[0] &&
+				bounds[o + 3] >= min[0] &&
+				bounds[o + 1] <= max[1] &&
+				bounds[o + 4] >= min[1] &&
+				bounds[o + 2] <= max[2] &&
+				bounds[o + 5] >= min[2],
+			(candidate) => {
+				// every pair once
+				if (candidate <= face || skipped[candidate]) return;
+				const candidateVertices = faceVertices(candidate);
+				if (candidateVertices.some((vertex) => vertices.includes(vertex))) {
+					return;
+				}
+				for (let i = 0; i < 3; i++) {
+					other[i].fromArray(p, candidate * 9 + i * 3);
+				}
+				if (trianglesCross(triangle, other)) {
+					pairs.push(face, candidate);
+				}
+			}
+		);
+	}
+	return pairs;
+}
+
+/** whether an edge of either triangle goes through the other one */
+function trianglesCross(t: THREE.Vector3[], u: THREE.Vector3[]): boolean {
+	for (let i = 0; i < 3; i++) {
+		if (segmentHitsTriangle(t[i], t[(i + 1) % 3], u)) return true;
+		if (segmentHitsTriangle(u[i], u[(i + 1) % 3], t)) return true;
+	}
+	return false;
+}
+
+const direction = new THREE.Vector3();
+const e1 = new THREE.Vector3();
+const e2 = new THREE.Vector3();
+const pv = new THREE.Vector3();
+const tv = new THREE.Vector3();
+const qv = new THREE.Vector3();
+
+/** Möller-Trumbore restricted to the segment from `from` to `to` */
+function segmentHitsTriangle(
+	from: THREE.Vector3,
+	to: THREE.Vector3,
+	[a, b, c]: THREE.Vector3[]
+): boolean {
+	direction.subVectors(to, from);
+	e1.subVectors(b, a);
+	e2.subVectors(c, a);
+	pv.crossVectors(direction, e2);
+	const det = e1.dot(pv);
+	// parallel to the plane of the triangle, coplanar overlaps are not found
+	if (Math.abs(det) < 1e-12) return false;
+	const inv = 1 / det;
+	tv.subVectors(from, a);
+	const u = tv.dot(pv) * inv;
+	if (u < 0 || u > 1) return false;
+	qv.crossVectors(tv, e1);
+	const w = direction.dot(qv) * inv;
+	if (w < 0 || u + w > 1) return false;
+	const t = e2.dot(qv) * inv;
+	return t > 0 && t < 1;
+}
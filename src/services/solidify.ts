@@ -0,0 +1,504 @@
+import * as THREE from "three";
+import { faceAttributesFor } from "./cut_selection";
+import { getFaceBVH, type FaceBVH } from "./face_bvh";
+import { getHalfEdgeMesh, type HalfEdgeMesh } from "./half_edge_mesh";
+import type { FaceAttributes } from "./history";
+import { selfIntersections } from "./self_intersections";
+
+export interface SolidifyOptions {
+	/** wall thickness in mm */
+	thickness: number;
+	/** passes smoothing the inner surface, more untangle tighter areas */
+	iterations?: number;
+	/** overrides the color attribute (e.g. to ignore the selection highlight) */
+	colors?: Float32Array;
+}
+
+export interface Solidified {
+	/** the inner surface followed by the rim (to be appended to the geometry) */
+	added: FaceAttributes;
+	/** boundary edges closed by the rim, 0 for a closed model (hollowed) */
+	rimEdges: number;
+}
+
+export const thicknessLimits = { min: 0.2, max: 10 };
+
+/** smoothing passes between two projections to the thickness */
+const smoothingSteps = 4;
+
+/**
+ * Turns the surface into a shell with walls of the given thickness,
+ * the scanned surface stays the outside of the shell.
+ *
+ * The inner surface starts as the surface moved back along the vertex
+ * normals, then is smoothed and projected to the thickness from the
+ * surface (an approximate level set of the distance to the surface)
+ * a few times. Moving along the normals alone folds over itself in
+ * narrow areas like the gaps between teeth, where the normals cross
+ * before the wall reaches its thickness.
+ * The boundaries of an open scan are joined to the inner surface by a rim,
+ * a closed model is hollowed.
+ * Throws when the inner surface still crosses itself or the surface after
+ * relaxing the folds (ridges much sharper than the wall is thick).
+ */
+export function solidify(
+	geometry: THREE.BufferGeometry,
+	{ thickness, iterations = 3, colors }: SolidifyOptions
+): Solidified {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+	const mesh = getHalfEdgeMesh(geometry);
+	const inner = offsetSurface(mesh, getFaceBVH(geometry), thickness, {
+		iterations,
+	});
+	const sourceColors =
+		colors || (geometry.getAttribute("color")?.array as Float32Array);
+
+	const positions: number[] = [];
+	const newColors: number[] = [];
+	// vertex `vertex` of the inner surface, with the color of corner `corner`
+	const emit = (vertex: number, corner: number) => {
+		positions.push(
+			inner[vertex * 3],
+			inner[vertex * 3 + 1],
+			inner[vertex * 3 + 2]
+		);
+		if (sourceColors) {
+			newColors.push(...sourceColors.subarray(corner * 3, corner * 3 + 3));
+		}
+	};
+	const emitOuter = (vertex: number, corner: number) => {
+		positions.push(...mesh.positions.subarray(vertex * 3, vertex * 3 + 3));
+		if (sourceColors) {
+			newColors.push(...sourceColors.subarray(corner * 3, corner * 3 + 3));
+		}
+	};
+
+	// the inner surface faces the hollow, the other way round
+	for (let face = 0; face < mesh.faceCount; face++) {
+		const [a, b, c] = mesh.faceVertices(face);
+		emit(a, face * 3);
+		emit(c, face * 3 + 2);
+		emit(b, face * 3 + 1);
+	}
+
+	// a quad between every boundary edge (u -> v) and its inner copy
+	let rimEdges = 0;
+	for (let h = 0; h < mesh.origins.length; h++) {
+		if (!mesh.isOpenEdge(h)) continue;
+		const u = mesh.origins[h];
+		const v = mesh.target(h);
+		const next = mesh.next(h);
+		emitOuter(v, next);
+		emitOuter(u, h);
+		emit(u, h);
+		emitOuter(v, next);
+		emit(u, h);
+		emit(v, next);
+		rimEdges++;
+	}
+
+	const added = faceAttributesFor(geometry, Float32Array.from(positions), {
+		color: Float32Array.from(newColors),
+	});
+	return { added, rimEdges };
+}
+
+/**
+ * Positions of the vertices of `mesh` moved to `thickness` behind the
+ * surface (see `solidify`), `bvh` is the one of the same surface.
+ * With `straightRim` boundary vertices are projected in the plane across
+ * the boundary, so the rim joining them to the surface is not twisted.
+ */
+export function offsetSurface(
+	mesh: HalfEdgeMesh,
+	bvh: FaceBVH,
+	thickness: number,
+	{ iterations = 3, straightRim = true } = {}
+): Float32Array {
+	const normals = vertexNormals(mesh);
+	const count = mesh.vertexCount;
+	const offset = new Float32Array(count * 3);
+	for (let i = 0; i < count * 3; i++) {
+		offset[i] = mesh.positions[i] - thickness * normals[i];
+	}
+
+	// boundary vertices are smoothed along the boundary and projected like
+	// the others (left on their normal the ring next to them slides past
+	// and folds over the rim), `across` is the normal of their plane
+	const neighbors: number[][] = [];
+	const across = new Float32Array(count * 3);
+	for (let vertex = 0; vertex < count; vertex++) {
+		if (!mesh.isBoundaryVertex(vertex)) {
+			neighbors.push(mesh.vertexNeighbors(vertex));
+			continue;
+		}
+		const around = boundaryNeighbors(mesh, vertex);
+		neighbors.push(around);
+		if (straightRim && around.length === 2) {
+			mesh
+				.vertexPosition(around[1])
+				.sub(mesh.vertexPosition(around[0]))
+				.normalize()
+				.toArray(across, vertex * 3);
+		}
+	}
+
+	const point = new THREE.Vector3();
+	const closest = new THREE.Vector3();
+	const normal = new THREE.Vector3();
+	const smoothed = new Float32Array(count * 3);
+	for (let iteration = 0; iteration < iterations; iteration++) {
+		for (let step = 0; step < smoothingSteps; step++) {
+			smoothed.set(offset);
+			for (let vertex = 0; vertex < count; vertex++) {
+				const around = neighbors[vertex];
+				if (around.length === 0) continue;
+				for (let k = 0; k < 3; k++) {
+					let sum = 0;
+					for (const n of around) sum += smoothed[n * 3 + k];
+					offset[vertex * 3 + k] =
+						(smoothed[vertex * 3 + k] + sum / around.length) / 2;
+				}
+			}
+		}
+
+		for (let vertex = 0; vertex < count; vertex++) {
+			point.fromArray(offset, vertex * 3);
+			// the surface is at most as far as the vertex it came from
+			const hit = bvh.closestPoint(
+				point,
+				closest,
+				point.distanceTo(mesh.vertexPosition(vertex, closest)) + 1e-6
+			);
+			if (!hit) continue;
+			faceNormal(bvh.positions, hit.face, normal);
+			point.sub(closest);
+			const distance = point.length();
+			if (distance < 1e-9) {
+				point.copy(normal).negate();
+			} else {
+				// back to the inner side if smoothing pushed it through the surface
+				point.divideScalar(point.dot(normal) > 0 ? -distance : distance);
+			}
+			point.multiplyScalar(thickness).add(closest);
+			normal.fromArray(across, vertex * 3);
+			if (normal.lengthSq() > 0) {
+				// into the plane across the boundary, as deep as it was
+				mesh.vertexPosition(vertex, closest);
+				point.sub(closest);
+				const depth = point.length();
+				point.addScaledVector(normal, -point.dot(normal));
+				if (point.lengthSq() > 1e-18) {
+					point.setLength(depth);
+				} else {
+					point.fromArray(normals, vertex * 3).multiplyScalar(-thickness);
+				}
+				point.add(closest);
+			}
+			point.toArray(offset, vertex * 3);
+		}
+	}
+	untangle(mesh, offset, neighbors);
+	unfold(mesh, offset, neighbors);
+	return offset;
+}
+
+/** boundary vertices are smoothed along the boundary only */
+function boundaryNeighbors(mesh: HalfEdgeMesh, vertex: number): number[] {
+	const neighbors: number[] = [];
+	for (const h of mesh.outgoingHalfEdges(vertex)) {
+		if (mesh.isBoundary(h)) neighbors.push(mesh.target(h));
+		const previous = mesh.prev(h);
+		if (mesh.isBoundary(previous)) neighbors.push(mesh.origins[previous]);
+	}
+	return neighbors;
+}
+
+const maxUntanglePasses = 20;
+
+/**
+ * Relaxes the vertices of the faces that the offset turned over,
+ * as happens close to sharp edges where the wall is thicker than
+ * the surface is wide. Those vertices end up a bit closer to the surface.
+ */
+function untangle(
+	mesh: HalfEdgeMesh,
+	offset: Float32Array,
+	neighbors: number[][]
+) {
+	const original = new THREE.Vector3();
+	const moved = new THREE.Vector3();
+	const a = new THREE.Vector3();
+	const b = new THREE.Vector3();
+	const c = new THREE.Vector3();
+	const turned = new Set<number>();
+	for (let pass = 0; pass < maxUntanglePasses; pass++) {
+		turned.clear();
+		for (let face = 0; face < mesh.faceCount; face++) {
+			const vertices = mesh.faceVertices(face);
+			mesh.vertexPosition(vertices[0], a);
+			mesh.vertexPosition(vertices[1], b);
+			mesh.vertexPosition(vertices[2], c);
+			original.subVectors(b, a).cross(c.sub(a));
+			a.fromArray(offset, vertices[0] * 3);
+			b.fromArray(offset, vertices[1] * 3);
+			c.fromArray(offset, vertices[2] * 3);
+			moved.subVectors(b, a).cross(c.sub(a));
+			if (original.dot(moved) <= 0) {
+				for (const vertex of vertices) turned.add(vertex);
+			}
+		}
+		let relaxed = 0;
+		for (const vertex of turned) {
+			const around = neighbors[vertex];
+			if (around.length === 0) continue;
+			a.set(0, 0, 0);
+			for (const n of around) a.add(b.fromArray(offset, n * 3));
+			a.divideScalar(around.length).toArray(offset, vertex * 3);
+			relaxed++;
+		}
+		if (relaxed === 0) {
+			return;
+		}
+	}
+}
+
+const maxUnfoldPasses = 20;
+/** passes in a row without fewer crossings before giving up */
+const maxStalledPasses = 3;
+/** rings of neighbors relaxed with the vertices of crossing faces */
+const unfoldRings = 3;
+const unfoldSweeps = 10;
+
+/**
+ * Relaxes the inner surface around faces that cross the surface, the
+ * rim or other inner faces until none do. The wall folds over itself
+ * without turning faces over (see `untangle`) behind ridges sharper than
+ * the wall is thick, and goes through the surface in narrow grooves.
+ */
+function unfold(
+	mesh: HalfEdgeMesh,
+	offset: Float32Array,
+	neighbors: number[][]
+) {
+	const shell = new Shell(mesh, offset);
+	// every face is tested first, then the faces around the relaxed ones
+	let tested: number[] | null = null;
+	let fewest = Infinity;
+	let stalled = 0;
+	for (let pass = 0; pass < maxUnfoldPasses; pass++) {
+		let region = shell.crossingVertices(tested);
+		if (region.size === 0) {
+			return;
+		}
+		if (region.size < fewest) {
+			fewest = region.size;
+			stalled = 0;
+		} else if (++stalled === maxStalledPasses) {
+			break;
+		}
+
+		for (let ring = 0; ring < unfoldRings; ring++) {
+			const grown = new Set(region);
+			for (const vertex of region) {
+				for (const n of neighbors[vertex]) grown.add(n);
+			}
+			region = grown;
+		}
+		const vertices = [...region].filter((v) => neighbors[v].length > 0);
+		const relaxed = new Float32Array(vertices.length * 3);
+		const point = new THREE.Vector3();
+		const sum = new THREE.Vector3();
+		for (let sweep = 0; sweep < unfoldSweeps; sweep++) {
+			vertices.forEach((vertex, i) => {
+				sum.set(0, 0, 0);
+				for (const n of neighbors[vertex]) {
+					sum.add(point.fromArray(offset, n * 3));
+				}
+				sum.divideScalar(neighbors[vertex].length).toArray(relaxed, i * 3);
+			});
+			vertices.forEach((vertex, i) => {
+				offset.set(relaxed.subarray(i * 3, i * 3 + 3), vertex * 3);
+			});
+		}
+		tested = shell.facesAround(region);
+	}
+	throw new Error(
+		"The inner wall folds over itself behind ridges sharper than the wall is thick, try a thinner wall."
+	);
+}
+
+/**
+ * The surface, its offset and the rim joining their boundaries as one
+ * set of faces: vertex v of the surface is v, its offset is v + vertexCount
+ */
+class Shell {
+	mesh: HalfEdgeMesh;
+	offset: Float32Array;
+	/** 3 vertices per face: the surface, the offset, then the rim */
+	faces: Uint32Array;
+	faceCount: number;
+	/** faces before this one are the surface, which is not moved */
+	firstMoved: number;
+
+	constructor(mesh: HalfEdgeMesh, offset: Float32Array) {
+		this.mesh = mesh;
+		this.offset = offset;
+		const count = mesh.vertexCount;
+		const corners = mesh.origins.length;
+		const rim: number[] = [];
+		for (let h = 0; h < corners; h++) {
+			if (!mesh.isOpenEdge(h)) continue;
+			const u = mesh.origins[h];
+			const v = mesh.target(h);
+			rim.push(v, u, u + count, v, u + count, v + count);
+		}
+		this.faces = new Uint32Array(corners * 2 + rim.length);
+		this.faces.set(mesh.origins);
+		for (let corner = 0; corner < corners; corner++) {
+			this.faces[corners + corner] = mesh.origins[corner] + count;
+		}
+		this.faces.set(rim, corners * 2);
+		this.faceCount = this.faces.length / 3;
+		this.firstMoved = mesh.faceCount;
+	}
+
+	faceVertices(face: number): number[] {
+		return Array.from(this.faces.subarray(face * 3, face * 3 + 3));
+	}
+
+	position(vertex: number, target: THREE.Vector3): THREE.Vector3 {
+		const count = this.mesh.vertexCount;
+		return vertex < count
+			? target.fromArray(this.mesh.positions, vertex * 3)
+			: target.fromArray(this.offset, (vertex - count) * 3);
+	}
+
+	/**
+	 * Offset vertices of the faces that cross another face, among
+	 * `faces` (all without), crossings within the surface do not count
+	 */
+	crossingVertices(faces: number[] | null): Set<number> {
+		const face = (i: number) => (faces ? faces[i] : i);
+		const count = faces ? faces.length : this.faceCount;
+		const corners = new Float32Array(count * 9);
+		const point = new THREE.Vector3();
+		for (let i = 0; i < count; i++) {
+			this.faceVertices(face(i)).forEach((vertex, k) => {
+				this.position(vertex, point).toArray(corners, i * 9 + k * 3);
+			});
+		}
+		const geometry = new THREE.BufferGeometry();
+		geometry.setAttribute(
+			"position",
+			new THREE.Float32BufferAttribute(corners, 3)
+		);
+		const pairs = selfIntersections(
+			geometry,
+			(i) => this.faceVertices(face(i)),
+			new Uint8Array(count)
+		);
+
+		const vertices = new Set<number>();
+		for (let i = 0; i < pairs.length; i += 2) {
+			const pair = [face(pairs[i]), face(pairs[i + 1])];
+			if (pair.every((f) => f < this.firstMoved)) continue;
+			for (const f of pair) {
+				for (const vertex of this.faceVertices(f)) {
+					if (vertex >= this.mesh.vertexCount) {
+						vertices.add(vertex - this.mesh.vertexCount);
+					}
+				}
+			}
+		}
+		return vertices;
+	}
+
+	/**
+	 * Faces that can cross the faces of the moved offset `vertices`:
+	 * the ones reaching into the box around those faces
+	 */
+	facesAround(vertices: Set<number>): number[] {
+		const count = this.mesh.vertexCount;
+		const box = new THREE.Box3();
+		const faceBox = new THREE.Box3();
+		for (let face = this.firstMoved; face < this.faceCount; face++) {
+			const corners = this.faceVertices(face);
+			if (corners.some((v) => v >= count && vertices.has(v - count))) {
+				box.union(this.faceBox(face, faceBox));
+			}
+		}
+		const faces: number[] = [];
+		for (let face = 0; face < this.faceCount; face++) {
+			if (this.faceBox(face, faceBox).intersectsBox(box)) faces.push(face);
+		}
+		return faces;
+	}
+
+	faceBox(face: number, target: THREE.Box3): THREE.Box3 {
+		const point = new THREE.Vector3();
+		target.makeEmpty();
+		for (const vertex of this.faceVertices(face)) {
+			target.expandByPoint(this.position(vertex, point));
+		}
+		return target;
+	}
+}
+
+/**
+ * Unit normals weighted by the angle of every face at the vertex
+ */
+function vertexNormals(mesh: HalfEdgeMesh): Float32Array {
+	const normals = new Float32Array(mesh.positions.length);
+	const a = new THREE.Vector3();
+	const b = new THREE.Vector3();
+	const c = new THREE.Vector3();
+	const normal = new THREE.Vector3();
+	const e1 = new THREE.Vector3();
+	const e2 = new THREE.Vector3();
+	for (let face = 0; face < mesh.faceCount; face++) {
+		const vertices = mesh.faceVertices(face);
+		mesh.vertexPosition(vertices[0], a);
+		mesh.vertexPosition(vertices[1], b);
+		mesh.vertexPosition(vertices[2], c);
+		normal.subVectors(b, a).cross(e1.subVectors(c, a));
+		if (normal.lengthSq() === 0) continue;
+		normal.normalize();
+		const corners = [a, b, c];
+		for (let i = 0; i < 3; i++) {
+			const p = corners[i];
+			e1.subVectors(corners[(i + 1) % 3], p);
+			e2.subVectors(corners[(i + 2) % 3], p);
+			const angle = e1.angleTo(e2);
+			for (let k = 0; k < 3; k++) {
+				normals[vertices[i] * 3 + k] += angle * normal.getComponent(k);
+			}
+		}
+	}
+	for (let vertex = 0; vertex < mesh.vertexCount; vertex++) {
+		normal
+			.fromArray(normals, vertex * 3)
+			.normalize()
+			.toArray(normals, vertex * 3);
+	}
+	return normals;
+}
+
+function faceNormal(
+	positions: ArrayLike<number>,
+	face: number,
+	target: THREE.Vector3
+): THREE.Vector3 {
+	const v = face * 9;
+	const e1x = positions[v + 3] - positions[v];
+	const e1y = positions[v + 4] - positions[v + 1];
+	const e1z = positions[v + 5] - positions[v + 2];
+	const e2x = positions[v + 6] - positions[v];
+	const e2y = positions[v + 7] - positions[v + 1];
+	const e2z = positions[v + 8] - positions[v + 2];
+	return target
+		.set(e1y * e2z - e1z * e2y, e1z * e2x - e1x * e2z, e1x * e2y - e1y * e2x)
+		.normalize();
+}
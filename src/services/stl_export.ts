@@ -0,0 +1,167 @@
+import * as THREE from "three";
+import type { DecodedSTL } from "./stl_to_mesh";
+
+export type STLExportFormat = "binary" | "ascii";
+
+/**
+ * "original" keeps the vertices in the coordinate frame of the scanner
+ * (exactly as they were read from the file), "edited" bakes the centering
+ * offset and any rotation/translation done in the viewer into the vertices.
+ */
+export type STLExportFrame = "original" | "edited";
+
+export interface STLExportOptions {
+	format?: STLExportFormat;
+	frame?: STLExportFrame;
+	name?: string;
+}
+
+function exportMatrix(
+	decodedSTL: DecodedSTL,
+	frame: STLExportFrame
+): THREE.Matrix4 {
+	if (frame === "original") {
+		return new THREE.Matrix4();
+	}
+	decodedSTL.mesh.updateMatrixWorld(true);
+	return decodedSTL.mesh.matrixWorld.clone();
+}
+
+/**
+ * Iterates over the triangles of the geometry (indexed or not),
+ * calling back with the transformed corners and the facet normal.
+ */
+function forEachTriangle(
+	geometry: THREE.BufferGeometry,
+	matrix: THREE.Matrix4,
+	callback: (
+		a: THREE.Vector3,
+		b: THREE.Vector3,
+		c: THREE.Vector3,
+		normal: THREE.Vector3
+	) => void
+) {
+	const position = geometry.getAttribute("position");
+	const index = geometry.index;
+	const triangleCount = (index ? index.count : position.count) / 3;
+
+	const a = new THREE.Vector3();
+	const b = new THREE.Vector3();
+	const c = new THREE.Vector3();
+	const ab = new THREE.Vector3();
+	const normal = new THREE.Vector3();
+
+	for (let face = 0; face < triangleCount; face++) {
+		const ia = index ? index.getX(face * 3) : face * 3;
+		const ib = index ? index.getX(face * 3 + 1) : face * 3 + 1;
+		const ic = index ? index.getX(face * 3 + 2) : face * 3 + 2;
+
+		a.fromBufferAttribute(position, ia).applyMatrix4(matrix);
+		b.fromBufferAttribute(position, ib).applyMatrix4(matrix);
+		c.fromBufferAttribute(position, ic).applyMatrix4(matrix);
+
+		// facet normals are recomputed from the (possibly rotated) corners
+		normal.subVectors(c, b);
+		ab.subVectors(a, b);
+		normal.cross(ab).normalize();
+
+		callback(a, b, c, normal);
+	}
+}
+
+function triangleCount(geometry: THREE.BufferGeometry): number {
+	return (
+		(geometry.index
+			? geometry.index.count
+			: geometry.getAttribute("position").count) / 3
+	);
+}
+
+export function geometryToBinarySTL(
+	geometry: THREE.BufferGeometry,
+	matrix: THREE.Matrix4 = new THREE.Matrix4()
+): ArrayBuffer {
+	const count = triangleCount(geometry);
+	// 80 bytes header + 4 bytes triangle count + 50 bytes per triangle
+	const buffer = new ArrayBuffer(84 + count * 50);
+	const view = new DataView(buffer);
+
+	const header = "Exported by CastCad";
+	for (let i = 0; i < header.length; i++) {
+		view.setUint8(i, header.charCodeAt(i));
+	}
+	view.setUint32(80, count, true);
+
+	let offset = 84;
+	const writeVector = (v: THREE.Vector3) => {
+		view.setFloat32(offset, v.x, true);
+		view.setFloat32(offset + 4, v.y, true);
+		view.setFloat32(offset + 8, v.z, true);
+		offset += 12;
+	};
+
+	forEachTriangle(geometry, matrix, (a, b, c, normal) => {
+		writeVector(normal);
+		writeVector(a);
+		writeVector(b);
+		writeVector(c);
+		view.setUint16(offset, 0, true); // attribute byte count
+		offset += 2;
+	});
+
+	return buffer;
+}
+
+export function geometryToASCIISTL(
+	geometry: THREE.BufferGeometry,
+	matrix: THREE.Matrix4 = new THREE.Matrix4(),
+	name = "castcad"
+): string {
+	const solidName = name.replace(/\s+/g, "_");
+	const lines: string[] = [`solid ${solidName}`];
+	const format = (v: THREE.Vector3) =>
+		`${v.x.toExponential(6)} ${v.y.toExponential(6)} ${v.z.toExponential(6)}`;
+
+	forEachTriangle(geometry, matrix, (a, b, c, normal) => {
+		lines.push(`  facet normal ${format(normal)}`);
+		lines.push("    outer loop");
+		lines.push(`      vertex ${format(a)}`);
+		lines.push(`      vertex ${format(b)}`);
+		lines.push(`      vertex ${format(c)}`);
+		lines.push("    endloop");
+		lines.push("  endfacet");
+	});
+
+	lines.push(`endsolid ${solidName}`);
+	return lines.join("\n") + "\n";
+}
+
+export function exportSTL(
+	decodedSTL: DecodedSTL,
+	{
+		format = "binary",
+		frame = "original",
+		name = "castcad",
+	}: STLExportOptions = {}
+): Blob {
+	const matrix = exportMatrix(decodedSTL, frame);
+	if (format === "ascii") {
+		return new Blob([geometryToASCIISTL(decodedSTL.geometry, matrix, name)], {
+			type: "model/stl",
+		});
+	}
+	return new Blob([geometryToBinarySTL(decodedSTL.geometry, matrix)], {
+		type: "model/stl",
+	});
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+	const url = URL.createObjectURL(blob);
+	const anchor = document.createElement("a");
+	anchor.href = url;
+	anchor.download = fileName;
+	document.body.appendChild(anchor);
+	anchor.click();
+	document.body.removeChild(anchor);
+	setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
@@ -5,33 +5,60 @@ export interface DecodedSTL {
 	geometry: THREE.BufferGeometry;
 	material: THREE.Material;
 	mesh: THREE.Mesh;
+	/** the colors the mesh was loaded with (without selection highlight) */
+	colors: Float32Array;
+	/** whether the colors come from the scan (rather than a flat color) */
+	scannerColors: boolean;
 }
 
+// 0x4ab0ff, used for scans that come without colors
+export const defaultMeshColor = [0.29, 0.69, 1.0];
+
 export function geometryToDecodedSTL(
 	geometry: THREE.BufferGeometry
 ): DecodedSTL {
 	const count = geometry.attributes.position.count;
 
-	const color = [0.29, 0.69, 1.0];
-	const colors = new Float32Array(count * 3);
-	for (let i = 0; i < count; i++) {
-		colors[i * 3] = color[0];
-		colors[i * 3 + 1] = color[1];
-		colors[i * 3 + 2] = color[2];
+	// keep the colors of the scanner (e.g. gingiva and teeth shading) if any
+	const existingColors = geometry.getAttribute("color");
+	const scannerColors = !!existingColors && existingColors.count === count;
+	if (!scannerColors) {
+		const color = defaultMeshColor;
+		const colors = new Float32Array(count * 3);
+		for (let i = 0; i < count; i++) {
+			colors[i * 3] = color[0];
+			colors[i * 3 + 1] = color[1];
+			colors[i * 3 + 2] = color[2];
+		}
+		geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
 	}
-	geometry.setAttribute("color", new THREE.BufferAttribute(colors, 3));
 
 	// Create mesh with a basic material
+	// (white, so the vertex colors are not tinted)
 	const material = new THREE.MeshStandardMaterial({
 		vertexColors: true,
-		color: 0x4ab0ff,
+		color: 0xffffff,
 		roughness: 0.5,
 		metalness: 0,
 		flatShading: true,
 	});
 	const mesh = new THREE.Mesh(geometry, material);
+	const originalColors = Float32Array.from(
+		geometry.getAttribute("color").array as ArrayLike<number>
+	);
+
+	return {
+		geometry,
+		material,
+		mesh,
+		colors: originalColors,
+		scannerColors,
+	};
+}
 
-	return { geometry, material, mesh };
+export function parseSTL(contents: ArrayBuffer): THREE.BufferGeometry {
+	const loader = new STLLoader();
+	return loader.parse(contents);
 }
 
 export function decodeSTL(file: File): Promise<DecodedSTL> {
@@ -47,11 +74,10 @@ export function decodeSTL(file: File): Promise<DecodedSTL> {
 					reject("Failed to read STL file contents.");
 					return;
 				}
-				const loader = new STLLoader();
-				const geometry = loader.parse(
+				const geometry = parseSTL(
 					contents instanceof ArrayBuffer
 						? contents
-						: new TextEncoder().encode(contents)
+						: new TextEncoder().encode(contents).buffer
 				);
 
 				resolve(geometryToDecodedSTL(geometry));
@@ -0,0 +1,790 @@
+import * as THREE from "three";
+import { Font, type FontData } from "three/examples/jsm/loaders/FontLoader.js";
+import fontData from "three/examples/fonts/helvetiker_bold.typeface.json";
+import { getFaceBVH } from "./face_bvh";
+import { getHalfEdgeMesh, type HalfEdgeMesh } from "./half_edge_mesh";
+import type { FaceAttributes } from "./history";
+import { FaceBuilder } from "./model_base";
+
+export type LabelMode = "engrave" | "emboss";
+
+export interface LabelOptions {
+	text: string;
+	/** font size in mm */
+	size: number;
+	/** how deep the letters are engraved, or how high they are embossed (mm) */
+	depth: number;
+	mode: LabelMode;
+	/** degrees, counter-clockwise as seen from outside */
+	rotation: number;
+	/** center of the label, on the surface */
+	point: THREE.Vector3;
+	/** the direction the text reads upright towards */
+	up: THREE.Vector3;
+	/** overrides the color attribute (e.g. to ignore the selection highlight) */
+	colors?: Float32Array;
+}
+
+export const labelLimits = {
+	size: { min: 1, max: 20 },
+	depth: { min: 0.1, max: 3 },
+};
+
+export interface PlacedLabel {
+	/** the faces under the label, replaced by `added` */
+	faces: Set<number>;
+	added: FaceAttributes;
+	/** positions of the faces of the letters, to preview the label */
+	preview: Float32Array;
+}
+
+const font = new Font(fontData as unknown as FontData);
+/** segments of every curve of the letters */
+const curveSegments = 4;
+/** surface around the letters that is rebuilt with them (mm) */
+const labelMargin = 1;
+/** the surface under the label must face the label at least this much (cosine) */
+const minFacing = 0.2;
+/** vertices of the surface closer than this to an outline are dropped (mm) */
+const outlineClearance = 0.2;
+/** the preview of an engraving floats this much above the surface (mm) */
+const previewOffset = 0.02;
+
+interface Letter {
+	outer: THREE.Vector2[];
+	holes: THREE.Vector2[][];
+}
+
+/**
+ * Writes the text into the surface at `point`.
+ *
+ * The surface under the label (seen from its normal, it must not fold)
+ * is rebuilt around the outlines of the letters, which are pushed into
+ * the surface or raised out of it along the normal, so the model stays
+ * one closed surface.
+ * The letters follow the surface under them, a curved surface keeps its
+ * shape between them.
+ */
+export function placeLabel(
+	geometry: THREE.BufferGeometry,
+	options: LabelOptions
+): PlacedLabel {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+	const letters = layoutText(options.text, options.size);
+	if (letters.length === 0) {
+		throw new Error("Type the text of the label.");
+	}
+
+	const mesh = getHalfEdgeMesh(geometry);
+	const hit = getFaceBVH(geometry).closestPoint(
+		options.point,
+		new THREE.Vector3()
+	);
+	if (!hit) {
+		throw new Error("Pick a point on the model.");
+	}
+	const frame = new LabelFrame(
+		options.point,
+		surfaceNormal(mesh, hit.face, options.point, options.size),
+		options.up,
+		options.rotation
+	);
+
+	// the surface under the letters
+	const bounds = new THREE.Box2()
+		.setFromPoints(letters.flatMap(({ outer }) => outer))
+		.expandByScalar(labelMargin);
+	const faces = facesUnder(mesh, hit.face, frame, bounds);
+	const border = borderLoop(mesh, faces);
+	const borderPoints = border.map((vertex) =>
+		frame.toLabel(mesh.vertexPosition(vertex))
+	);
+	for (const { outer } of letters) {
+		if (!outer.every((point) => contains(borderPoints, point))) {
+			throw new Error(
+				"The label does not fit on the surface there, the model ends too close to it."
+			);
+		}
+	}
+	const surface = new SurfaceHeights(mesh, faces, frame);
+
+	const builder = new FaceBuilder(meanColor(faces, options.colors));
+	const preview = new FaceBuilder(null);
+	const up = frame.normal;
+	const sign = options.mode === "emboss" ? 1 : -1;
+	const depth = sign * options.depth;
+	const ground = (point: THREE.Vector2) =>
+		frame.fromLabel(point, surface.height(point));
+	const raised = (point: THREE.Vector2) =>
+		frame.fromLabel(point, surface.height(point) + depth);
+	const previewed = (point: THREE.Vector2) =>
+		options.mode === "emboss"
+			? raised(point)
+			: frame.fromLabel(point, surface.height(point) + previewOffset);
+
+	// vertices of the surface away from the outlines keep its shape
+	const inner = innerPoints(mesh, faces, border, frame, letters);
+
+	// the surface around the letters, and inside their holes
+	const borderVertices = border.map((vertex) => mesh.vertexPosition(vertex));
+	const outers = letters.map(({ outer }) => outer);
+	const around = [
+		borderVertices,
+		...[...outers, ...inner.around].flat().map(ground),
+	].flat();
+	for (const [a, b, c] of triangulate(borderPoints, outers, inner.around)) {
+		builder.orientedTriangle(around[a], around[b], around[c], up);
+	}
+	letters.forEach(({ holes }, i) => {
+		holes.forEach((hole, j) => {
+			const steiner = inner.holes[i][j];
+			const points = [...hole, ...steiner].map(ground);
+			for (const [a, b, c] of triangulate(hole, [], steiner)) {
+				builder.orientedTriangle(points[a], points[b], points[c], up);
+			}
+		});
+	});
+
+	letters.forEach(({ outer, holes }, i) => {
+		// the face of the letter, at the bottom of an engraving
+		const contours = [outer, ...holes];
+		const steiner = inner.letters[i];
+		const points = [...contours.flat(), ...steiner];
+		const tops = points.map(raised);
+		const previews = points.map(previewed);
+		for (const [a, b, c] of triangulate(outer, holes, steiner)) {
+			builder.orientedTriangle(tops[a], tops[b], tops[c], up);
+			preview.orientedTriangle(previews[a], previews[b], previews[c], up);
+		}
+
+		// the sides of the letter face away from it, or into the engraving
+		contours.forEach((contour, i) => {
+			const clockwise = THREE.ShapeUtils.isClockWise(contour);
+			const outwards = (i === 0) === clockwise ? -sign : sign;
+			for (let j = 0; j < contour.length; j++) {
+				const a = contour[j];
+				const b = contour[(j + 1) % contour.length];
+				const side = frame.direction(
+					new THREE.Vector2(b.y - a.y, a.x - b.x).multiplyScalar(outwards)
+				);
+				const wall = [ground(a), ground(b), raised(b), raised(a)];
+				builder.orientedTriangle(wall[0], wall[1], wall[2], side);
+				builder.orientedTriangle(wall[0], wall[2], wall[3], side);
+				if (options.mode === "emboss") {
+					preview.orientedTriangle(wall[0], wall[1], wall[2], side);
+					preview.orientedTriangle(wall[0], wall[2], wall[3], side);
+				}
+			}
+		});
+	});
+
+	return {
+		faces,
+		added: builder.faces(geometry),
+		preview: preview.positionAttribute().array,
+	};
+}
+
+/**
+ * The vertices of the faces that are not on their border, in label
+ * coordinates, by where they are: around the letters, in the holes of
+ * every letter or on every letter. Those close to an outline are left out.
+ */
+function innerPoints(
+	mesh: HalfEdgeMesh,
+	faces: Set<number>,
+	border: number[],
+	frame: LabelFrame,
+	letters: Letter[]
+) {
+	const around: THREE.Vector2[] = [];
+	const holes = letters.map(({ holes }) =>
+		holes.map((): THREE.Vector2[] => [])
+	);
+	const onLetters = letters.map((): THREE.Vector2[] => []);
+
+	const vertices = new Set<number>();
+	for (const face of faces) {
+		for (const vertex of mesh.faceVertices(face)) vertices.add(vertex);
+	}
+	for (const vertex of border) vertices.delete(vertex);
+
+	const outlines = letters.flatMap(({ outer, holes }) => [outer, ...holes]);
+	for (const vertex of vertices) {
+		const point = frame.toLabel(mesh.vertexPosition(vertex));
+		if (
+			outlines.some((outline) => nearLoop(outline, point, outlineClearance))
+		) {
+			continue;
+		}
+		const i = letters.findIndex(({ outer }) => contains(outer, point));
+		if (i === -1) {
+			around.push(point);
+			continue;
+		}
+		const j = letters[i].holes.findIndex((hole) => contains(hole, point));
+		if (j === -1) {
+			onLetters[i].push(point);
+		} else {
+			holes[i][j].push(point);
+		}
+	}
+	return { around, holes, letters: onLetters };
+}
+
+/** whether the point is closer than `distance` to an edge of the loop */
+function nearLoop(
+	loop: THREE.Vector2[],
+	point: THREE.Vector2,
+	distance: number
+): boolean {
+	const segment = new THREE.Line3();
+	const closest = new THREE.Vector3();
+	const target = new THREE.Vector3(point.x, point.y, 0);
+	for (let i = 0; i < loop.length; i++) {
+		const a = loop[i];
+		const b = loop[(i + 1) % loop.length];
+		segment.start.set(a.x, a.y, 0);
+		segment.end.set(b.x, b.y, 0);
+		if (
+			segment.closestPointToPoint(target, true, closest).distanceTo(target) <
+			distance
+		) {
+			return true;
+		}
+	}
+	return false;
+}
+
+/**
+ * Outlines of the letters in mm, centered on the origin
+ */
+function layoutText(text: string, size: number): Letter[] {
+	if (text.trim() === "") {
+		return [];
+	}
+	const letters = font.generateShapes(text, size).map((shape) => {
+		const { shape: outer, holes } = shape.extractPoints(curveSegments);
+		return { outer: openLoop(outer), holes: holes.map(openLoop) };
+	});
+	const bounds = new THREE.Box2().setFromPoints(
+		letters.flatMap(({ outer }) => outer)
+	);
+	const center = bounds.getCenter(new THREE.Vector2());
+	for (const { outer, holes } of letters) {
+		for (const point of [outer, ...holes].flat()) point.sub(center);
+	}
+	return letters;
+}
+
+/** without the last point when it repeats the first one */
+function openLoop(points: THREE.Vector2[]) {
+	if (points.length > 1 && points[0].equals(points[points.length - 1])) {
+		return points.slice(0, -1);
+	}
+	return points;
+}
+
+/**
+ * Coordinates of the label: x to the right of the text, y up the text
+ * and heights along the normal of the surface
+ */
+class LabelFrame {
+	origin: THREE.Vector3;
+	normal: THREE.Vector3;
+	x: THREE.Vector3;
+	y: THREE.Vector3;
+
+	constructor(
+		origin: THREE.Vector3,
+		normal: THREE.Vector3,
+		up: THREE.Vector3,
+		rotation: number
+	) {
+		this.origin = origin.clone();
+		this.normal = normal.clone();
+		this.y = up.clone().projectOnPlane(normal);
+		if (this.y.lengthSq() < 0.01) {
+			// a surface facing up or down, the text reads along another axis
+			this.y.set(0, 0, -1).projectOnPlane(normal);
+			if (this.y.lengthSq() < 0.01) this.y.set(1, 0, 0).projectOnPlane(normal);
+		}
+		this.y
+			.normalize()
+			.applyAxisAngle(normal, THREE.MathUtils.degToRad(rotation));
+		this.x = new THREE.Vector3().crossVectors(this.y, normal);
+	}
+
+	toLabel(point: THREE.Vector3) {
+		const offset = point.clone().sub(this.origin);
+		return new THREE.Vector2(offset.dot(this.x), offset.dot(this.y));
+	}
+
+	heightOf(point: THREE.Vector3) {
+		return point.clone().sub(this.origin).dot(this.normal);
+	}
+
+	fromLabel(point: THREE.Vector2, height: number) {
+		return this.origin
+			.clone()
+			.addScaledVector(this.x, point.x)
+			.addScaledVector(this.y, point.y)
+			.addScaledVector(this.normal, height);
+	}
+
+	direction(vector: THREE.Vector2) {
+		return new THREE.Vector3()
+			.addScaledVector(this.x, vector.x)
+			.addScaledVector(this.y, vector.y);
+	}
+}
+
+/**
+ * Area weighted normal of the surface within `radius` of the point,
+ * a single face of a scan is too noisy to place the label on
+ */
+function surfaceNormal(
+	mesh: HalfEdgeMesh,
+	start: number,
+	point: THREE.Vector3,
+	radius: number
+): THREE.Vector3 {
+	const normal = new THREE.Vector3();
+	const visited = new Set([start]);
+	const queue = [start];
+	const center = new THREE.Vector3();
+	while (queue.length > 0) {
+		const face = queue.pop()!;
+		normal.add(faceNormal(mesh, face, false));
+		for (const neighbor of mesh.faceNeighbors(face)) {
+			if (visited.has(neighbor)) continue;
+			visited.add(neighbor);
+			if (faceCenter(mesh, neighbor, center).distanceTo(point) < radius) {
+				queue.push(neighbor);
+			}
+		}
+	}
+	if (normal.lengthSq() === 0) {
+		throw new Error("Pick a point on the model.");
+	}
+	return normal.normalize();
+}
+
+/**
+ * The faces around `start` with their center within the bounds of the label,
+ * they have to face the label
+ */
+function facesUnder(
+	mesh: HalfEdgeMesh,
+	start: number,
+	frame: LabelFrame,
+	bounds: THREE.Box2
+): Set<number> {
+	const faces = new Set([start]);
+	const queue = [start];
+	const center = new THREE.Vector3();
+	while (queue.length > 0) {
+		const face = queue.pop()!;
+		if (faceNormal(mesh, face, true).dot(frame.normal) < minFacing) {
+			throw new Error(
+				"The surface under the label is too curved, try a smaller label or a flatter area."
+			);
+		}
+		for (const neighbor of mesh.faceNeighbors(face)) {
+			if (faces.has(neighbor)) continue;
+			if (
+				bounds.containsPoint(frame.toLabel(faceCenter(mesh, neighbor, center)))
+			) {
+				faces.add(neighbor);
+				queue.push(neighbor);
+			}
+		}
+	}
+	return faces;
+}
+
+/**
+ * Vertices around the faces, in order (counter-clockwise seen from
+ * outside), the faces must make a single patch without holes
+ */
+function borderLoop(mesh: HalfEdgeMesh, faces: Set<number>): number[] {
+	// boundary half-edge leaving every vertex of the border
+	const leaving = new Map<number, number>();
+	let count = 0;
+	for (const face of faces) {
+		for (let h = face * 3; h < face * 3 + 3; h++) {
+			const twin = mesh.twins[h];
+			if (twin !== -1 && faces.has(mesh.face(twin))) continue;
+			if (leaving.has(mesh.origins[h])) {
+				throw new Error(
+					"The surface under the label is not in one piece, try another place."
+				);
+			}
+			leaving.set(mesh.origins[h], h);
+			count++;
+		}
+	}
+	const [start] = leaving.keys();
+	const loop: number[] = [];
+	let vertex = start;
+	do {
+		loop.push(vertex);
+		const h = leaving.get(vertex);
+		if (h === undefined || loop.length > count) break;
+		vertex = mesh.target(h);
+	} while (vertex !== start);
+	if (vertex !== start || loop.length !== count) {
+		throw new Error(
+			"The surface under the label has holes or gaps, fill them first."
+		);
+	}
+	return loop;
+}
+
+/**
+ * Height of the surface under any point of the label,
+ * faces are looked up in a grid of the label plane
+ */
+class SurfaceHeights {
+	corners: { point: THREE.Vector2; height: number }[][] = [];
+	cellSize: number;
+	cells = new Map<string, number[]>();
+
+	constructor(mesh: HalfEdgeMesh, faces: Set<number>, frame: LabelFrame) {
+		const position = new THREE.Vector3();
+		let area = 0;
+		for (const face of faces) {
+			const corners = mesh.faceVertices(face).map((vertex) => {
+				mesh.vertexPosition(vertex, position);
+				return {
+					point: frame.toLabel(position),
+					height: frame.heightOf(position),
+				};
+			});
+			const [a, b, c] = corners.map(({ point }) => point);
+			area += Math.abs((b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y));
+			this.corners.push(corners);
+		}
+		this.cellSize = Math.max(Math.sqrt(area / this.corners.length) * 2, 1e-3);
+
+		this.corners.forEach((corners, i) => {
+			const box = new THREE.Box2().setFromPoints(
+				corners.map(({ point }) => point)
+			);
+			const [x0, y0] = this.cell(box.min);
+			const [x1, y1] = this.cell(box.max);
+			for (let x = x0; x <= x1; x++) {
+				for (let y = y0; y <= y1; y++) {
+					const key = `${x},${y}`;
+					const cell = this.cells.get(key);
+					if (cell) {
+						cell.push(i);
+					} else {
+						this.cells.set(key, [i]);
+					}
+				}
+			}
+		});
+	}
+
+	cell(point: THREE.Vector2) {
+		return [
+			Math.floor(point.x / this.cellSize),
+			Math.floor(point.y / this.cellSize),
+		];
+	}
+
+	/** interpolated in the face the point is in (or the closest one) */
+	height(point: THREE.Vector2): number {
+		const [x, y] = this.cell(point);
+		const candidates = this.cells.get(`${x},${y}`) || this.corners.keys();
+		let best = -Infinity;
+		let height = 0;
+		for (const i of candidates) {
+			const [a, b, c] = this.corners[i];
+			const weights = barycentric(point, a.point, b.point, c.point);
+			if (!weights) continue;
+			const inside = Math.min(...weights);
+			if (inside > best) {
+				best = inside;
+				height =
+					weights[0] * a.height + weights[1] * b.height + weights[2] * c.height;
+			}
+		}
+		return height;
+	}
+}
+
+function barycentric(
+	p: THREE.Vector2,
+	a: THREE.Vector2,
+	b: THREE.Vector2,
+	c: THREE.Vector2
+): number[] | null {
+	const det = (b.y - c.y) * (a.x - c.x) + (c.x - b.x) * (a.y - c.y);
+	if (Math.abs(det) < 1e-12) return null;
+	const wa = ((b.y - c.y) * (p.x - c.x) + (c.x - b.x) * (p.y - c.y)) / det;
+	const wb = ((c.y - a.y) * (p.x - c.x) + (a.x - c.x) * (p.y - c.y)) / det;
+	return [wa, wb, 1 - wa - wb];
+}
+
+function faceCenter(
+	mesh: HalfEdgeMesh,
+	face: number,
+	target: THREE.Vector3
+): THREE.Vector3 {
+	target.set(0, 0, 0);
+	const position = new THREE.Vector3();
+	for (const vertex of mesh.faceVertices(face)) {
+		target.add(mesh.vertexPosition(vertex, position));
+	}
+	return target.divideScalar(3);
+}
+
+/** unit normal, or scaled by twice the area of the face */
+function faceNormal(
+	mesh: HalfEdgeMesh,
+	face: number,
+	unit: boolean
+): THREE.Vector3 {
+	const [a, b, c] = mesh
+		.faceVertices(face)
+		.map((vertex) => mesh.vertexPosition(vertex));
+	const normal = b.sub(a).cross(c.sub(a));
+	return unit ? normal.normalize() : normal;
+}
+
+/**
+ * Triangles of the polygon (indices into the contour, the holes then the
+ * inner points), with every point used: earcut leaves out points on
+ * a straight line or runs edges through them, which would leave gaps
+ * next to the faces sharing them
+ */
+function triangulate(
+	contour: THREE.Vector2[],
+	holes: THREE.Vector2[][],
+	inner: THREE.Vector2[] = []
+): number[][] {
+	const points = [contour, ...holes, inner].flat();
+	// slivers of points on a straight line, their neighbors are split instead
+	const triangles = THREE.ShapeUtils.triangulateShape(contour, holes).filter(
+		([a, b, c]) => !collinear(points[a], points[b], points[c])
+	);
+	const outline = points.length - inner.length;
+	for (let k = 0; k < outline; k++) {
+		splitEdgesThrough(triangles, points, k);
+	}
+	for (let k = outline; k < points.length; k++) {
+		insertPoint(triangles, points, k);
+	}
+
+	// the outlines stay, the other edges are flipped to avoid slivers
+	const fixed = new Set<string>();
+	let start = 0;
+	for (const ring of [contour, ...holes]) {
+		for (let i = 0; i < ring.length; i++) {
+			fixed.add(edgeKey(start + i, start + ((i + 1) % ring.length)));
+		}
+		start += ring.length;
+	}
+	flipToDelaunay(triangles, points, fixed);
+	return triangles;
+}
+
+function edgeKey(a: number, b: number) {
+	return a < b ? `${a},${b}` : `${b},${a}`;
+}
+
+const maxFlipPasses = 100;
+
+/**
+ * Flips the edge between two triangles while the far corner of one is
+ * in the circumcircle of the other (Lawson)
+ */
+function flipToDelaunay(
+	triangles: number[][],
+	points: THREE.Vector2[],
+	fixed: Set<string>
+) {
+	for (let pass = 0; pass < maxFlipPasses; pass++) {
+		// triangle on the left of every directed edge
+		const left = new Map<string, number>();
+		triangles.forEach((triangle, t) => {
+			for (let i = 0; i < 3; i++) {
+				left.set(`${triangle[i]},${triangle[(i + 1) % 3]}`, t);
+			}
+		});
+		const flipped = new Set<number>();
+		triangles.forEach((triangle, t) => {
+			if (flipped.has(t)) return;
+			for (let i = 0; i < 3; i++) {
+				const a = triangle[i];
+				const b = triangle[(i + 1) % 3];
+				const c = triangle[(i + 2) % 3];
+				if (fixed.has(edgeKey(a, b))) continue;
+				const u = left.get(`${b},${a}`);
+				if (u === undefined || flipped.has(u)) continue;
+				const other = triangles[u];
+				const d = other[(other.indexOf(a) + 1) % 3];
+				if (!inCircumcircle(points[a], points[b], points[c], points[d])) {
+					continue;
+				}
+				triangles[t] = [c, a, d];
+				triangles[u] = [d, b, c];
+				flipped.add(t).add(u);
+				return;
+			}
+		});
+		if (flipped.size === 0) {
+			return;
+		}
+	}
+}
+
+/** whether d is strictly in the circle through a, b and c */
+function inCircumcircle(
+	a: THREE.Vector2,
+	b: THREE.Vector2,
+	c: THREE.Vector2,
+	d: THREE.Vector2
+): boolean {
+	const ax = a.x - d.x;
+	const ay = a.y - d.y;
+	const bx = b.x - d.x;
+	const by = b.y - d.y;
+	const cx = c.x - d.x;
+	const cy = c.y - d.y;
+	const det =
+		(ax * ax + ay * ay) * (bx * cy - cx * by) -
+		(bx * bx + by * by) * (ax * cy - cx * ay) +
+		(cx * cx + cy * cy) * (ax * by - bx * ay);
+	const orientation = (b.x - a.x) * (c.y - a.y) - (c.x - a.x) * (b.y - a.y);
+	// relative to the size of the triangle, cocircular points are not flipped
+	return det * Math.sign(orientation) > 1e-9 * orientation * orientation;
+}
+
+function collinear(a: THREE.Vector2, b: THREE.Vector2, c: THREE.Vector2) {
+	const ab = b.clone().sub(a);
+	const ac = c.clone().sub(a);
+	const longest = Math.max(
+		ab.lengthSq(),
+		ac.lengthSq(),
+		c.distanceToSquared(b)
+	);
+	return Math.abs(ab.cross(ac)) <= 1e-9 * longest;
+}
+
+/** smaller barycentric weights are on an edge */
+const onEdge = 1e-6;
+
+/**
+ * Splits the triangle the point is in, or the two triangles of the edge
+ * it is on. Points on a vertex or outside are left out.
+ */
+function insertPoint(
+	triangles: number[][],
+	points: THREE.Vector2[],
+	k: number
+) {
+	const point = points[k];
+	for (let t = 0; t < triangles.length; t++) {
+		const [a, b, c] = triangles[t];
+		const weights = barycentric(point, points[a], points[b], points[c]);
+		if (!weights || Math.min(...weights) < -onEdge) continue;
+		const edges = weights.filter((weight) => weight <= onEdge).length;
+		if (edges === 0) {
+			triangles[t] = [a, b, k];
+			triangles.push([b, c, k], [c, a, k]);
+		} else if (edges === 1) {
+			splitEdge(
+				triangles,
+				t,
+				weights.findIndex((w) => w <= onEdge),
+				k
+			);
+		}
+		return;
+	}
+}
+
+/** splits the edges of other triangles that run through point `k` */
+function splitEdgesThrough(
+	triangles: number[][],
+	points: THREE.Vector2[],
+	k: number
+) {
+	const point = points[k];
+	for (let t = 0; t < triangles.length; t++) {
+		const [a, b, c] = triangles[t];
+		if (a === k || b === k || c === k) continue;
+		const weights = barycentric(point, points[a], points[b], points[c]);
+		if (!weights || Math.min(...weights) < -onEdge) continue;
+		if (weights.filter((weight) => weight <= onEdge).length === 1) {
+			splitEdge(
+				triangles,
+				t,
+				weights.findIndex((w) => w <= onEdge),
+				k
+			);
+		}
+	}
+}
+
+/**
+ * Splits triangle `t` and the one across its edge facing `corner`
+ * at point `k` of that edge
+ */
+function splitEdge(
+	triangles: number[][],
+	t: number,
+	corner: number,
+	k: number
+) {
+	const apex = triangles[t][corner];
+	const from = triangles[t][(corner + 1) % 3];
+	const to = triangles[t][(corner + 2) % 3];
+	for (let u = 0; u < triangles.length; u++) {
+		const other = triangles[u];
+		const i = other.indexOf(to);
+		if (u === t || i === -1 || other[(i + 1) % 3] !== from) continue;
+		const opposite = other[(i + 2) % 3];
+		triangles[u] = [to, k, opposite];
+		triangles.push([k, from, opposite]);
+		break;
+	}
+	triangles[t] = [apex, from, k];
+	triangles.push([apex, k, to]);
+}
+
+/** point in polygon, by counting the edges crossed on the way to +x */
+function contains(polygon: THREE.Vector2[], point: THREE.Vector2): boolean {
+	let inside = false;
+	for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+		const a = polygon[i];
+		const b = polygon[j];
+		if (
+			a.y > point.y !== b.y > point.y &&
+			point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x
+		) {
+			inside = !inside;
+		}
+	}
+	return inside;
+}
+
+/** mean color of the corners of the faces */
+function meanColor(
+	faces: Set<number>,
+	colors: ArrayLike<number> | undefined
+): number[] | null {
+	if (!colors || faces.size === 0) {
+		return null;
+	}
+	const color = [0, 0, 0];
+	for (const face of faces) {
+		for (let i = face * 9; i < face * 9 + 9; i++) color[i % 3] += colors[i];
+	}
+	return color.map((value) => value / (faces.size * 3));
+}
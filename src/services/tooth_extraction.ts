@@ -0,0 +1,174 @@
+import * as THREE from "three";
+import { cutAwaySelection } from "./cut_selection";
+import { getHalfEdgeMesh, HalfEdgeMesh } from "./half_edge_mesh";
+import { fillHoles, findHoles } from "./hole_filling";
+import type { FaceAttributes } from "./history";
+
+export interface ExtractionOptions {
+	/** faces of the tooth to remove */
+	faces: Set<number>;
+	/** how deep the middle of the healed ridge sinks below its border (mm) */
+	concavity: number;
+	/** overrides the color attribute (e.g. to ignore the selection highlight) */
+	colors?: Float32Array;
+}
+
+export const concavityLimits = { min: 0, max: 3 };
+
+export interface Extraction {
+	/** the faces of the tooth, replaced by `added` */
+	faces: Set<number>;
+	/** the gingiva closing the socket */
+	added: FaceAttributes;
+}
+
+/**
+ * Removes the selected tooth and closes the socket with gingiva:
+ * the hole is filled with a faired patch that blends with the tissue around
+ * it and sinks smoothly towards its middle, like a healed ridge.
+ */
+export function extractTooth(
+	geometry: THREE.BufferGeometry,
+	options: ExtractionOptions
+): Extraction {
+	if (geometry.index) {
+		throw new Error("Geometry must be non-indexed for this method.");
+	}
+	if (options.faces.size === 0) {
+		throw new Error("Select the tooth with the brush.");
+	}
+	const border = selectionBorder(geometry, options.faces);
+
+	const remaining = cutAwaySelection(geometry, options.faces);
+	if (options.colors) {
+		const kept = new Float32Array(remaining.getAttribute("position").count * 3);
+		let offset = 0;
+		const faceCount = geometry.getAttribute("position").count / 3;
+		for (let face = 0; face < faceCount; face++) {
+			if (options.faces.has(face)) continue;
+			kept.set(options.colors.subarray(face * 9, face * 9 + 9), offset);
+			offset += 9;
+		}
+		remaining.setAttribute("color", new THREE.Float32BufferAttribute(kept, 3));
+	}
+	// the hole left where the tooth was
+	const mesh = getHalfEdgeMesh(remaining);
+	const position = new THREE.Vector3();
+	const hole = findHoles(remaining).find(
+		(candidate) =>
+			candidate.vertices.length === border.size &&
+			candidate.vertices.every((vertex) =>
+				border.has(mesh.vertexPosition(vertex, position).toArray().join(","))
+			)
+	);
+	if (!hole) {
+		throw new Error(
+			"The tooth reaches the border of the scan, there is no gingiva around it to fill the socket with."
+		);
+	}
+	const added = fillHoles(remaining, [hole]);
+	heal(added, border, options.concavity);
+	return { faces: options.faces, added };
+}
+
+/**
+ * Positions of the vertices around the selection,
+ * which must be one patch without gaps
+ */
+function selectionBorder(
+	geometry: THREE.BufferGeometry,
+	faces: Set<number>
+): Set<string> {
+	const source = geometry.getAttribute("position").array;
+	const positions = new Float32Array(faces.size * 9);
+	let offset = 0;
+	for (const face of faces) {
+		for (let k = 0; k < 9; k++) positions[offset++] = source[face * 9 + k];
+	}
+	const selection = new THREE.BufferGeometry();
+	selection.setAttribute(
+		"position",
+		new THREE.Float32BufferAttribute(positions, 3)
+	);
+	const mesh = HalfEdgeMesh.fromGeometry(selection);
+	const loops = mesh.boundaryLoops();
+	if (loops.length !== 1) {
+		throw new Error(
+			`Select one tooth, the selection must be one patch without gaps (it has ${loops.length} borders).`
+		);
+	}
+	const position = new THREE.Vector3();
+	return new Set(
+		loops[0].map((h) =>
+			mesh.vertexPosition(mesh.origins[h], position).toArray().join(",")
+		)
+	);
+}
+
+/**
+ * The faired patch continues the tissue rising towards the tooth, which
+ * would leave a dome: away from the border it is pulled towards the
+ * interpolation of the border, and sunk against its normal by `depth`,
+ * the most in its middle, without a crease where it meets the tissue
+ */
+function heal(patch: FaceAttributes, border: Set<string>, depth: number) {
+	const p = patch.position.array;
+	const borderPoints = [...border].map((key) =>
+		new THREE.Vector3().fromArray(key.split(",").map(Number))
+	);
+
+	// scaled by the area of the faces
+	const normal = new THREE.Vector3();
+	const [a, b, c] = [
+		new THREE.Vector3(),
+		new THREE.Vector3(),
+		new THREE.Vector3(),
+	];
+	for (let i = 0; i < p.length; i += 9) {
+		a.fromArray(p, i);
+		b.fromArray(p, i + 3).sub(a);
+		c.fromArray(p, i + 6).sub(a);
+		normal.add(b.cross(c));
+	}
+	normal.normalize();
+
+	const corner = new THREE.Vector3();
+	const distances = new Float32Array(p.length / 3);
+	let farthest = 0;
+	for (let i = 0; i < distances.length; i++) {
+		corner.fromArray(p, i * 3);
+		let distance = Infinity;
+		for (const point of borderPoints) {
+			distance = Math.min(distance, point.distanceTo(corner));
+		}
+		distances[i] = distance;
+		farthest = Math.max(farthest, distance);
+	}
+	if (farthest === 0) return;
+
+	const membrane = new THREE.Vector3();
+	for (let i = 0; i < distances.length; i++) {
+		if (distances[i] === 0) continue;
+		corner.fromArray(p, i * 3);
+		// inverse distance weighted mean of the border, along the normal
+		let height = 0;
+		let total = 0;
+		for (const point of borderPoints) {
+			const weight = 1 / point.distanceToSquared(corner);
+			height += weight * membrane.subVectors(point, corner).dot(normal);
+			total += weight;
+		}
+		const weight = Math.sin(((distances[i] / farthest) * Math.PI) / 2) ** 2;
+		const offset = weight * (height / total - depth);
+		for (let k = 0; k < 3; k++) {
+			p[i * 3 + k] += normal.getComponent(k) * offset;
+		}
+	}
+
+	const faces = new THREE.BufferGeometry();
+	faces.setAttribute("position", new THREE.Float32BufferAttribute(p, 3));
+	faces.computeVertexNormals();
+	if (patch.normal) {
+		patch.normal.array = faces.getAttribute("normal").array as Float32Array;
+	}
+}
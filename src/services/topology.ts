@@ -0,0 +1,142 @@
+import * as THREE from "three";
+
+/**
+ * Merges the corners of a non-indexed geometry (face i uses corners 3i..3i+2)
+ * that share a position, returns the vertex index of every corner.
+ *
+ * Positions are compared after rounding to a grid of `tolerance`,
+ * STL files repeat the exact same coordinates for shared corners.
+ * Two corners closer than `tolerance` on either side of a grid line
+ * round apart and are not merged.
+ */
+export function weldVertices(
+	geometry: THREE.BufferGeometry,
+	tolerance = 1e-5
+): { vertexCount: number; corners: Uint32Array } {
+	const position = geometry.getAttribute("position");
+	const p = position.array;
+	const cornerCount = position.count;
+	const corners = new Uint32Array(cornerCount);
+
+	// open addressing hash table of quantized positions -> vertex index
+	let size = 1;
+	while (size < cornerCount * 2) size *= 2;
+	const table = new Int32Array(size).fill(-1);
+	const keys = new Float64Array(cornerCount * 3);
+	let vertexCount = 0;
+
+	for (let corner = 0; corner < cornerCount; corner++) {
+		const x = Math.round(p[corner * 3] / tolerance);
+		const y = Math.round(p[corner * 3 + 1] / tolerance);
+		const z = Math.round(p[corner * 3 + 2] / tolerance);
+		let slot =
+			(Math.imul(x, 73856093) ^
+				Math.imul(y, 19349663) ^
+				Math.imul(z, 83492791)) &
+			(size - 1);
+		for (;;) {
+			const vertex = table[slot];
+			if (vertex === -1) {
+				table[slot] = vertexCount;
+				keys[vertexCount * 3] = x;
+				keys[vertexCount * 3 + 1] = y;
+				keys[vertexCount * 3 + 2] = z;
+				corners[corner] = vertexCount++;
+				break;
+			}
+			if (
+				keys[vertex * 3] === x &&
+				keys[vertex * 3 + 1] === y &&
+				keys[vertex * 3 + 2] === z
+			) {
+				corners[corner] = vertex;
+				break;
+			}
+			slot = (slot + 1) & (size - 1);
+		}
+	}
+	return { vertexCount, corners };
+}
+
+export interface MeshComponent {
+	faces: number[];
+	/** surface area in square model units (mm²) */
+	area: number;
+}
+
+export interface MeshComponents {
+	/** sorted by decreasing area */
+	components: MeshComponent[];
+	/** index into `components` of every face */
+	faceComponent: Uint32Array;
+}
+
+/**
+ * Splits the faces into groups connected through shared vertices
+ * (union-find over the welded vertices)
+ */
+export function findComponents(geometry: THREE.BufferGeometry): MeshComponents {
+	const { vertexCount, corners } = weldVertices(geometry);
+	const faceCount = corners.length / 3;
+
+	const parent = new Uint32Array(vertexCount);
+	for (let i = 0; i < vertexCount; i++) parent[i] = i;
+	const find = (i: number) => {
+		while (parent[i] !== i) {
+			parent[i] = parent[parent[i]];
+			i = parent[i];
+		}
+		return i;
+	};
+	const union = (a: number, b: number) => {
+		const rootA = find(a);
+		const rootB = find(b);
+		if (rootA !== rootB) parent[rootA] = rootB;
+	};
+	for (let face = 0; face < faceCount; face++) {
+		union(corners[face * 3], corners[face * 3 + 1]);
+		union(corners[face * 3], corners[face * 3 + 2]);
+	}
+
+	const position = geometry.getAttribute("position");
+	const triangle = new THREE.Triangle();
+	const byRoot = new Map<number, MeshComponent>();
+	for (let face = 0; face < faceCount; face++) {
+		const root = find(corners[face * 3]);
+		let component = byRoot.get(root);
+		if (!component) {
+			component = { faces: [], area: 0 };
+			byRoot.set(root, component);
+		}
+		component.faces.push(face);
+		triangle.setFromAttributeAndIndices(
+			position,
+			face * 3,
+			face * 3 + 1,
+			face * 3 + 2
+		);
+		component.area += triangle.getArea();
+	}
+
+	const components = [...byRoot.values()].sort((a, b) => b.area - a.area);
+	const faceComponent = new Uint32Array(faceCount);
+	components.forEach((component, index) => {
+		for (const face of component.faces) faceComponent[face] = index;
+	});
+	return { components, faceComponent };
+}
+
+const cache = new WeakMap<THREE.BufferGeometry, MeshComponents>();
+
+/**
+ * Components of a geometry, computed on first use
+ * (edits replace the geometry, see getFaceBVH)
+ */
+export function getComponents(geometry: THREE.BufferGeometry): MeshComponents {
+	let components = cache.get(geometry);
+	if (!components) {
+		components = findComponents(geometry);
+		cache.set(geometry, components);
+	}
+	return components;
+}
@@ -1,47 +1,2093 @@
-import { action, makeAutoObservable } from "mobx";
+import { action, makeAutoObservable, observable } from "mobx";
+import * as THREE from "three";
+import { geometryToDecodedSTL, type DecodedSTL } from "./services/stl_to_mesh";
+import { decodeMeshFile } from "./services/mesh_import";
+import type {
+	FaceHighlight,
+	STLViewer,
+	ViewerMarker,
+	ViewerMeasurement,
+	ViewerPreview,
+} from "./components/stl_viewer";
 import {
-	decodeSTL,
-	geometryToDecodedSTL,
-	type DecodedSTL,
-} from "./services/stl_to_mesh";
-import type { STLViewer } from "./components/stl_viewer";
-import { cutAwaySelection } from "./services/cut_selection";
+	appendFaces,
+	cutAwaySelection,
+	extractFaceDiff,
+	removeLastFaces,
+	restoreCutFaces,
+} from "./services/cut_selection";
+import {
+	History,
+	type AddFacesHistoryEntry,
+	type FaceAttributes,
+	type HistoryEntry,
+	type ReplaceFacesHistoryEntry,
+} from "./services/history";
+import {
+	PROJECT_EXTENSION,
+	readProject,
+	writeProject,
+	type CameraPose,
+} from "./services/project_file";
+import { SceneModel } from "./scene_model";
+import { fitRigidTransform } from "./services/registration";
+import {
+	defaultICPOptions,
+	sampleFaceCentroids,
+	type ICPRegion,
+	type ICPRequest,
+	type ICPResponse,
+	type ICPResult,
+} from "./services/icp";
+import { brushRadiusLimits, type BrushUnit } from "./services/brush_selection";
+import type {
+	SelectionOperation,
+	SelectionTool,
+} from "./services/region_selection";
+import { getComponents } from "./services/topology";
+import {
+	fitPlane,
+	occlusalOrientation,
+	type OcclusalPlaneSource,
+} from "./services/orientation";
+import {
+	cutPlaneFromPose,
+	planeCut,
+	type CutPlanePose,
+} from "./services/plane_cut";
+import { fillHoles, findHoles, type Hole } from "./services/hole_filling";
+import { solidify, thicknessLimits } from "./services/solidify";
+import { repairMesh } from "./services/mesh_repair";
+import {
+	analyzeMesh,
+	meshProblems,
+	type MeshAnalysis,
+	worldBounds,
+} from "./services/mesh_analysis";
+import {
+	createBase,
+	defaultBaseOptions,
+	type BaseShape,
+} from "./services/model_base";
+import {
+	labelLimits,
+	placeLabel,
+	type LabelMode,
+	type PlacedLabel,
+} from "./services/text_label";
+import {
+	defaultRetainerOptions,
+	designRetainer,
+	type WireProfile,
+} from "./services/retainer";
+import {
+	buildCrown,
+	defaultCrownOptions,
+	type Crown,
+	type CrownSource,
+} from "./services/crown";
+import { extractTooth } from "./services/tooth_extraction";
+import { sectionProfile, type ProfileLine } from "./services/cross_section";
+import {
+	formatMeasurement,
+	measure,
+	measurementKinds,
+	type Measurement,
+	type MeasurementKind,
+} from "./services/measurement";
+import {
+	downloadBlob,
+	exportSTL,
+	type STLExportFormat,
+	type STLExportFrame,
+} from "./services/stl_export";
+
+const emptySelection = new Set<number>();
+
+/** history labels of the gizmo modes, see `recordTransform` */
+const transformLabels = {
+	translate: "Translate",
+	rotate: "Rotate",
+	scale: "Scale",
+};
+
+/** at the vertex of an angle, half way along a distance */
+function measurementLabelPosition(measurement: Measurement): number[] {
+	const { kind, points, path } = measurement;
+	if (kind === "angle") {
+		return points[1];
+	}
+	if (kind === "distance") {
+		return points[0].map((x, k) => (x + points[1][k]) / 2);
+	}
+	return path[Math.floor(path.length / 2)];
+}
+
+class AppState {
+	constructor() {
+		makeAutoObservable(this, { models: observable.shallow, icpWorker: false });
+	}
+
+	/**
+	 * Loading mesh
+	 * ============================
+	 */
+
+	models: SceneModel[] = [];
+	activeModelId: number | null = null;
+	decodingError: string | null = null;
+	selecting = false;
+
+	/** the model that selection, cut and transform act on */
+	get activeModel(): SceneModel | null {
+		return this.models.find((model) => model.id === this.activeModelId) || null;
+	}
+
+	get decodedSTL(): DecodedSTL | null {
+		return this.activeModel ? this.activeModel.decodedSTL : null;
+	}
+
+	@action
+	startSelecting() {
+		this.stopTools();
+		this.selecting = true;
+	}
+	@action
+	stopSelecting() {
+		this.selecting = false;
+	}
+
+	/** leaves the selection and every tool, before another one is started */
+	@action
+	stopTools() {
+		this.selecting = false;
+		this.stopAligning();
+		this.stopOrienting();
+		this.stopPlaneCut();
+		this.stopFillingHoles();
+		this.stopSolidifying();
+		this.stopCreatingBase();
+		this.stopAnalyzing();
+		this.stopLabeling();
+		this.stopDesigningRetainer();
+		this.stopDesigningCrown();
+		this.stopExtracting();
+		this.stopMeasuring();
+		this.stopSectioning();
+	}
+
+	@action
+	cutSelection(indices: Set<number>) {
+		const model = this.activeModel;
+		if (!model || model.locked) {
+			return;
+		}
+		const diff = extractFaceDiff(
+			model.decodedSTL.geometry,
+			indices,
+			model.decodedSTL.colors
+		);
+		const newGeometry = cutAwaySelection(model.decodedSTL.geometry, indices);
+		this.replaceGeometry(model, newGeometry);
+		this.history.push({
+			kind: "cut",
+			label: `Cut ${diff.faces.length} faces`,
+			modelId: model.id,
+			diff,
+		});
+		model.selectedFaceIndices.clear();
+		this.selectionVersion++;
+		this.islandInfo = null;
+	}
+
+	/**
+	 * Replaces the geometry of a model,
+	 * keeping the pose it was given in the viewer
+	 */
+	@action
+	replaceGeometry(model: SceneModel, geometry: THREE.BufferGeometry) {
+		const previous = model.decodedSTL;
+		const decodedSTL = geometryToDecodedSTL(geometry);
+		decodedSTL.scannerColors = previous.scannerColors;
+		decodedSTL.mesh.position.copy(previous.mesh.position);
+		decodedSTL.mesh.quaternion.copy(previous.mesh.quaternion);
+		decodedSTL.mesh.scale.copy(previous.mesh.scale);
+		decodedSTL.mesh.userData.centered = previous.mesh.userData.centered;
+		model.decodedSTL = decodedSTL;
+		// the holes are found again on the new geometry
+		this.chosenHoles = [];
+	}
+
+	@action
+	async openFiles(files: File[]) {
+		const project = files.find((file) =>
+			file.name.toLowerCase().endsWith(PROJECT_EXTENSION)
+		);
+		if (project) {
+			await this.openProject(project);
+			return;
+		}
+		for (const file of files) {
+			await this.decodeFile(file);
+		}
+	}
+
+	@action
+	async decodeFile(file: File) {
+		try {
+			this.decodingError = null;
+			const decodedSTL = await decodeMeshFile(file);
+			const model = new SceneModel({
+				name: file.name,
+				decodedSTL,
+				sourceFile: { name: file.name, contents: await file.arrayBuffer() },
+			});
+			this.models.push(model);
+			if (this.activeModelId === null) {
+				this.activeModelId = model.id;
+			}
+		} catch (err) {
+			this.decodingError = err as string;
+		}
+	}
+
+	@action
+	closeFile() {
+		this.models = [];
+		this.activeModelId = null;
+		this.history.clear();
+		this.stopTools();
+		this.measurements = [];
+		this.selectionVersion++;
+	}
+
+	/**
+	 * Models
+	 * ============================
+	 */
+
+	@action
+	setActiveModel(model: SceneModel) {
+		this.activeModelId = model.id;
+		this.islandInfo = null;
+		this.chosenHoles = [];
+		if (this.orienting) {
+			this.orientModelId = model.id;
+			this.orientPoints = [];
+		}
+		this.selectionVersion++;
+	}
+
+	@action
+	removeModel(model: SceneModel) {
+		this.models = this.models.filter((m) => m !== model);
+		this.history.removeModel(model.id);
+		if (model.id === this.alignMovingId || model.id === this.alignFixedId) {
+			this.stopAligning();
+		}
+		if (model.id === this.orientModelId) {
+			this.stopOrienting();
+		}
+		if (model.id === this.labelModelId) {
+			this.stopLabeling();
+		}
+		if (model.id === this.retainerModelId) {
+			this.stopDesigningRetainer();
+		}
+		if (model.id === this.crownModelId || model.id === this.crownPreOpId) {
+			this.stopDesigningCrown();
+		}
+		if (model.id === this.measureModelId) {
+			this.measurePoints = [];
+		}
+		this.measurements = this.measurements.filter(
+			(measurement) => measurement.modelId !== model.id
+		);
+		if (this.activeModelId === model.id) {
+			this.activeModelId = this.models.length ? this.models[0].id : null;
+		}
+		this.selectionVersion++;
+	}
+
+	/**
+	 * Adds a model made for another one (e.g. a retainer for an arch),
+	 * placed on it
+	 */
+	@action
+	addModelOn(
+		base: SceneModel,
+		suffix: string,
+		geometry: THREE.BufferGeometry
+	): SceneModel {
+		const decodedSTL = geometryToDecodedSTL(geometry);
+		const baseMesh = base.decodedSTL.mesh;
+		decodedSTL.mesh.position.copy(baseMesh.position);
+		decodedSTL.mesh.quaternion.copy(baseMesh.quaternion);
+		decodedSTL.mesh.scale.copy(baseMesh.scale);
+		decodedSTL.mesh.userData.centered = baseMesh.userData.centered;
+		const baseName = base.name.replace(/\.[^.]+$/, "") || "model";
+		const model = new SceneModel({
+			name: `${baseName} ${suffix}`,
+			decodedSTL,
+		});
+		this.models.push(model);
+		return model;
+	}
+
+	@action
+	renameModel(model: SceneModel, name: string) {
+		model.name = name;
+	}
+
+	@action
+	toggleModelVisibility(model: SceneModel) {
+		model.visible = !model.visible;
+	}
+
+	@action
+	toggleModelLock(model: SceneModel) {
+		model.locked = !model.locked;
+	}
+
+	@action
+	setModelColor(model: SceneModel, color: string) {
+		model.color = color;
+		model.applyColor();
+		// the selection highlight was painted over
+		this.selectionVersion++;
+	}
+
+	/**
+	 * Selection
+	 * ============================
+	 */
+
+	// bumped whenever the selection of a model is changed from outside
+	// of the viewer (the selection sets themselves are not observable)
+	selectionVersion = 0;
+
+	/** selection of the active model */
+	get selectedFaceIndices(): Set<number> {
+		return this.activeModel
+			? this.activeModel.selectedFaceIndices
+			: emptySelection;
+	}
+
+	@action
+	recordSelectionStroke(added: number[], removed: number[]) {
+		if (!this.activeModel || (added.length === 0 && removed.length === 0)) {
+			return;
+		}
+		this.history.push({
+			kind: "selection",
+			label: removed.length > 0 ? "Deselect faces" : "Select faces",
+			modelId: this.activeModel.id,
+			added: Uint32Array.from(added),
+			removed: Uint32Array.from(removed),
+		});
+	}
+
+	@action
+	clearSelection() {
+		const model = this.activeModel;
+		if (!model || model.selectedFaceIndices.size === 0) {
+			return;
+		}
+		this.history.push({
+			kind: "selection",
+			label: "Deselect all",
+			modelId: model.id,
+			added: new Uint32Array(0),
+			removed: Uint32Array.from(model.selectedFaceIndices),
+		});
+		model.selectedFaceIndices.clear();
+		this.selectionVersion++;
+	}
+
+	brushUnit: BrushUnit = "pixels";
+	brushRadiusPixels = 10;
+	brushRadiusMm = 1;
+	/** when set, the brush removes faces from the selection (like Alt-drag) */
+	brushErasing = false;
+
+	get brushRadius() {
+		return this.brushUnit === "pixels"
+			? this.brushRadiusPixels
+			: this.brushRadiusMm;
+	}
+
+	@action
+	setBrushRadius(radius: number) {
+		const { min, max } = brushRadiusLimits[this.brushUnit];
+		radius = Math.min(max, Math.max(min, radius));
+		if (this.brushUnit === "pixels") {
+			this.brushRadiusPixels = Math.round(radius);
+		} else {
+			this.brushRadiusMm = Math.round(radius * 10) / 10;
+		}
+	}
+
+	@action
+	setBrushUnit(unit: BrushUnit) {
+		this.brushUnit = unit;
+	}
+
+	@action
+	toggleBrushErasing() {
+		this.brushErasing = !this.brushErasing;
+	}
+
+	selectionTool: SelectionTool = "brush";
+	selectionOperation: SelectionOperation = "add";
+	selectVisibleOnly = true;
+
+	@action
+	setSelectionTool(tool: SelectionTool) {
+		this.selectionTool = tool;
+	}
+
+	@action
+	setSelectionOperation(operation: SelectionOperation) {
+		this.selectionOperation = operation;
+	}
+
+	@action
+	toggleSelectVisibleOnly() {
+		this.selectVisibleOnly = !this.selectVisibleOnly;
+	}
+
+	/**
+	 * Islands (connected components)
+	 * ============================
+	 */
+
+	islandThreshold = 20;
+	islandUnit: "mm2" | "faces" = "mm2";
+	islandInfo: string | null = null;
+
+	/** selects the islands below the threshold, e.g. scanned tongue or cotton roll */
+	@action
+	selectSmallIslands() {
+		const model = this.activeModel;
+		if (!model) {
+			return;
+		}
+		const { components } = getComponents(model.decodedSTL.geometry);
+		const small = components.filter((component) =>
+			this.islandUnit === "mm2"
+				? component.area < this.islandThreshold
+				: component.faces.length < this.islandThreshold
+		);
+		this.selectFaces(
+			model,
+			small.flatMap((component) => component.faces),
+			"Select small islands"
+		);
+		this.islandInfo = `${small.length} of ${components.length} islands are smaller.`;
+	}
+
+	/** selects everything but the largest island, cutting it keeps only that */
+	@action
+	selectAllButLargestIsland() {
+		const model = this.activeModel;
+		if (!model) {
+			return;
+		}
+		const { components } = getComponents(model.decodedSTL.geometry);
+		this.selectFaces(
+			model,
+			components.slice(1).flatMap((component) => component.faces),
+			"Select all but the largest island"
+		);
+		this.islandInfo = `${components.length - 1} of ${components.length} islands selected.`;
+	}
+
+	/** adds faces to the selection of a model as one undo step */
+	@action
+	selectFaces(model: SceneModel, faces: number[], label: string) {
+		const added = faces.filter((face) => !model.selectedFaceIndices.has(face));
+		if (added.length === 0) {
+			return;
+		}
+		added.forEach((face) => model.selectedFaceIndices.add(face));
+		this.history.push({
+			kind: "selection",
+			label,
+			modelId: model.id,
+			added: Uint32Array.from(added),
+			removed: new Uint32Array(0),
+		});
+		this.selectionVersion++;
+	}
+
+	/**
+	 * History (undo/redo)
+	 * ============================
+	 */
+
+	history = new History();
+
+	@action
+	recordTransform(
+		before: THREE.Matrix4,
+		after: THREE.Matrix4,
+		mode: "translate" | "rotate" | "scale"
+	) {
+		if (!this.activeModel) {
+			return;
+		}
+		// the viewer moved the mesh
+		this.activeModel.updateTransform();
+		if (before.equals(after)) {
+			return;
+		}
+		this.history.push({
+			kind: "transform",
+			label: transformLabels[mode],
+			modelId: this.activeModel.id,
+			before: before.toArray(),
+			after: after.toArray(),
+		});
+	}
+
+	@action
+	undo() {
+		const entry = this.history.undo();
+		if (entry) {
+			this.revertHistoryEntry(entry);
+		}
+	}
+
+	@action
+	redo() {
+		const entry = this.history.redo();
+		if (entry) {
+			this.applyHistoryEntry(entry);
+		}
+	}
+
+	/**
+	 * Undoes/redoes until `cursor` entries of the history are applied
+	 */
+	@action
+	jumpToHistory(cursor: number) {
+		while (this.history.cursor > cursor && this.history.canUndo) {
+			this.undo();
+		}
+		while (this.history.cursor < cursor && this.history.canRedo) {
+			this.redo();
+		}
+	}
+
+	/** finds the model of the entry and makes it active so the change is visible */
+	@action
+	activateEntryModel(entry: HistoryEntry): SceneModel | null {
+		const model = this.models.find((m) => m.id === entry.modelId) || null;
+		if (model) {
+			this.activeModelId = model.id;
+		}
+		return model;
+	}
+
+	@action
+	revertHistoryEntry(entry: HistoryEntry) {
+		const model = this.activateEntryModel(entry);
+		if (!model) {
+			return;
+		}
+		const selection = model.selectedFaceIndices;
+		switch (entry.kind) {
+			case "cut":
+				this.replaceGeometry(
+					model,
+					restoreCutFaces(model.decodedSTL.geometry, entry.diff)
+				);
+				// the faces were selected right before they were cut
+				entry.diff.faces.forEach((face) => selection.add(face));
+				break;
+			case "add-faces":
+				model.clearHighlight();
+				this.replaceGeometry(
+					model,
+					removeLastFaces(
+						model.decodedSTL.geometry,
+						entry.added.position.array.length / 9
+					)
+				);
+				break;
+			case "replace-faces":
+				this.replaceGeometry(
+					model,
+					restoreCutFaces(
+						removeLastFaces(
+							model.decodedSTL.geometry,
+							entry.added.position.array.length / 9
+						),
+						entry.diff
+					)
+				);
+				entry.selection.forEach((face) => selection.add(face));
+				break;
+			case "selection":
+				entry.added.forEach((face) => selection.delete(face));
+				entry.removed.forEach((face) => selection.add(face));
+				break;
+			case "transform":
+				this.setMeshPose(model, entry.before);
+				break;
+		}
+		this.selectionVersion++;
+	}
+
+	@action
+	applyHistoryEntry(entry: HistoryEntry) {
+		const model = this.activateEntryModel(entry);
+		if (!model) {
+			return;
+		}
+		const selection = model.selectedFaceIndices;
+		switch (entry.kind) {
+			case "cut":
+				this.replaceGeometry(
+					model,
+					cutAwaySelection(model.decodedSTL.geometry, new Set(entry.diff.faces))
+				);
+				selection.clear();
+				break;
+			case "replace-faces":
+				this.replaceFaces(model, entry);
+				break;
+			case "add-faces":
+				model.clearHighlight();
+				this.replaceGeometry(
+					model,
+					appendFaces(model.decodedSTL.geometry, entry.added)
+				);
+				break;
+			case "selection":
+				entry.removed.forEach((face) => selection.delete(face));
+				entry.added.forEach((face) => selection.add(face));
+				break;
+			case "transform":
+				this.setMeshPose(model, entry.after);
+				break;
+		}
+		this.selectionVersion++;
+	}
+
+	/** appends faces made by a tool to the model, as one history entry */
+	@action
+	addFaces(
+		model: SceneModel,
+		label: string,
+		added: FaceAttributes
+	): AddFacesHistoryEntry {
+		const entry: AddFacesHistoryEntry = {
+			kind: "add-faces",
+			label,
+			modelId: model.id,
+			added,
+		};
+		this.applyHistoryEntry(entry);
+		this.history.push(entry);
+		return entry;
+	}
+
+	@action
+	setMeshPose(model: SceneModel, matrixElements: number[]) {
+		const mesh = model.decodedSTL.mesh;
+		new THREE.Matrix4()
+			.fromArray(matrixElements)
+			.decompose(mesh.position, mesh.quaternion, mesh.scale);
+		model.updateTransform();
+	}
+
+	/**
+	 * Alignment (landmark registration)
+	 * ============================
+	 */
+
+	aligning = false;
+	alignMovingId: number | null = null;
+	alignFixedId: number | null = null;
+	// landmarks in the local coordinates of their model, matched by order
+	alignMovingPoints: number[][] = [];
+	alignFixedPoints: number[][] = [];
+	alignResult: { residuals: number[]; rms: number } | null = null;
+
+	get alignmentPairCount() {
+		return Math.min(
+			this.alignMovingPoints.length,
+			this.alignFixedPoints.length
+		);
+	}
+
+	get alignmentMarkers(): ViewerMarker[] {
+		if (!this.aligning) {
+			return [];
+		}
+		return [
+			...this.alignMovingPoints.map((position, i) => ({
+				modelId: this.alignMovingId!,
+				position,
+				color: "#d13438",
+				label: `${i + 1}`,
+			})),
+			...this.alignFixedPoints.map((position, i) => ({
+				modelId: this.alignFixedId!,
+				position,
+				color: "#107c10",
+				label: `${i + 1}`,
+			})),
+		];
+	}
+
+	@action
+	startAligning() {
+		const moving = this.activeModel;
+		const fixed = this.models.find((model) => model !== moving);
+		if (!moving || !fixed) {
+			return;
+		}
+		this.stopTools();
+		this.aligning = true;
+		this.setAlignmentModels(moving.id, fixed.id);
+	}
+
+	@action
+	stopAligning() {
+		this.stopICPWorker();
+		this.icpResult = null;
+		this.icpError = null;
+		this.aligning = false;
+		this.alignMovingPoints = [];
+		this.alignFixedPoints = [];
+		this.alignResult = null;
+	}
+
+	@action
+	setAlignmentModels(movingId: number, fixedId: number) {
+		this.alignMovingId = movingId;
+		this.alignFixedId = fixedId;
+		this.alignMovingPoints = [];
+		this.alignFixedPoints = [];
+		this.alignResult = null;
+		this.icpResult = null;
+		this.icpError = null;
+	}
+
+	@action
+	addAlignmentPoint(modelId: number, point: THREE.Vector3) {
+		if (modelId === this.alignMovingId) {
+			this.alignMovingPoints.push(point.toArray());
+		} else if (modelId === this.alignFixedId) {
+			this.alignFixedPoints.push(point.toArray());
+		} else {
+			return;
+		}
+		this.alignResult = null;
+	}
+
+	@action
+	removeAlignmentPair(index: number) {
+		this.alignMovingPoints.splice(index, 1);
+		this.alignFixedPoints.splice(index, 1);
+		this.alignResult = null;
+	}
+
+	/**
+	 * Moves the moving model so its landmarks best fit (least-squares)
+	 * the landmarks of the fixed model
+	 */
+	@action
+	applyAlignment() {
+		const moving = this.models.find((m) => m.id === this.alignMovingId);
+		const fixed = this.models.find((m) => m.id === this.alignFixedId);
+		const count = this.alignmentPairCount;
+		if (!moving || !fixed || moving.locked || count < 3) {
+			return;
+		}
+
+		const movingMesh = moving.decodedSTL.mesh;
+		const fixedMesh = fixed.decodedSTL.mesh;
+		movingMesh.updateMatrixWorld();
+		fixedMesh.updateMatrixWorld();
+		const toWorld = (points: number[][], mesh: THREE.Mesh) =>
+			points
+				.slice(0, count)
+				.map((p) =>
+					new THREE.Vector3().fromArray(p).applyMatrix4(mesh.matrixWorld)
+				);
+
+		const fit = fitRigidTransform(
+			toWorld(this.alignMovingPoints, movingMesh),
+			toWorld(this.alignFixedPoints, fixedMesh)
+		);
+
+		const before = movingMesh.matrix.clone();
+		const after = fit.matrix.clone().multiply(before);
+		this.setMeshPose(moving, after.toArray());
+		this.history.push({
+			kind: "transform",
+			label: `Align to ${fixed.name}`,
+			modelId: moving.id,
+			before: before.toArray(),
+			after: after.toArray(),
+		});
+		this.alignResult = { residuals: fit.residuals, rms: fit.rms };
+	}
+
+	/**
+	 * Alignment (ICP refinement)
+	 * ============================
+	 */
+
+	icpRegion: ICPRegion = "all";
+	icpMaxDistance = defaultICPOptions.maxDistance;
+	icpRunning = false;
+	icpProgress: { iteration: number; rms: number } | null = null;
+	icpResult: ICPResult | null = null;
+	icpError: string | null = null;
+	icpWorker: Worker | null = null;
+
+	/**
+	 * Refines the pose of the moving model with iterative closest point,
+	 * matching subsampled face centroids of both models in a worker
+	 */
+	@action
+	startICP() {
+		const moving = this.models.find((m) => m.id === this.alignMovingId);
+		const fixed = this.models.find((m) => m.id === this.alignFixedId);
+		if (!moving || !fixed || moving.locked || this.icpRunning) {
+			return;
+		}
+
+		const movingMesh = moving.decodedSTL.mesh;
+		const fixedMesh = fixed.decodedSTL.mesh;
+		movingMesh.updateMatrixWorld();
+		fixedMesh.updateMatrixWorld();
+		const selection = moving.selectedFaceIndices;
+		const faceFilter =
+			this.icpRegion === "selected"
+				? (face: number) => selection.has(face)
+				: this.icpRegion === "unselected"
+					? (face: number) => !selection.has(face)
+					: undefined;
+		const request: ICPRequest = {
+			moving: sampleFaceCentroids(
+				moving.decodedSTL.geometry,
+				movingMesh.matrixWorld,
+				5000,
+				faceFilter
+			),
+			fixed: sampleFaceCentroids(
+				fixed.decodedSTL.geometry,
+				fixedMesh.matrixWorld,
+				200000
+			),
+			options: { ...defaultICPOptions, maxDistance: this.icpMaxDistance },
+		};
+		if (request.moving.length === 0) {
+			this.icpError = "The chosen region of the moving model is empty.";
+			return;
+		}
+
+		const before = movingMesh.matrix.clone();
+		const worker = new Worker(
+			new URL("./services/icp.worker.ts", import.meta.url),
+			{ type: "module" }
+		);
+		worker.onmessage = (event: MessageEvent<ICPResponse>) =>
+			this.onICPResponse(event.data, moving, fixed, before);
+		worker.postMessage(request, [request.moving.buffer, request.fixed.buffer]);
+
+		this.icpWorker = worker;
+		this.icpRunning = true;
+		this.icpProgress = null;
+		this.icpResult = null;
+		this.icpError = null;
+	}
+
+	@action
+	onICPResponse(
+		response: ICPResponse,
+		moving: SceneModel,
+		fixed: SceneModel,
+		before: THREE.Matrix4
+	) {
+		if (response.type === "progress") {
+			this.icpProgress = {
+				iteration: response.iteration,
+				rms: response.rms,
+			};
+			return;
+		}
+
+		this.stopICPWorker();
+		if (response.type === "error") {
+			this.icpError = response.message;
+			return;
+		}
+		if (!this.models.includes(moving)) {
+			return;
+		}
+
+		const after = new THREE.Matrix4()
+			.fromArray(response.result.matrix)
+			.multiply(before);
+		this.setMeshPose(moving, after.toArray());
+		this.history.push({
+			kind: "transform",
+			label: `Refine onto ${fixed.name}`,
+			modelId: moving.id,
+			before: before.toArray(),
+			after: after.toArray(),
+		});
+		this.icpResult = response.result;
+	}
+
+	@action
+	cancelICP() {
+		this.stopICPWorker();
+	}
+
+	@action
+	stopICPWorker() {
+		this.icpWorker?.terminate();
+		this.icpWorker = null;
+		this.icpRunning = false;
+		this.icpProgress = null;
+	}
+
+	/**
+	 * Orientation (occlusal plane)
+	 * ============================
+	 */
+
+	orienting = false;
+	orientModelId: number | null = null;
+	orientSource: OcclusalPlaneSource = "principal-axes";
+	// points on the occlusal plane, in the local coordinates of the model
+	orientPoints: number[][] = [];
+	orientError: string | null = null;
+
+	get orientationMarkers(): ViewerMarker[] {
+		if (!this.orienting || this.orientSource !== "points") {
+			return [];
+		}
+		return this.orientPoints.map((position, i) => ({
+			modelId: this.orientModelId!,
+			position,
+			color: "#0078d4",
+			label: `${i + 1}`,
+		}));
+	}
+
+	@action
+	startOrienting() {
+		if (!this.activeModel) {
+			return;
+		}
+		this.stopTools();
+		this.orienting = true;
+		this.orientModelId = this.activeModel.id;
+		this.orientPoints = [];
+		this.orientError = null;
+	}
+
+	@action
+	stopOrienting() {
+		this.orienting = false;
+		this.orientModelId = null;
+		this.orientPoints = [];
+		this.orientError = null;
+	}
+
+	@action
+	addOrientationPoint(modelId: number, point: THREE.Vector3) {
+		if (modelId !== this.orientModelId || this.orientSource !== "points") {
+			return;
+		}
+		this.orientPoints.push(point.toArray());
+	}
+
+	@action
+	removeOrientationPoint(index: number) {
+		this.orientPoints.splice(index, 1);
+	}
+
+	/**
+	 * Rotates the model so its occlusal plane is horizontal and the
+	 * midline faces forward, and puts it on the ground plane
+	 */
+	@action
+	applyOrientation() {
+		const model = this.models.find((m) => m.id === this.orientModelId);
+		if (!model || model.locked) {
+			return;
+		}
+		const mesh = model.decodedSTL.mesh;
+		mesh.updateMatrixWorld();
+
+		try {
+			const normal =
+				this.orientSource === "points"
+					? fitPlane(
+							this.orientPoints.map((p) =>
+								new THREE.Vector3().fromArray(p).applyMatrix4(mesh.matrixWorld)
+							)
+						).normal
+					: undefined;
+			const orientation = occlusalOrientation(
+				model.decodedSTL.geometry,
+				mesh.matrixWorld,
+				normal
+			);
+
+			const before = mesh.matrix.clone();
+			const after = orientation.multiply(before);
+			this.setMeshPose(model, after.toArray());
+			this.history.push({
+				kind: "transform",
+				label: "Orient",
+				modelId: model.id,
+				before: before.toArray(),
+				after: after.toArray(),
+			});
+			this.orientError = null;
+		} catch (err) {
+			this.orientError = err instanceof Error ? err.message : String(err);
+		}
+	}
+
+	/**
+	 * Plane cut
+	 * ============================
+	 */
+
+	planeCutting = false;
+	cutPlanePose: CutPlanePose = { position: [0, 0, 0], rotation: [0, 0, 0] };
+	cutPlaneGizmo: "translate" | "rotate" = "translate";
+	cutPlaneRemoveAbove = false;
+	cutPlaneCap = true;
+	planeCutInfo: string | null = null;
+	planeCutError: string | null = null;
+
+	@action
+	startPlaneCut() {
+		const model = this.activeModel;
+		if (!model) {
+			return;
+		}
+		this.stopTools();
+
+		// a bit above the bottom of the model, where the base is trimmed
+		const box = new THREE.Box3().setFromObject(model.decodedSTL.mesh);
+		const center = box.getCenter(new THREE.Vector3());
+		this.cutPlanePose = {
+			position: [center.x, box.min.y + 0.2 * (box.max.y - box.min.y), center.z],
+			rotation: [0, 0, 0],
+		};
+		this.planeCutting = true;
+		this.planeCutInfo = null;
+		this.planeCutError = null;
+	}
+
+	@action
+	stopPlaneCut() {
+		this.planeCutting = false;
+		this.planeCutInfo = null;
+		this.planeCutError = null;
+	}
+
+	@action
+	setCutPlanePose(pose: CutPlanePose) {
+		this.cutPlanePose = pose;
+	}
+
+	/**
+	 * Splits the active model along the cutting plane
+	 * and removes the part on the removed side
+	 */
+	@action
+	applyPlaneCut() {
+		const model = this.activeModel;
+		if (!model || model.locked) {
+			return;
+		}
+		const { geometry, colors, mesh } = model.decodedSTL;
+		mesh.updateMatrixWorld();
+		const plane = cutPlaneFromPose(
+			this.cutPlanePose,
+			this.cutPlaneRemoveAbove
+		).applyMatrix4(mesh.matrixWorld.clone().invert());
+
+		const cut = planeCut(geometry, plane, { cap: this.cutPlaneCap, colors });
+		if (cut.faces.size === 0) {
+			this.planeCutError = "The plane does not cross the model.";
+			return;
+		}
+		if (
+			cut.faces.size === geometry.getAttribute("position").count / 3 &&
+			cut.added.position.array.length === 0
+		) {
+			this.planeCutError = "The whole model is on the removed side.";
+			return;
+		}
+
+		const entry: ReplaceFacesHistoryEntry = {
+			kind: "replace-faces",
+			label: "Plane cut",
+			modelId: model.id,
+			diff: extractFaceDiff(geometry, cut.faces, colors),
+			added: cut.added,
+			selection: Uint32Array.from(model.selectedFaceIndices),
+		};
+		this.replaceFaces(model, entry);
+		this.history.push(entry);
+		this.selectionVersion++;
+		this.islandInfo = null;
+
+		this.planeCutError = null;
+		this.planeCutInfo = `${cut.faces.size} faces removed or split.`;
+		if (this.cutPlaneCap && cut.cappedSections > 0) {
+			this.planeCutInfo += ` ${cut.cappedSections} sections capped.`;
+		}
+		if (this.cutPlaneCap && cut.openSections > 0) {
+			this.planeCutInfo += ` ${cut.openSections} sections run into holes of the scan and are left open.`;
+		}
+	}
+
+	/** removes the faces of the entry and appends its new faces */
+	@action
+	replaceFaces(model: SceneModel, entry: ReplaceFacesHistoryEntry) {
+		model.clearHighlight();
+		this.replaceGeometry(
+			model,
+			appendFaces(
+				cutAwaySelection(model.decodedSTL.geometry, new Set(entry.diff.faces)),
+				entry.added
+			)
+		);
+		model.selectedFaceIndices.clear();
+	}
+
+	/**
+	 * Hole filling
+	 * ============================
+	 */
+
+	fillingHoles = false;
+	/** indices in `holes` of the holes to fill */
+	chosenHoles: number[] = [];
+	holeMaxPerimeter = 30;
+	holeInfo: string | null = null;
+
+	/** holes of the active model, sorted by increasing perimeter */
+	get holes(): Hole[] {
+		const model = this.activeModel;
+		if (!this.fillingHoles || !model) {
+			return [];
+		}
+		return findHoles(model.decodedSTL.geometry);
+	}
+
+	get holeMarkers(): ViewerMarker[] {
+		if (!this.fillingHoles || !this.activeModel) {
+			return [];
+		}
+		const modelId = this.activeModel.id;
+		return this.holes.map((hole, i) => ({
+			modelId,
+			position: hole.center,
+			color: this.chosenHoles.includes(i) ? "#ca5010" : "#605e5c",
+			label: `${i + 1}`,
+		}));
+	}
+
+	@action
+	startFillingHoles() {
+		if (!this.activeModel) {
+			return;
+		}
+		this.stopTools();
+		this.fillingHoles = true;
+		this.chosenHoles = [];
+		this.holeInfo = null;
+	}
+
+	@action
+	stopFillingHoles() {
+		this.fillingHoles = false;
+		this.chosenHoles = [];
+		this.holeInfo = null;
+	}
+
+	@action
+	toggleHole(index: number) {
+		if (this.chosenHoles.includes(index)) {
+			this.chosenHoles = this.chosenHoles.filter((i) => i !== index);
+		} else {
+			this.chosenHoles = [...this.chosenHoles, index];
+		}
+	}
+
+	/** chooses the holes below the perimeter threshold */
+	@action
+	chooseSmallHoles() {
+		this.chosenHoles = this.holes
+			.map((hole, i) => (hole.perimeter < this.holeMaxPerimeter ? i : -1))
+			.filter((i) => i !== -1);
+	}
+
+	/** closes the chosen holes with patches that follow the surface around them */
+	@action
+	fillChosenHoles() {
+		const model = this.activeModel;
+		if (!model || model.locked || this.chosenHoles.length === 0) {
+			return;
+		}
+		const holes = this.chosenHoles.map((i) => this.holes[i]);
+		const { geometry, colors } = model.decodedSTL;
+		const entry = this.addFaces(
+			model,
+			holes.length === 1 ? "Fill hole" : `Fill ${holes.length} holes`,
+			fillHoles(geometry, holes, colors)
+		);
+		this.holeInfo = `${entry.label}: ${entry.added.position.array.length / 9} faces added.`;
+	}
+
+	/**
+	 * Solidify
+	 * ============================
+	 */
+
+	solidifying = false;
+	/** wall thickness in mm */
+	solidifyThickness = 2;
+	solidifyInfo: string | null = null;
+	solidifyError: string | null = null;
+
+	@action
+	startSolidifying() {
+		if (!this.activeModel) {
+			return;
+		}
+		this.stopTools();
+		this.solidifying = true;
+		this.solidifyInfo = null;
+		this.solidifyError = null;
+	}
+
+	@action
+	stopSolidifying() {
+		this.solidifying = false;
+		this.solidifyInfo = null;
+		this.solidifyError = null;
+	}
+
+	@action
+	setSolidifyThickness(thickness: number) {
+		this.solidifyThickness = Math.min(
+			thicknessLimits.max,
+			Math.max(thicknessLimits.min, thickness)
+		);
+	}
+
+	/** turns the active model into a shell, the scanned surface stays outside */
+	@action
+	solidifyModel() {
+		const model = this.activeModel;
+		if (!model || model.locked) {
+			return;
+		}
+		const thickness = this.solidifyThickness;
+		try {
+			const { added, rimEdges } = solidify(model.decodedSTL.geometry, {
+				thickness,
+				colors: model.decodedSTL.colors,
+			});
+			this.addFaces(model, `Solidify ${thickness} mm`, added);
+			this.solidifyInfo =
+				rimEdges === 0
+					? `The model was closed, it is hollowed with ${thickness} mm walls.`
+					: `Shell of ${thickness} mm made, ${rimEdges} boundary edges closed by the rim.`;
+			this.solidifyError = null;
+		} catch (err) {
+			this.solidifyInfo = null;
+			this.solidifyError = err instanceof Error ? err.message : String(err);
+		}
+	}
+
+	/**
+	 * Base
+	 * ============================
+	 */
+
+	creatingBase = false;
+	baseHeight = defaultBaseOptions.height;
+	baseShape: BaseShape = defaultBaseOptions.shape;
+	baseHollow = false;
+	baseWallThickness = 2;
+	baseDrainHoles = defaultBaseOptions.drainHoles;
+	baseDrainHoleDiameter = defaultBaseOptions.drainHoleDiameter;
+	baseInfo: string | null = null;
+	baseError: string | null = null;
+
+	@action
+	startCreatingBase() {
+		if (!this.activeModel) {
+			return;
+		}
+		this.stopTools();
+		this.creatingBase = true;
+		this.baseInfo = null;
+		this.baseError = null;
+	}
+
+	@action
+	stopCreatingBase() {
+		this.creatingBase = false;
+		this.baseInfo = null;
+		this.baseError = null;
+	}
 
-class AppState {
-	constructor() {
-		makeAutoObservable(this);
+	/** closes the open scan with a flat base under it, see `createBase` */
+	@action
+	createModelBase() {
+		const model = this.activeModel;
+		if (!model || model.locked) {
+			return;
+		}
+		const mesh = model.decodedSTL.mesh;
+		mesh.updateMatrixWorld();
+		try {
+			const base = createBase(model.decodedSTL.geometry, mesh.matrixWorld, {
+				height: this.baseHeight,
+				shape: this.baseShape,
+				wallThickness: this.baseHollow ? this.baseWallThickness : 0,
+				drainHoles: this.baseDrainHoles,
+				drainHoleDiameter: this.baseDrainHoleDiameter,
+				colors: model.decodedSTL.colors,
+			});
+			this.addFaces(model, "Create base", base.added);
+			const info = ["Base created."];
+			if (base.filledHoles > 0) {
+				info.push(`${base.filledHoles} holes of the scan were filled.`);
+			}
+			if (this.baseHollow && base.drainHoles < this.baseDrainHoles) {
+				info.push(
+					`Only ${base.drainHoles} drain holes fit in the floor, try smaller ones.`
+				);
+			}
+			this.baseInfo = info.join(" ");
+			this.baseError = null;
+		} catch (err) {
+			this.baseError = err instanceof Error ? err.message : String(err);
+		}
 	}
 
 	/**
-	 * Loading mesh
+	 * Analysis
 	 * ============================
 	 */
 
-	decodedSTL: DecodedSTL | null = null;
-	decodingError: string | null = null;
-	selecting = false;
+	analyzing = false;
+	/** paints the faces of every problem found in its color */
+	highlightProblems = true;
+	repairInfo: string | null = null;
+
+	/** printability report of the active model */
+	get analysis(): MeshAnalysis | null {
+		const model = this.activeModel;
+		if (!this.analyzing || !model) {
+			return null;
+		}
+		return analyzeMesh(model.decodedSTL.geometry);
+	}
+
+	/** world bounding box of the analyzed model, follows its moves */
+	get analysisBounds(): THREE.Box3 | null {
+		const model = this.activeModel;
+		if (!this.analyzing || !model) {
+			return null;
+		}
+		return worldBounds(model.decodedSTL.geometry, model.matrix);
+	}
+
+	get problemHighlights(): FaceHighlight[] {
+		const analysis = this.analysis;
+		if (!analysis || !this.highlightProblems) {
+			return [];
+		}
+		return meshProblems.map(({ problem, color }) => ({
+			faces: analysis.faces[problem],
+			color,
+		}));
+	}
+
 	@action
-	startSelecting() {
-		this.selecting = true;
+	startAnalyzing() {
+		if (!this.activeModel) {
+			return;
+		}
+		this.stopTools();
+		this.analyzing = true;
+		this.repairInfo = null;
 	}
+
 	@action
-	stopSelecting() {
-		this.selecting = false;
+	stopAnalyzing() {
+		this.analyzing = false;
+		this.repairInfo = null;
 	}
+
 	@action
-	cutSelection(indices: Set<number>) {
-		const newGeometry = cutAwaySelection(this.decodedSTL.geometry, indices);
-		this.decodedSTL = geometryToDecodedSTL(newGeometry);
+	setHighlightProblems(highlight: boolean) {
+		this.highlightProblems = highlight;
 	}
 
+	/** fixes the active model in one go, see `repairMesh` */
 	@action
-	async decodeFile(file: File) {
+	repairModel() {
+		const model = this.activeModel;
+		if (!model || model.locked) {
+			return;
+		}
+		const geometry = model.decodedSTL.geometry;
+		const colors = model.decodedSTL.colors;
+		const { faces, added, report } = repairMesh(geometry, colors);
+		const changes = [
+			[report.mergedCorners, "corners merged"],
+			[report.degenerateFaces, "degenerate faces removed"],
+			[report.duplicateFaces, "duplicate faces removed"],
+			[report.nonManifoldFaces, "faces removed at non-manifold edges"],
+			[report.flippedFaces, "faces flipped"],
+		]
+			.filter(([count]) => count)
+			.map(([count, change]) => `${count} ${change}`);
+		if (changes.length === 0) {
+			this.repairInfo = "Nothing to repair.";
+			return;
+		}
+
+		const entry: ReplaceFacesHistoryEntry = {
+			kind: "replace-faces",
+			label: "Repair",
+			modelId: model.id,
+			diff: extractFaceDiff(geometry, faces, colors),
+			added,
+			selection: Uint32Array.from(model.selectedFaceIndices),
+		};
+		this.replaceFaces(model, entry);
+		this.history.push(entry);
+		this.selectionVersion++;
+		this.islandInfo = null;
+		this.repairInfo = `Repaired: ${changes.join(", ")}.`;
+	}
+
+	/**
+	 * Label
+	 * ============================
+	 */
+
+	labeling = false;
+	labelText = "";
+	/** font size in mm */
+	labelSize = 4;
+	labelDepth = 0.5;
+	labelMode: LabelMode = "engrave";
+	/** degrees, counter-clockwise */
+	labelRotation = 0;
+	labelModelId: number | null = null;
+	/** center of the label, in the local coordinates of the model */
+	labelPoint: number[] | null = null;
+	labelInfo: string | null = null;
+
+	/** the label as it would be applied, or why it cannot be */
+	get labelPlacement(): { label: PlacedLabel | null; error: string | null } {
+		const model = this.models.find((m) => m.id === this.labelModelId);
+		if (!this.labeling || !model || !this.labelPoint) {
+			return { label: null, error: null };
+		}
+		// upright when the model is seen from the front
+		const inverse = model.matrix.clone().invert();
+		const up = new THREE.Vector3(0, 1, 0).transformDirection(inverse);
 		try {
-			this.decodingError = null;
-			this.decodedSTL = await decodeSTL(file);
+			const label = placeLabel(model.decodedSTL.geometry, {
+				text: this.labelText,
+				size: this.labelSize,
+				depth: this.labelDepth,
+				mode: this.labelMode,
+				rotation: this.labelRotation,
+				point: new THREE.Vector3().fromArray(this.labelPoint),
+				up,
+				colors: model.decodedSTL.colors,
+			});
+			return { label, error: null };
 		} catch (err) {
-			this.decodingError = err as string;
+			return {
+				label: null,
+				error: err instanceof Error ? err.message : String(err),
+			};
+		}
+	}
+
+	get labelPreview(): ViewerPreview | null {
+		const label = this.labelPlacement.label;
+		if (!label) {
+			return null;
+		}
+		return { modelId: this.labelModelId!, positions: label.preview };
+	}
+
+	@action
+	startLabeling() {
+		if (!this.activeModel) {
+			return;
+		}
+		this.stopTools();
+		this.labeling = true;
+		this.labelModelId = this.activeModel.id;
+		this.labelPoint = null;
+		this.labelInfo = null;
+	}
+
+	@action
+	stopLabeling() {
+		this.labeling = false;
+		this.labelModelId = null;
+		this.labelPoint = null;
+		this.labelInfo = null;
+	}
+
+	@action
+	setLabelPoint(modelId: number, point: THREE.Vector3) {
+		this.labelModelId = modelId;
+		this.labelPoint = point.toArray();
+		this.labelInfo = null;
+	}
+
+	@action
+	setLabelSize(size: number) {
+		this.labelSize = Math.min(
+			labelLimits.size.max,
+			Math.max(labelLimits.size.min, size)
+		);
+	}
+
+	@action
+	setLabelDepth(depth: number) {
+		this.labelDepth = Math.min(
+			labelLimits.depth.max,
+			Math.max(labelLimits.depth.min, depth)
+		);
+	}
+
+	/** engraves or embosses the previewed label, see `placeLabel` */
+	@action
+	applyLabel() {
+		const model = this.models.find((m) => m.id === this.labelModelId);
+		const label = this.labelPlacement.label;
+		if (!model || model.locked || !label) {
+			return;
+		}
+		const geometry = model.decodedSTL.geometry;
+		const entry: ReplaceFacesHistoryEntry = {
+			kind: "replace-faces",
+			label: `Label "${this.labelText}"`,
+			modelId: model.id,
+			diff: extractFaceDiff(geometry, label.faces, model.decodedSTL.colors),
+			added: label.added,
+			selection: Uint32Array.from(model.selectedFaceIndices),
+		};
+		this.replaceFaces(model, entry);
+		this.history.push(entry);
+		this.selectionVersion++;
+		this.islandInfo = null;
+		this.labelInfo = `"${this.labelText}" ${
+			this.labelMode === "engrave" ? "engraved" : "embossed"
+		}.`;
+		// the next label goes somewhere else
+		this.labelPoint = null;
+	}
+
+	/**
+	 * Retainer
+	 * ============================
+	 */
+
+	designingRetainer = false;
+	/** the arch the retainer is designed on */
+	retainerModelId: number | null = null;
+	// points the wire runs through, in the local coordinates of the arch
+	retainerPoints: number[][] = [];
+	retainerProfile: WireProfile = defaultRetainerOptions.profile;
+	retainerOffset = defaultRetainerOptions.offset;
+	retainerDiameter = defaultRetainerOptions.diameter;
+	retainerWidth = defaultRetainerOptions.width;
+	retainerThickness = defaultRetainerOptions.thickness;
+	retainerPads = defaultRetainerOptions.pads;
+	retainerPadDiameter = defaultRetainerOptions.padDiameter;
+	retainerPadThickness = defaultRetainerOptions.padThickness;
+	retainerInfo: string | null = null;
+
+	get retainerMarkers(): ViewerMarker[] {
+		if (!this.designingRetainer) {
+			return [];
+		}
+		return this.retainerPoints.map((position, i) => ({
+			modelId: this.retainerModelId!,
+			position,
+			color: "#8764b8",
+			label: `${i + 1}`,
+		}));
+	}
+
+	/** the retainer as it would be created, or why it cannot be */
+	get retainerDesign(): {
+		geometry: THREE.BufferGeometry | null;
+		error: string | null;
+	} {
+		const model = this.models.find((m) => m.id === this.retainerModelId);
+		if (!this.designingRetainer || !model || this.retainerPoints.length < 2) {
+			return { geometry: null, error: null };
+		}
+		try {
+			const geometry = designRetainer(model.decodedSTL.geometry, {
+				points: this.retainerPoints.map((p) =>
+					new THREE.Vector3().fromArray(p)
+				),
+				offset: this.retainerOffset,
+				profile: this.retainerProfile,
+				diameter: this.retainerDiameter,
+				width: this.retainerWidth,
+				thickness: this.retainerThickness,
+				pads: this.retainerPads,
+				padDiameter: this.retainerPadDiameter,
+				padThickness: this.retainerPadThickness,
+			});
+			return { geometry, error: null };
+		} catch (err) {
+			return {
+				geometry: null,
+				error: err instanceof Error ? err.message : String(err),
+			};
+		}
+	}
+
+	get retainerPreview(): ViewerPreview | null {
+		const geometry = this.retainerDesign.geometry;
+		if (!geometry) {
+			return null;
+		}
+		return {
+			modelId: this.retainerModelId!,
+			positions: geometry.getAttribute("position").array as Float32Array,
+		};
+	}
+
+	@action
+	startDesigningRetainer() {
+		if (!this.activeModel) {
+			return;
+		}
+		this.stopTools();
+		this.designingRetainer = true;
+		this.retainerModelId = this.activeModel.id;
+		this.retainerPoints = [];
+		this.retainerInfo = null;
+	}
+
+	@action
+	stopDesigningRetainer() {
+		this.designingRetainer = false;
+		this.retainerModelId = null;
+		this.retainerPoints = [];
+		this.retainerInfo = null;
+	}
+
+	@action
+	addRetainerPoint(modelId: number, point: THREE.Vector3) {
+		if (modelId !== this.retainerModelId) {
+			return;
+		}
+		this.retainerPoints.push(point.toArray());
+		this.retainerInfo = null;
+	}
+
+	@action
+	removeRetainerPoint(index: number) {
+		this.retainerPoints.splice(index, 1);
+	}
+
+	/** adds the designed retainer as a model of its own, placed on the arch */
+	@action
+	createRetainer() {
+		const arch = this.models.find((m) => m.id === this.retainerModelId);
+		const geometry = this.retainerDesign.geometry;
+		if (!arch || !geometry) {
+			return;
+		}
+		const model = this.addModelOn(arch, "retainer", geometry);
+		this.retainerInfo = `"${model.name}" was added to the models, select it to export it.`;
+		// the next retainer starts over
+		this.retainerPoints = [];
+	}
+
+	/**
+	 * Crown
+	 * ============================
+	 */
+
+	designingCrown = false;
+	/** the model with the preparation, selected up to its margin */
+	crownModelId: number | null = null;
+	crownSource: CrownSource = defaultCrownOptions.source;
+	/** the scan of the tooth before it was prepared */
+	crownPreOpId: number | null = null;
+	crownCementGap = defaultCrownOptions.cementGap;
+	crownThickness = defaultCrownOptions.minThickness;
+	crownInfo: string | null = null;
+
+	/** the crown as it would be created, or why it cannot be */
+	get crownDesign(): { crown: Crown | null; error: string | null } {
+		const model = this.models.find((m) => m.id === this.crownModelId);
+		// the crown follows the selection, which is not observable:
+		// read selectionVersion so the design is redone when it changes
+		void this.selectionVersion;
+		if (!this.designingCrown || !model) {
+			return { crown: null, error: null };
+		}
+		const preOpModel = this.models.find((m) => m.id === this.crownPreOpId);
+		let preOp;
+		if (preOpModel) {
+			preOp = {
+				geometry: preOpModel.decodedSTL.geometry,
+				matrix: preOpModel.matrix.clone().invert().multiply(model.matrix),
+			};
+		}
+		try {
+			const crown = buildCrown(model.decodedSTL.geometry, {
+				faces: model.selectedFaceIndices,
+				cementGap: this.crownCementGap,
+				minThickness: this.crownThickness,
+				source: this.crownSource,
+				preOp,
+			});
+			return { crown, error: null };
+		} catch (err) {
+			return {
+				crown: null,
+				error: err instanceof Error ? err.message : String(err),
+			};
+		}
+	}
+
+	get crownPreview(): ViewerPreview | null {
+		const crown = this.crownDesign.crown;
+		if (!crown) {
+			return null;
+		}
+		return {
+			modelId: this.crownModelId!,
+			positions: crown.geometry.getAttribute("position").array as Float32Array,
+		};
+	}
+
+	@action
+	startDesigningCrown() {
+		const model = this.activeModel;
+		if (!model) {
+			return;
+		}
+		this.stopTools();
+		this.designingCrown = true;
+		this.crownModelId = model.id;
+		this.crownPreOpId = this.models.find((m) => m !== model)?.id ?? null;
+		this.crownInfo = null;
+	}
+
+	@action
+	stopDesigningCrown() {
+		this.designingCrown = false;
+		this.crownModelId = null;
+		this.crownPreOpId = null;
+		this.crownInfo = null;
+	}
+
+	/** adds the designed crown as a model of its own, placed on the preparation */
+	@action
+	createCrown() {
+		const model = this.models.find((m) => m.id === this.crownModelId);
+		const crown = this.crownDesign.crown;
+		if (!model || !crown) {
+			return;
+		}
+		const added = this.addModelOn(model, "crown", crown.geometry);
+		this.crownInfo = `"${added.name}" was added to the models, its margin line is ${crown.marginLength.toFixed(1)} mm long.`;
+	}
+
+	/**
+	 * Tooth extraction
+	 * ============================
+	 */
+
+	extracting = false;
+	/** depth of the healed ridge (mm) */
+	extractConcavity = 1;
+	extractInfo: string | null = null;
+	extractError: string | null = null;
+
+	@action
+	startExtracting() {
+		if (!this.activeModel) {
+			return;
+		}
+		this.stopTools();
+		this.extracting = true;
+		this.extractInfo = null;
+		this.extractError = null;
+	}
+
+	@action
+	stopExtracting() {
+		this.extracting = false;
+		this.extractInfo = null;
+		this.extractError = null;
+	}
+
+	/** removes the selected tooth and heals the socket, see `extractTooth` */
+	@action
+	extractSelectedTooth() {
+		const model = this.activeModel;
+		if (!model || model.locked) {
+			return;
+		}
+		const geometry = model.decodedSTL.geometry;
+		const colors = model.decodedSTL.colors;
+		try {
+			const { faces, added } = extractTooth(geometry, {
+				faces: model.selectedFaceIndices,
+				concavity: this.extractConcavity,
+				colors,
+			});
+			const entry: ReplaceFacesHistoryEntry = {
+				kind: "replace-faces",
+				label: "Extract tooth",
+				modelId: model.id,
+				diff: extractFaceDiff(geometry, faces, colors),
+				added,
+				selection: Uint32Array.from(model.selectedFaceIndices),
+			};
+			this.replaceFaces(model, entry);
+			this.history.push(entry);
+			this.selectionVersion++;
+			this.islandInfo = null;
+			this.extractInfo = "The tooth was removed and the socket closed.";
+			this.extractError = null;
+		} catch (err) {
+			this.extractError = err instanceof Error ? err.message : String(err);
+		}
+	}
+
+	/**
+	 * Measurements
+	 * ============================
+	 */
+
+	measuring = false;
+	measureKind: MeasurementKind = "distance";
+	/** the model the pending points are on */
+	measureModelId: number | null = null;
+	// points picked for the next measurement, in the local coordinates of the model
+	measurePoints: number[][] = [];
+	measurements: Measurement[] = [];
+	nextMeasurementId = 1;
+	/** the measurements stay on the models after the tool is closed */
+	showMeasurements = true;
+	measureError: string | null = null;
+
+	get measureMarkers(): ViewerMarker[] {
+		if (!this.measuring) {
+			return [];
+		}
+		return this.measurePoints.map((position, i) => ({
+			modelId: this.measureModelId!,
+			position,
+			color: "#e3008c",
+			label: `${i + 1}`,
+		}));
+	}
+
+	get measurementLines(): ViewerMeasurement[] {
+		if (!this.showMeasurements) {
+			return [];
+		}
+		return this.measurements.map((measurement) => ({
+			modelId: measurement.modelId,
+			path: measurement.path,
+			points: measurement.points,
+			labelPosition: measurementLabelPosition(measurement),
+			label: `${measurement.name}: ${formatMeasurement(
+				measurement.kind,
+				measurement.value
+			)}`,
+			color: "#e3008c",
+		}));
+	}
+
+	@action
+	startMeasuring() {
+		this.stopTools();
+		this.measuring = true;
+		this.measureModelId = null;
+		this.measurePoints = [];
+		this.measureError = null;
+		this.showMeasurements = true;
+	}
+
+	@action
+	stopMeasuring() {
+		this.measuring = false;
+		this.measureModelId = null;
+		this.measurePoints = [];
+		this.measureError = null;
+	}
+
+	@action
+	setMeasureKind(kind: MeasurementKind) {
+		this.measureKind = kind;
+		this.measurePoints = [];
+		this.measureError = null;
+	}
+
+	/** measures once enough points were picked, on one model */
+	@action
+	addMeasurePoint(modelId: number, point: THREE.Vector3) {
+		const model = this.models.find((m) => m.id === modelId);
+		if (!model) {
+			return;
+		}
+		if (modelId !== this.measureModelId) {
+			// the points of a measurement are on one model, it starts over
+			this.measureModelId = modelId;
+			this.measurePoints = [];
+		}
+		this.measurePoints.push(point.toArray());
+		this.measureError = null;
+		const { kind, label, points } = measurementKinds.find(
+			(k) => k.kind === this.measureKind
+		)!;
+		if (this.measurePoints.length < points) {
+			return;
+		}
+		try {
+			const { value, path } = measure(
+				model.decodedSTL.geometry,
+				kind,
+				this.measurePoints.map((p) => new THREE.Vector3().fromArray(p))
+			);
+			const id = this.nextMeasurementId++;
+			this.measurements.push({
+				id,
+				name: `${label} ${id}`,
+				kind,
+				modelId,
+				points: this.measurePoints,
+				path: path.map((p) => p.toArray()),
+				value,
+			});
+		} catch (err) {
+			this.measureError = err instanceof Error ? err.message : String(err);
+		}
+		this.measurePoints = [];
+	}
+
+	@action
+	renameMeasurement(id: number, name: string) {
+		const measurement = this.measurements.find((m) => m.id === id);
+		if (measurement) {
+			measurement.name = name;
+		}
+	}
+
+	@action
+	removeMeasurement(id: number) {
+		this.measurements = this.measurements.filter((m) => m.id !== id);
+	}
+
+	/**
+	 * Cross section
+	 * ============================
+	 */
+
+	sectioning = false;
+	sectionPose: CutPlanePose = { position: [0, 0, 0], rotation: [0, 0, 0] };
+	sectionGizmo: "translate" | "rotate" = "translate";
+	/** the other side of the plane is clipped away */
+	sectionFlipped = false;
+	// points measured on the profile, in pairs, in mm along the plane
+	sectionPicks: number[][] = [];
+
+	/** the exact section of every visible model, see `sectionProfile` */
+	get sectionProfiles(): { model: SceneModel; lines: ProfileLine[] }[] {
+		if (!this.sectioning) {
+			return [];
+		}
+		return this.models
+			.filter((model) => model.visible)
+			.map((model) => ({
+				model,
+				lines: sectionProfile(
+					model.decodedSTL.geometry,
+					model.matrix,
+					this.sectionPose
+				),
+			}))
+			.filter(({ lines }) => lines.length > 0);
+	}
+
+	@action
+	startSectioning() {
+		const visible = this.models.filter((model) => model.visible);
+		if (visible.length === 0) {
+			return;
+		}
+		this.stopTools();
+
+		// upright through the middle of the models, across the arches
+		const box = new THREE.Box3();
+		for (const model of visible) {
+			box.expandByObject(model.decodedSTL.mesh);
 		}
+		const center = box.getCenter(new THREE.Vector3());
+		this.sectionPose = { position: center.toArray(), rotation: [90, 0, 0] };
+		this.sectioning = true;
+		this.sectionPicks = [];
+	}
+
+	@action
+	stopSectioning() {
+		this.sectioning = false;
+		this.sectionPicks = [];
+	}
+
+	@action
+	setSectionPose(pose: CutPlanePose) {
+		this.sectionPose = pose;
+		// the profile they were measured on has changed
+		this.sectionPicks = [];
+	}
+
+	@action
+	addSectionPick(point: THREE.Vector2) {
+		this.sectionPicks.push(point.toArray());
+	}
+
+	@action
+	clearSectionPicks() {
+		this.sectionPicks = [];
 	}
 
 	@action
@@ -84,6 +2130,129 @@ class AppState {
 		viewer.scene.remove(viewer.transformControlsGizmo);
 	}
 
+	/**
+	 * Project files
+	 * ============================
+	 */
+
+	// camera of an opened project, applied once the viewer is mounted
+	pendingCameraPose: CameraPose | null = null;
+
+	@action
+	saveProject(viewer: STLViewer) {
+		if (this.models.length === 0) {
+			return;
+		}
+		const blob = writeProject({
+			models: this.models.map((model) => {
+				const { mesh, geometry, colors, scannerColors } = model.decodedSTL;
+				mesh.updateMatrix();
+				return {
+					id: model.id,
+					name: model.name,
+					source: model.sourceFile,
+					geometry,
+					colors,
+					scannerColors,
+					transform: mesh.matrix.toArray(),
+					selection: Uint32Array.from(model.selectedFaceIndices),
+					visible: model.visible,
+					locked: model.locked,
+					color: model.color,
+				};
+			}),
+			activeModelId: this.activeModelId,
+			camera:
+				viewer.camera && viewer.controls
+					? {
+							position: viewer.camera.position.toArray(),
+							target: viewer.controls.target.toArray(),
+						}
+					: null,
+			history:
+				this.history.entries.length > 0
+					? { entries: this.history.entries, cursor: this.history.cursor }
+					: null,
+		});
+		const baseName = this.models[0].name.replace(/\.[^.]+$/, "") || "case";
+		downloadBlob(blob, `${baseName}${PROJECT_EXTENSION}`);
+	}
+
+	@action
+	async openProject(file: File) {
+		try {
+			this.decodingError = null;
+			const project = readProject(await file.arrayBuffer());
+			const models = project.models.map((data) => {
+				const decodedSTL = geometryToDecodedSTL(data.geometry);
+				decodedSTL.scannerColors = data.scannerColors;
+				new THREE.Matrix4()
+					.fromArray(data.transform)
+					.decompose(
+						decodedSTL.mesh.position,
+						decodedSTL.mesh.quaternion,
+						decodedSTL.mesh.scale
+					);
+				// the saved pose already contains the centering offset
+				decodedSTL.mesh.userData.centered = true;
+
+				const model = new SceneModel({
+					id: data.id,
+					name: data.name,
+					decodedSTL,
+					sourceFile: data.source,
+					color: data.color,
+				});
+				model.visible = data.visible;
+				model.locked = data.locked;
+				data.selection.forEach((face) => model.selectedFaceIndices.add(face));
+				return model;
+			});
+
+			this.closeFile();
+			this.models = models;
+			this.activeModelId = project.activeModelId;
+			if (project.history) {
+				this.history.restore(project.history.entries, project.history.cursor);
+			}
+			this.pendingCameraPose = project.camera;
+		} catch (err) {
+			this.decodingError = err as string;
+		}
+	}
+
+	/**
+	 * Exporting mesh
+	 * ============================
+	 */
+
+	exportDialogOpen = false;
+	exportFormat: STLExportFormat = "binary";
+	exportFrame: STLExportFrame = "original";
+	@action
+	openExportDialog() {
+		this.exportDialogOpen = true;
+	}
+	@action
+	closeExportDialog() {
+		this.exportDialogOpen = false;
+	}
+	@action
+	exportFile() {
+		const model = this.activeModel;
+		if (!model) {
+			return;
+		}
+		const baseName = model.name.replace(/\.[^.]+$/, "") || "model";
+		const blob = exportSTL(model.decodedSTL, {
+			format: this.exportFormat,
+			frame: this.exportFrame,
+			name: baseName,
+		});
+		downloadBlob(blob, `${baseName}.stl`);
+		this.exportDialogOpen = false;
+	}
+
 	/**
 	 * Dialog management
 	 * ============================
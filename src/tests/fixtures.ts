@@ -0,0 +1,55 @@
+/**
+ * Models and checks shared by the tests
+ */
+import * as THREE from "three";
+import { analyzeMesh } from "../services/mesh_analysis";
+import { expectEqual } from "./harness";
+
+/** a non-indexed copy of the geometry, without texture coordinates */
+export function nonIndexed(geometry: THREE.BufferGeometry) {
+	const faces = geometry.toNonIndexed();
+	faces.deleteAttribute("uv");
+	return faces;
+}
+
+/**
+ * An open half sphere of radius 10 with bumps of ±1.5 mm, concave between
+ * the bumps (where offsetting along the normals folds)
+ */
+export function bumpyDome(waves = 6, segments = 64) {
+	const dome = new THREE.SphereGeometry(
+		10,
+		segments,
+		segments / 2,
+		0,
+		Math.PI * 2,
+		0,
+		Math.PI / 2
+	);
+	const position = dome.getAttribute("position");
+	const point = new THREE.Vector3();
+	for (let i = 0; i < position.count; i++) {
+		point.fromBufferAttribute(position, i);
+		const theta = Math.atan2(point.z, point.x);
+		const phi = Math.acos(THREE.MathUtils.clamp(point.y / 10, -1, 1));
+		point.setLength(10 + 1.5 * Math.sin(waves * theta) * Math.sin(waves * phi));
+		position.setXYZ(i, point.x, point.y, point.z);
+	}
+	return nonIndexed(dome);
+}
+
+/** the surface is closed and printable, see `analyzeMesh` */
+export function expectWatertight(geometry: THREE.BufferGeometry) {
+	expectEqual(
+		analyzeMesh(geometry).counts,
+		{
+			boundary: 0,
+			"non-manifold": 0,
+			degenerate: 0,
+			duplicate: 0,
+			inconsistent: 0,
+			"self-intersection": 0,
+		},
+		"problems"
+	);
+}
@@ -0,0 +1,214 @@
+/**
+ * Tests of the half-edge mesh on small synthetic meshes
+ */
+import * as THREE from "three";
+import { HalfEdgeMesh } from "../services/half_edge_mesh";
+import { expectEqual, test } from "./harness";
+
+/** non-indexed geometry of the triangles, given by their corners */
+function triangles(corners: number[][][]): THREE.BufferGeometry {
+	const geometry = new THREE.BufferGeometry();
+	geometry.setAttribute(
+		"position",
+		new THREE.Float32BufferAttribute(corners.flat(2), 3)
+	);
+	return geometry;
+}
+
+/** half-edges of the mesh running between two vertices, in either direction */
+function edgeHalfEdges(mesh: HalfEdgeMesh, a: number, b: number): number[] {
+	const found: number[] = [];
+	for (let h = 0; h < mesh.origins.length; h++) {
+		const from = mesh.origins[h];
+		const to = mesh.target(h);
+		if ((from === a && to === b) || (from === b && to === a)) found.push(h);
+	}
+	return found;
+}
+
+// a unit square of two triangles, both wound counter-clockwise seen from +z
+const square = [
+	[
+		[0, 0, 0],
+		[1, 0, 0],
+		[1, 1, 0],
+	],
+	[
+		[0, 0, 0],
+		[1, 1, 0],
+		[0, 1, 0],
+	],
+];
+
+const tetrahedron = (() => {
+	const [a, b, c, d] = [
+		[0, 0, 0],
+		[1, 0, 0],
+		[0, 1, 0],
+		[0, 0, 1],
+	];
+	// wound outwards
+	return [
+		[a, c, b],
+		[a, b, d],
+		[a, d, c],
+		[b, c, d],
+	];
+})();
+
+test("welds corners rounding to the same point of the tolerance grid", () => {
+	const nearly = square.map((face) => face.map((corner) => corner.slice()));
+	// the second triangle's copies of the shared corners are off by 1e-6
+	nearly[1][0][0] += 1e-6;
+	nearly[1][1][1] -= 1e-6;
+	expectEqual(
+		HalfEdgeMesh.fromGeometry(triangles(nearly)).vertexCount,
+		4,
+		"vertices with the default tolerance"
+	);
+	expectEqual(
+		HalfEdgeMesh.fromGeometry(triangles(nearly), 1e-7).vertexCount,
+		6,
+		"vertices with a tighter tolerance"
+	);
+});
+
+test("pairs the half-edges of a shared edge as twins", () => {
+	const mesh = HalfEdgeMesh.fromGeometry(triangles(square));
+	const paired = [...mesh.twins.keys()].filter((h) => mesh.twins[h] !== -1);
+	expectEqual(paired.length, 2, "half-edges with a twin");
+	for (const h of paired) {
+		const twin = mesh.twins[h];
+		expectEqual(mesh.twins[twin], h, "twin of the twin");
+		expectEqual(mesh.origins[twin], mesh.target(h), "twin starts at the end");
+		expectEqual(mesh.target(twin), mesh.origins[h], "twin ends at the start");
+		if (mesh.face(twin) === mesh.face(h)) {
+			throw new Error("twins are in the same face");
+		}
+	}
+});
+
+test("does not pair the edge of inconsistently oriented faces", () => {
+	const flipped = [square[0], [square[1][0], square[1][2], square[1][1]]];
+	const mesh = HalfEdgeMesh.fromGeometry(triangles(flipped));
+	expectEqual(
+		[...mesh.twins].every((twin) => twin === -1),
+		true,
+		"no twins"
+	);
+	for (const h of edgeHalfEdges(mesh, 0, 2)) {
+		expectEqual(mesh.isBoundary(h), true, "unpaired half-edge");
+		expectEqual(mesh.isOpenEdge(h), false, "the shared edge is no border");
+	}
+	expectEqual(
+		mesh.boundaryLoops().flat().length,
+		4,
+		"border edges, without the shared one"
+	);
+});
+
+test("finds the border of an open strip as one loop", () => {
+	// 4 squares in a row, 8 triangles
+	const strip = [0, 1, 2, 3].flatMap((i) =>
+		square.map((face) => face.map(([x, y, z]) => [x + i, y, z]))
+	);
+	const mesh = HalfEdgeMesh.fromGeometry(triangles(strip));
+	expectEqual(mesh.vertexCount, 10, "vertices");
+	const loops = mesh.boundaryLoops();
+	expectEqual(loops.length, 1, "loops");
+	expectEqual(loops[0].length, 10, "border edges");
+	// the loop follows itself and closes
+	loops[0].forEach((h, i) => {
+		const next = loops[0][(i + 1) % loops[0].length];
+		expectEqual(mesh.target(h), mesh.origins[next], "consecutive half-edges");
+	});
+	for (let vertex = 0; vertex < mesh.vertexCount; vertex++) {
+		expectEqual(mesh.isBoundaryVertex(vertex), true, "vertex on the border");
+	}
+});
+
+test("a closed tetrahedron has no border", () => {
+	const mesh = HalfEdgeMesh.fromGeometry(triangles(tetrahedron));
+	expectEqual(mesh.vertexCount, 4, "vertices");
+	expectEqual(mesh.boundaryLoops().length, 0, "loops");
+	expectEqual(
+		[...mesh.twins].every((twin) => twin !== -1),
+		true,
+		"every half-edge has a twin"
+	);
+	expectEqual(mesh.nonManifoldEdges.length, 0, "non-manifold edges");
+	for (let face = 0; face < mesh.faceCount; face++) {
+		expectEqual(mesh.faceNeighbors(face).length, 3, "neighbors of a face");
+	}
+	for (let vertex = 0; vertex < mesh.vertexCount; vertex++) {
+		expectEqual(
+			mesh.vertexNeighbors(vertex).length,
+			3,
+			"neighbors of a vertex"
+		);
+	}
+});
+
+test("reports an edge shared by three faces as non-manifold", () => {
+	const fin = [
+		...square,
+		[
+			[0, 0, 0],
+			[1, 1, 0],
+			[0.5, 0.5, 1],
+		],
+	];
+	const mesh = HalfEdgeMesh.fromGeometry(triangles(fin));
+	// the diagonal from (0, 0, 0) to (1, 1, 0)
+	const diagonal = edgeHalfEdges(mesh, 0, 2);
+	expectEqual(diagonal.length, 3, "half-edges on the diagonal");
+	expectEqual(
+		[...mesh.nonManifoldEdges].sort(),
+		[...diagonal].sort(),
+		"non-manifold half-edges"
+	);
+	for (const h of diagonal) {
+		expectEqual(mesh.twins[h], -1, "twin of a non-manifold half-edge");
+		expectEqual(mesh.isOpenEdge(h), false, "non-manifold edge is no border");
+	}
+});
+
+test("round trips to and from BufferGeometry", () => {
+	const geometry = triangles(tetrahedron);
+	const colors = tetrahedron.flat().map(([x, y, z]) => [x, y, z]);
+	geometry.setAttribute(
+		"color",
+		new THREE.Float32BufferAttribute(colors.flat(), 3)
+	);
+	const mesh = HalfEdgeMesh.fromGeometry(geometry);
+
+	const soup = mesh.toGeometry();
+	expectEqual(soup.index, null, "non-indexed");
+	expectEqual(
+		Array.from(soup.getAttribute("position").array),
+		tetrahedron.flat(2),
+		"positions"
+	);
+	expectEqual(
+		Array.from(soup.getAttribute("color").array),
+		colors.flat(),
+		"colors"
+	);
+	expectEqual(soup.getAttribute("normal").count, 12, "normals");
+
+	const indexed = mesh.toGeometry({ indexed: true });
+	expectEqual(indexed.getAttribute("position").count, 4, "shared vertices");
+	expectEqual(
+		Array.from(indexed.index!.array),
+		Array.from(mesh.origins),
+		"index"
+	);
+
+	const again = HalfEdgeMesh.fromGeometry(soup);
+	expectEqual(Array.from(again.origins), Array.from(mesh.origins), "origins");
+	expectEqual(
+		Array.from(again.positions),
+		Array.from(mesh.positions),
+		"vertices"
+	);
+});
@@ -0,0 +1,30 @@
+/**
+ * A minimal test runner: the tests of every file run as they are imported
+ * by `index.ts`, which reports the failures at the end
+ */
+let failures = 0;
+
+export function test(name: string, run: () => void) {
+	try {
+		run();
+		console.log(`ok    ${name}`);
+	} catch (err) {
+		failures++;
+		console.log(`FAIL  ${name}: ${err instanceof Error ? err.message : err}`);
+	}
+}
+
+export function expectEqual<T>(actual: T, expected: T, what: string) {
+	if (JSON.stringify(actual) !== JSON.stringify(expected)) {
+		throw new Error(
+			`${what}: expected ${JSON.stringify(expected)}, got ${JSON.stringify(actual)}`
+		);
+	}
+}
+
+/** fails the run (a non-zero exit) if any test failed */
+export function finish() {
+	if (failures > 0) {
+		throw new Error(`${failures} test(s) failed`);
+	}
+}
@@ -0,0 +1,9 @@
+/**
+ * Runs every test, with `npm test`
+ */
+import "./half_edge_mesh.test";
+import "./model_base.test";
+import "./solidify.test";
+import { finish } from "./harness";
+
+finish();
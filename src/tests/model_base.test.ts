@@ -0,0 +1,56 @@
+/**
+ * The bases closing an open scan are watertight, for both shapes,
+ * solid and hollow, also under a concave surface
+ */
+import * as THREE from "three";
+import { appendFaces, cutAwaySelection } from "../services/cut_selection";
+import { createBase, type BaseShape } from "../services/model_base";
+import { planeCut } from "../services/plane_cut";
+import { bumpyDome, expectWatertight, nonIndexed } from "./fixtures";
+import { expectEqual, test } from "./harness";
+
+// a sphere cut below its equator, the border is crossed by the faces
+const dome = (() => {
+	const sphere = nonIndexed(new THREE.SphereGeometry(10, 48, 24));
+	const { faces, added } = planeCut(
+		sphere,
+		new THREE.Plane(new THREE.Vector3(0, 1, 0), 2),
+		{ cap: false }
+	);
+	return appendFaces(cutAwaySelection(sphere, faces), added);
+})();
+
+// a box without its bottom, the border has points on straight lines
+const openBox = (() => {
+	const box = nonIndexed(new THREE.BoxGeometry(20, 10, 14, 6, 3, 5));
+	const position = box.getAttribute("position");
+	const bottom = new Set<number>();
+	for (let face = 0; face < position.count / 3; face++) {
+		if ([0, 1, 2].every((i) => position.getY(face * 3 + i) === -5)) {
+			bottom.add(face);
+		}
+	}
+	return cutAwaySelection(box, bottom);
+})();
+
+const models = { dome, "open box": openBox, "bumpy dome": bumpyDome() };
+const shapes: BaseShape[] = ["horseshoe", "full-plate"];
+
+for (const [name, model] of Object.entries(models)) {
+	for (const shape of shapes) {
+		for (const wallThickness of [0, 1.5]) {
+			const kind = wallThickness > 0 ? "hollow" : "solid";
+			test(`a ${kind} ${shape} base closes the ${name}`, () => {
+				const base = createBase(model, new THREE.Matrix4(), {
+					height: 5,
+					shape,
+					wallThickness,
+					drainHoles: 2,
+					drainHoleDiameter: 3,
+				});
+				expectWatertight(appendFaces(model, base.added));
+				expectEqual(base.drainHoles, wallThickness > 0 ? 2 : 0, "drain holes");
+			});
+		}
+	}
+}
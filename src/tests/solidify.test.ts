@@ -0,0 +1,17 @@
+/**
+ * The shell of a concave surface does not cross itself
+ */
+import { appendFaces } from "../services/cut_selection";
+import { solidify } from "../services/solidify";
+import { bumpyDome, expectWatertight } from "./fixtures";
+import { expectEqual, test } from "./harness";
+
+const model = bumpyDome();
+
+for (const thickness of [1.5, 2, 3]) {
+	test(`a ${thickness} mm shell of the bumpy dome is watertight`, () => {
+		const { added, rimEdges } = solidify(model, { thickness });
+		expectWatertight(appendFaces(model, added));
+		expectEqual(rimEdges, 64, "rim edges");
+	});
+}